@@ -0,0 +1,98 @@
+/**
+ * Model cache service worker
+ * Serves bundled model weights and FaceMesh assets from a Cache Storage
+ * bucket named after the manifest version, so they load with no network.
+ */
+
+const CACHE_PREFIX = 'copag-models-v';
+const MANIFEST_URL = '/models/manifest.json';
+const VERSION = new URL(self.location.href).searchParams.get('v') || '0';
+const CACHE_NAME = `${CACHE_PREFIX}${VERSION}`;
+
+/**
+ * URLs of the weight shards a TFJS model.json lists, resolved next to it
+ */
+const getWeightShardUrls = async (cache, modelUrl) => {
+  const response = await cache.match(modelUrl);
+  if (!response) return [];
+  const model = await response.json();
+  return (model.weightsManifest || [])
+    .flatMap(group => group.paths)
+    .map(path => new URL(path, new URL(modelUrl, self.location.origin)).pathname);
+};
+
+// Precache everything the manifest lists, and the detector's weight shards,
+// so the next start works offline
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    const response = await fetch(MANIFEST_URL, { cache: 'no-cache' });
+    const manifest = await response.clone().json();
+    await cache.put(MANIFEST_URL, response);
+
+    const assets = [
+      manifest.detector.modelUrl,
+      ...manifest.faceMesh.files.map(file => `${manifest.faceMesh.baseUrl}${file}`)
+    ];
+
+    // Missing assets (e.g. detector weights not exported yet) must not block install
+    await Promise.all(assets.map(url => cache.add(url).catch(() => {
+      console.warn(`Model asset not cached: ${url}`);
+    })));
+
+    // Shards are only known once model.json is in; all of them or none
+    const shards = await getWeightShardUrls(cache, manifest.detector.modelUrl);
+    await cache.addAll(shards).catch(() => {
+      console.warn(`Detector weight shards not cached (${shards.length})`);
+    });
+
+    await self.skipWaiting();
+  })());
+});
+
+// Drop caches left behind by previous manifest versions
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'GET' || url.origin !== self.location.origin || !url.pathname.startsWith('/models/')) {
+    return;
+  }
+
+  event.respondWith((async () => {
+    const cache = await caches.open(CACHE_NAME);
+
+    // Manifest: network first so new model versions are picked up
+    if (url.pathname === MANIFEST_URL) {
+      try {
+        const response = await fetch(event.request);
+        if (response.ok) {
+          await cache.put(MANIFEST_URL, response.clone());
+        }
+        return response;
+      } catch (error) {
+        const cached = await cache.match(MANIFEST_URL);
+        if (cached) return cached;
+        throw error;
+      }
+    }
+
+    // Assets: cache first, populate on first use (e.g. assets added after install)
+    const cached = await cache.match(event.request);
+    if (cached) return cached;
+
+    const response = await fetch(event.request);
+    if (response.ok) {
+      await cache.put(event.request, response.clone());
+    }
+    return response;
+  })());
+});
@@ -0,0 +1,62 @@
+/**
+ * FaceMesh worker
+ * MediaPipe solutions load their wasm through importScripts, so this runs as a
+ * classic (non-module) worker and is served as-is from public/.
+ * Requests: { id, type: 'init' | 'process' | 'close', payload }
+ */
+
+let faceMesh = null;
+let latestLandmarks = [];
+
+// Landmarks come back as objects with extra fields; keep only coordinates
+const toPlainLandmarks = (faces) => faces.map(face => face.map(({ x, y, z }) => ({ x, y, z })));
+
+self.onmessage = async (event) => {
+  const { id, type, payload } = event.data;
+
+  try {
+    let result;
+
+    switch (type) {
+      case 'init': {
+        const { baseUrl, options } = payload;
+        importScripts(`${baseUrl}face_mesh.js`);
+
+        faceMesh = new self.FaceMesh({
+          locateFile: (file) => `${baseUrl}${file}`
+        });
+        faceMesh.setOptions(options);
+        faceMesh.onResults((results) => {
+          latestLandmarks = results.multiFaceLandmarks || [];
+        });
+        await faceMesh.initialize();
+        result = true;
+        break;
+      }
+
+      case 'process':
+        latestLandmarks = [];
+        try {
+          // onResults fires before send() resolves
+          await faceMesh.send({ image: payload.bitmap });
+        } finally {
+          payload.bitmap.close();
+        }
+        result = { multiFaceLandmarks: toPlainLandmarks(latestLandmarks) };
+        break;
+
+      case 'close':
+        await faceMesh?.close();
+        faceMesh = null;
+        result = true;
+        break;
+
+      default:
+        throw new Error(`Unknown FaceMesh worker request: ${type}`);
+    }
+
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({ id, error: error.message });
+  }
+};
@@ -0,0 +1,49 @@
+/**
+ * Copy the MediaPipe FaceMesh assets from node_modules into public/models
+ * so the app can serve them locally instead of from a CDN.
+ * Detector weights are exported from Roboflow separately (see README);
+ * the sync warns when the tfjs detector is selected without them.
+ */
+import { copyFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { loadEnv } from 'vite';
+
+// Same default as src/config/detector.js
+const DEFAULT_DETECTOR_BACKEND = 'inferencejs';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const manifest = JSON.parse(readFileSync(join(root, 'public/models/manifest.json'), 'utf8'));
+const sourceDir = join(root, 'node_modules/@mediapipe/face_mesh');
+const targetDir = join(root, 'public', manifest.faceMesh.baseUrl);
+
+const installed = JSON.parse(readFileSync(join(sourceDir, 'package.json'), 'utf8')).version;
+if (installed !== manifest.faceMesh.version) {
+  console.warn(`⚠️ Installed @mediapipe/face_mesh ${installed} does not match manifest ${manifest.faceMesh.version}`);
+}
+
+mkdirSync(targetDir, { recursive: true });
+manifest.faceMesh.files.forEach(file => {
+  copyFileSync(join(sourceDir, file), join(targetDir, file));
+});
+console.log(`📦 Copied ${manifest.faceMesh.files.length} FaceMesh assets to ${targetDir}`);
+
+const env = loadEnv(process.env.NODE_ENV || 'development', root, 'VITE_');
+const backend = env.VITE_DETECTOR_BACKEND || DEFAULT_DETECTOR_BACKEND;
+const modelUrl = env.VITE_TFJS_MODEL_URL || manifest.detector.modelUrl;
+const modelPath = join(root, 'public', modelUrl);
+
+// Only weights served from public/ can be checked here
+if (backend === 'tfjs' && modelUrl.startsWith('/')) {
+  if (!existsSync(modelPath)) {
+    console.warn(`⚠️ Detector weights not found at public${modelUrl}; the tfjs detector needs the exported TFJS model (see README)`);
+  } else {
+    const model = JSON.parse(readFileSync(modelPath, 'utf8'));
+    const missingShards = (model.weightsManifest || [])
+      .flatMap(group => group.paths)
+      .filter(path => !existsSync(join(dirname(modelPath), path)));
+    if (missingShards.length > 0) {
+      console.warn(`⚠️ Detector weight shards missing next to public${modelUrl}: ${missingShards.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FileVideo } from 'lucide-react';
+import { getRoboflowConfig } from '@/config/roboflow';
+import { formatVideoTime } from '@/utils/timeFormat';
+import type { TimelineEvent } from './AnalysisTimeline';
+
+interface BehaviorSummary {
+  occurrences: number;
+  totalMs: number;
+  longestMs: number;
+}
+
+export interface AnalysisSession {
+  id: string;
+  type?: 'file' | 'replay';
+  createdAt: string;
+  source: { name: string; size?: number; duration: number; width?: number; height?: number; recordedAt?: string };
+  mode: string;
+  detector: string;
+  framesAnalyzed: number;
+  processingMs: number;
+  speedFactor: number | null;
+  timeline: TimelineEvent[];
+  summary: {
+    behaviors: Record<string, BehaviorSummary>;
+    alerts: number;
+    blinks: number;
+    blinksPerMinute: number;
+    eyeClosures: number;
+    microsleeps?: number;
+    lookingAway?: number;
+    lookingDown?: number;
+    nods?: number;
+    yawns?: number;
+    driverAbsentMs?: number;
+    eyesOffRoadMs?: number;
+    eyesOffRoadPerMinute?: number;
+    longGlances?: number;
+    avgEar: number | null;
+    faceVisibleRatio: number;
+    maxPerclos?: number | null;
+    concentration?: number;
+  };
+}
+
+interface AnalysisSummaryProps {
+  session: AnalysisSession;
+}
+
+const CLASSES = getRoboflowConfig().classes;
+
+/**
+ * Summary of an analyzed clip: behaviour totals, alerts and eye statistics
+ */
+export const AnalysisSummary = ({ session }: AnalysisSummaryProps) => {
+  const { source, summary } = session;
+  const behaviors = Object.entries(summary.behaviors);
+
+  const stats = [
+    { label: 'Duration', value: formatVideoTime(source.duration) },
+    { label: 'Alerts', value: summary.alerts },
+    { label: 'Blinks / min', value: summary.blinksPerMinute },
+    { label: 'Eye closures', value: summary.eyeClosures },
+    ...(summary.microsleeps !== undefined ? [{ label: 'Microsleeps', value: summary.microsleeps }] : []),
+    ...(summary.lookingAway !== undefined ? [{ label: 'Looking away', value: summary.lookingAway }] : []),
+    ...(summary.lookingDown !== undefined ? [{ label: 'Looking down', value: summary.lookingDown }] : []),
+    ...(summary.nods !== undefined ? [{ label: 'Head nods', value: summary.nods }] : []),
+    ...(summary.yawns !== undefined ? [{ label: 'Yawns', value: summary.yawns }] : []),
+    ...(summary.driverAbsentMs !== undefined ? [{ label: 'Driver absent', value: `${Math.round(summary.driverAbsentMs / 1000)}s` }] : []),
+    ...(summary.eyesOffRoadMs !== undefined ? [
+      { label: 'Eyes off road', value: `${Math.round(summary.eyesOffRoadMs / 1000)}s (${summary.eyesOffRoadPerMinute}s/min)` },
+      { label: 'Glances > 2s', value: summary.longGlances }
+    ] : []),
+    { label: 'Average EAR', value: summary.avgEar ?? '—' },
+    { label: 'Face visible', value: `${Math.round(summary.faceVisibleRatio * 100)}%` },
+    ...(summary.maxPerclos !== undefined ? [{ label: 'Peak PERCLOS', value: summary.maxPerclos !== null ? `${Math.round(summary.maxPerclos * 100)}%` : '—' }] : []),
+    ...(summary.concentration !== undefined ? [{ label: 'Concentration', value: `${summary.concentration}%` }] : [])
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileVideo className="w-5 h-5 text-primary" />
+          {source.name}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {session.type === 'replay'
+            ? `Replay of a recording from ${source.recordedAt ? new Date(source.recordedAt).toLocaleString() : 'an unknown date'}`
+            : `${source.width}x${source.height}`} • {session.framesAnalyzed} frames • {session.detector ?? 'Unknown detector'}
+          {session.speedFactor ? ` • ${session.speedFactor}x real time` : ''}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          {stats.map(stat => (
+            <div key={stat.label} className="rounded-lg bg-muted/50 p-3">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-lg font-semibold">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium mb-2">Behaviours</h4>
+          {behaviors.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No behaviours detected.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="font-normal pb-1">Behaviour</th>
+                  <th className="font-normal pb-1">Occurrences</th>
+                  <th className="font-normal pb-1">Total</th>
+                  <th className="font-normal pb-1">Longest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {behaviors.map(([className, behavior]) => (
+                  <tr key={className}>
+                    <td className="py-1 flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: CLASSES[className]?.color }} />
+                      {CLASSES[className]?.label || className}
+                    </td>
+                    <td className="py-1">{behavior.occurrences}</td>
+                    <td className="py-1">{(behavior.totalMs / 1000).toFixed(1)}s</td>
+                    <td className="py-1">{(behavior.longestMs / 1000).toFixed(1)}s</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,137 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, Compass, Eye, EyeOff, Play, Square, Clock, UserX, Zap } from 'lucide-react';
+import { getRoboflowConfig } from '@/config/roboflow';
+import { CAMERA_ROLES } from '@/config/camera';
+import { getGazeConfig } from '@/config/gaze';
+import { formatVideoTime } from '@/utils/timeFormat';
+
+export interface TimelineEvent {
+  // 'eyeClosure' comes from analyses saved before closures were split into long blinks and microsleeps
+  type: 'started' | 'ended' | 'alert' | 'blink' | 'longBlink' | 'microsleep' | 'eyeClosure' | 'lookingAway' | 'lookingDown' | 'nod' | 'eyesOffRoad' | 'yawn' | 'presence';
+  time: number;
+  class?: string;
+  cameraId?: string;
+  duration?: number;
+  minEar?: number;
+  peak?: number;
+  direction?: 'left' | 'right';
+  zone?: string;
+  source?: 'both' | 'landmarks' | 'detector';
+  state?: 'partial' | 'absent' | 'multiple';
+  confidence?: number;
+  alertType?: string;
+  message?: string;
+  trackId?: string;
+}
+
+interface AnalysisTimelineProps {
+  timeline: TimelineEvent[];
+  showBlinks?: boolean;
+}
+
+const CLASSES = getRoboflowConfig().classes;
+const YAWN_SOURCES: Record<string, string> = { both: 'mouth and detector', landmarks: 'mouth', detector: 'detector' };
+const PRESENCE_STATES: Record<string, string> = { absent: 'No driver detected', partial: 'Driver partially visible', multiple: 'Multiple faces' };
+const GAZE_ZONES: Record<string, string> = Object.fromEntries(getGazeConfig().zones.map(zone => [zone.id, zone.label]));
+
+const describeEvent = (event: TimelineEvent) => {
+  const className = event.class ? CLASSES[event.class]?.label || event.class : '';
+  const label = event.cameraId ? `${className} (${CAMERA_ROLES[event.cameraId]?.label ?? event.cameraId})` : className;
+  switch (event.type) {
+    case 'started':
+      return { icon: Play, color: CLASSES[event.class]?.color, text: `${label} started` };
+    case 'ended':
+      return {
+        icon: Square,
+        color: CLASSES[event.class]?.color,
+        text: `${label} ended after ${((event.duration || 0) / 1000).toFixed(1)}s`
+      };
+    case 'alert':
+      return { icon: AlertTriangle, color: '#dc2626', text: event.message || `${label} alert` };
+    case 'microsleep':
+      return {
+        icon: EyeOff,
+        color: '#dc2626',
+        text: `Microsleep: eyes closed for ${((event.duration || 0) / 1000).toFixed(1)}s (min EAR ${event.minEar?.toFixed(3) ?? '—'})`
+      };
+    case 'longBlink':
+      return { icon: Eye, color: '#f59e0b', text: `Long blink (${Math.round(event.duration || 0)}ms)` };
+    case 'eyeClosure':
+      return { icon: Eye, color: '#f59e0b', text: `Eyes closed for ${((event.duration || 0) / 1000).toFixed(1)}s` };
+    case 'lookingAway':
+      return {
+        icon: Compass,
+        color: '#f59e0b',
+        text: `Looked ${event.direction} for ${((event.duration || 0) / 1000).toFixed(1)}s (${Math.abs(event.peak || 0).toFixed(0)}°)`
+      };
+    case 'lookingDown':
+      return {
+        icon: Compass,
+        color: '#f59e0b',
+        text: `Looked down for ${((event.duration || 0) / 1000).toFixed(1)}s (${(event.peak || 0).toFixed(0)}°)`
+      };
+    case 'eyesOffRoad':
+      return {
+        icon: EyeOff,
+        color: '#f59e0b',
+        text: `Eyes off road for ${((event.duration || 0) / 1000).toFixed(1)}s (${GAZE_ZONES[event.zone] ?? 'off road'})`
+      };
+    case 'yawn':
+      return {
+        icon: Zap,
+        color: CLASSES.Yawn?.color,
+        text: `Yawn (${((event.duration || 0) / 1000).toFixed(1)}s, ${YAWN_SOURCES[event.source] ?? event.source})`
+      };
+    case 'presence':
+      return {
+        icon: UserX,
+        color: event.state === 'absent' ? '#dc2626' : '#f59e0b',
+        text: `${PRESENCE_STATES[event.state] ?? event.state} for ${((event.duration || 0) / 1000).toFixed(1)}s`
+      };
+    case 'nod':
+      return { icon: Compass, color: '#dc2626', text: `Head nod (${(event.peak || 0).toFixed(0)}° in ${Math.round(event.duration || 0)}ms)` };
+    default:
+      return { icon: Eye, color: '#3b82f6', text: `Blink (${Math.round(event.duration || 0)}ms)` };
+  }
+};
+
+/**
+ * Chronological list of behaviour, alert and eye events of an analyzed clip
+ */
+export const AnalysisTimeline = ({ timeline, showBlinks = false }: AnalysisTimelineProps) => {
+  const events = showBlinks ? timeline : timeline.filter(event => event.type !== 'blink');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="w-5 h-5 text-primary" />
+          Event Timeline
+          <Badge variant="secondary" className="ml-auto">{events.length} events</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No events detected in this clip.</p>
+        ) : (
+          <ScrollArea className="h-96 pr-4">
+            <ol className="space-y-2">
+              {events.map((event, index) => {
+                const { icon: Icon, color, text } = describeEvent(event);
+                return (
+                  <li key={`${event.type}-${event.time}-${index}`} className="flex items-center gap-3 text-sm">
+                    <span className="font-mono text-muted-foreground w-16 shrink-0">{formatVideoTime(event.time)}</span>
+                    <Icon className="w-4 h-4 shrink-0" style={{ color }} />
+                    <span className={event.type === 'alert' ? 'font-semibold text-red-600' : ''}>{text}</span>
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
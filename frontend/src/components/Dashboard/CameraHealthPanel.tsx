@@ -0,0 +1,129 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { MonitorCheck } from 'lucide-react';
+import { CAMERA_ROLES } from '@/config/camera';
+import { getCameraHealthConfig } from '@/config/cameraHealth';
+
+export interface CameraHealthEvent {
+  type: 'cameraTamper' | 'cameraFault';
+  cameraId: string;
+  time: number;
+  duration: number;
+  issues: string[];
+  endedAt?: number;
+}
+
+export interface CameraHealthSample {
+  cameraId: string;
+  status: 'ok' | 'degraded' | 'tamper' | 'fault';
+  issues: string[];
+  reliable: boolean;
+  quality: {
+    brightness: number;
+    histogram: number[];
+    overexposedShare: number;
+    sharpness: number;
+    uniformShare: number;
+    difference: number | null;
+  } | null;
+  timestamp: number;
+}
+
+interface CameraHealthPanelProps {
+  health: Record<string, CameraHealthSample>;
+  events: CameraHealthEvent[];
+}
+
+const CAMERA_HEALTH = getCameraHealthConfig();
+const EVENTS_SHOWN = 5;
+
+const STATUSES = {
+  ok: { label: 'OK', color: '#10B981' },
+  degraded: { label: 'Unreliable', color: '#F59E0B' },
+  tamper: { label: 'Tampering', color: '#EF4444' },
+  fault: { label: 'Fault', color: '#EF4444' }
+};
+
+const ISSUE_LABELS: Record<string, string> = CAMERA_HEALTH.labels;
+
+const cameraLabel = (cameraId: string) => CAMERA_ROLES[cameraId]?.label ?? cameraId;
+
+/**
+ * Live picture quality of every attached camera and its tamper and fault events
+ */
+export const CameraHealthPanel = ({ health, events }: CameraHealthPanelProps) => {
+  const cameras = Object.values(health);
+
+  return (
+    <Card className="bg-white border border-gray-200 rounded-xl shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+          <MonitorCheck className="w-5 h-5 text-blue-600" />
+          Camera Health
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {cameras.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center">No camera attached</p>
+        )}
+
+        {cameras.map(sample => {
+          const status = STATUSES[sample.status];
+          return (
+            <div key={sample.cameraId} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">{cameraLabel(sample.cameraId)}</span>
+                <Badge style={{ backgroundColor: status.color }}>{status.label}</Badge>
+              </div>
+
+              {sample.quality && (
+                <div className="flex items-end gap-px h-8" title="Brightness histogram">
+                  {sample.quality.histogram.map((share, index) => (
+                    <div
+                      key={index}
+                      className="flex-1 bg-gray-400 rounded-sm"
+                      style={{ height: `${Math.min(100, share * 400)}%` }}
+                    />
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>Brightness {sample.quality ? Math.round(sample.quality.brightness) : '-'}</span>
+                <span>Sharpness {sample.quality ? Math.round(sample.quality.sharpness) : '-'}</span>
+              </div>
+
+              {sample.issues.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {sample.issues.map(issue => (
+                    <span key={issue} className="text-xs px-2 py-0.5 rounded border border-amber-300 text-amber-700">
+                      {ISSUE_LABELS[issue] ?? issue}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {events.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <p className="text-xs font-medium text-gray-600">Camera events</p>
+            {events.slice(0, EVENTS_SHOWN).map(event => (
+              <div key={`${event.cameraId}-${event.time}`} className="flex items-center justify-between text-xs">
+                <span className={event.type === 'cameraTamper' ? 'text-red-600' : 'text-amber-600'}>
+                  {event.type === 'cameraTamper' ? 'Tampering' : 'Fault'} · {cameraLabel(event.cameraId)}: {event.issues.map(issue => ISSUE_LABELS[issue] ?? issue).join(', ')}
+                </span>
+                <span className="text-gray-400">
+                  {event.endedAt ? `${Math.round(event.duration / 1000)}s` : 'ongoing'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
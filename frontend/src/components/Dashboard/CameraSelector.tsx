@@ -0,0 +1,69 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, AlertTriangle } from "lucide-react";
+import { CAMERA_PRESETS } from "@/config/camera";
+
+interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+interface CameraSelectorProps {
+  devices: CameraDevice[];
+  activeDevice: CameraDevice | null;
+  isFallback: boolean;
+  presetId: string;
+  supportedPresets: string[];
+  onSelectDevice: (deviceId: string) => void;
+  onSelectPreset: (presetId: string) => void;
+}
+
+/**
+ * Camera picker with resolution / frame-rate presets
+ */
+export const CameraSelector = ({
+  devices,
+  activeDevice,
+  isFallback,
+  presetId,
+  supportedPresets,
+  onSelectDevice,
+  onSelectPreset
+}: CameraSelectorProps) => {
+  return (
+    <div className="flex items-center gap-3">
+      <Camera className="w-4 h-4 text-muted-foreground" />
+      <Select
+        value={activeDevice?.deviceId}
+        onValueChange={onSelectDevice}
+        disabled={devices.length === 0}
+      >
+        <SelectTrigger className="w-64">
+          <SelectValue placeholder="No camera found" />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map(device => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>{device.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={presetId} onValueChange={onSelectPreset} disabled={!activeDevice}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {supportedPresets.map(id => (
+            <SelectItem key={id} value={id}>{CAMERA_PRESETS[id].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isFallback && (
+        <span className="flex items-center gap-1 text-xs text-yellow-700">
+          <AlertTriangle className="w-3 h-3" />
+          Saved camera not connected
+        </span>
+      )}
+    </div>
+  );
+};
@@ -7,9 +7,10 @@ import { useDetectionStorage } from '@/hooks/useDetectionStorage';
 interface ConcentrationGaugeProps {
   detectionCounts: Record<string, number>;
   totalDetections: number;
+  yawnCount: number; // Confirmed yawns, not frames of the detector's Yawn class
 }
 
-export const ConcentrationGauge = ({ detectionCounts, totalDetections }: ConcentrationGaugeProps) => {
+export const ConcentrationGauge = ({ detectionCounts, totalDetections, yawnCount }: ConcentrationGaugeProps) => {
   // Use real-time data from storage - same as pie chart
   const { 
     detectionData, 
@@ -39,11 +40,12 @@ export const ConcentrationGauge = ({ detectionCounts, totalDetections }: Concent
     const dangerousDriving = (realTimeCounts && realTimeCounts['DangerousDriving']) || 0;
     const distracted = (realTimeCounts && realTimeCounts['Distracted']) || 0;
     const drinking = (realTimeCounts && realTimeCounts['Drinking']) || 0;
-    const yawn = (realTimeCounts && realTimeCounts['Yawn']) || 0;
+    const yawn = yawnCount || 0;
     const sleepyDriving = (realTimeCounts && realTimeCounts['SleepyDriving']) || 0;
     
     // Calculate total using the formula with all real classes:
-    // NTotal = NSafe + NDangerous + NDistracted + NDrinking + NYawn + NSleepyDriving
+    // NTotal = NSafe + NDangerous + NDistracted + NDrinking + NYawn + NSleepyDriving,
+    // where NYawn counts confirmed yawns
     const calculatedTotal = safeDriving + dangerousDriving + distracted + drinking + yawn + sleepyDriving;
     
     // If calculated total is 0, return 100% concentration (no detections = perfect)
@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useCallback } from 'react';
+import { drawDetections as paintDetections } from '@/utils/drawDetections';
 
 interface Detection {
   id: string;
@@ -11,6 +12,11 @@ interface Detection {
     height: number;
   };
   timestamp: number;
+  // Present when the detection comes from a tracker track
+  age?: number;
+  visible?: boolean;
+  // Set while the camera's picture fails the health checks
+  lowReliability?: boolean;
 }
 
 interface DetectionOverlayProps {
@@ -51,56 +57,11 @@ export const DetectionOverlay: React.FC<DetectionOverlayProps> = ({
     canvas.width = videoRect.width;
     canvas.height = videoRect.height;
 
-    // Draw each detection
-    detections.forEach((detection) => {
-      const { bbox, class: className, confidence } = detection;
-      const classConfig = getClassConfig(className);
-      
-      // Calculate scaled coordinates
-      const scaleX = canvas.width / videoElement.videoWidth;
-      const scaleY = canvas.height / videoElement.videoHeight;
-      
-      const x = bbox.x * scaleX;
-      const y = bbox.y * scaleY;
-      const width = bbox.width * scaleX;
-      const height = bbox.height * scaleY;
-
-      // Draw bounding box
-      ctx.strokeStyle = classConfig.color;
-      ctx.lineWidth = 3;
-      ctx.strokeRect(x, y, width, height);
-
-      // Draw background for label
-      const labelText = `${classConfig.label} (${(confidence * 100).toFixed(1)}%)`;
-      const labelMetrics = ctx.measureText(labelText);
-      const labelHeight = 20;
-      const labelPadding = 8;
-      
-      ctx.fillStyle = classConfig.color;
-      ctx.fillRect(
-        x, 
-        y - labelHeight - labelPadding, 
-        labelMetrics.width + labelPadding * 2, 
-        labelHeight + labelPadding
-      );
-
-      // Draw label text
-      ctx.fillStyle = '#FFFFFF';
-      ctx.font = 'bold 14px Arial';
-      ctx.textAlign = 'left';
-      ctx.textBaseline = 'top';
-      ctx.fillText(labelText, x + labelPadding, y - labelHeight);
-
-      // Draw confidence bar
-      const barWidth = width;
-      const barHeight = 4;
-      const confidenceWidth = (confidence * barWidth);
-      
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-      ctx.fillRect(x, y + height, barWidth, barHeight);
-      
-      ctx.fillStyle = classConfig.color;
-      ctx.fillRect(x, y + height, confidenceWidth, barHeight);
+    // Draw each detection, scaled from video to canvas pixels
+    paintDetections(ctx, detections, {
+      getClassConfig,
+      scaleX: canvas.width / videoElement.videoWidth,
+      scaleY: canvas.height / videoElement.videoHeight
     });
   }, [detections, videoElement, getClassConfig, isActive]);
 
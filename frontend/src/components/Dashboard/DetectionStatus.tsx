@@ -1,5 +1,5 @@
 import React from 'react';
-import { AlertTriangle, Eye, Activity, Zap, Brain, CheckCircle } from 'lucide-react';
+import { AlertTriangle, Eye, Activity, Zap, Brain, CheckCircle, UserX } from 'lucide-react';
 
 interface Detection {
   id: string;
@@ -12,20 +12,43 @@ interface Detection {
     height: number;
   };
   timestamp: number;
+  lowReliability?: boolean;
+}
+
+export interface PresenceSample {
+  state: 'present' | 'partial' | 'absent' | 'multiple';
+  since: number;
+  duration: number;
+  level: 'warning' | 'critical' | null;
+  faces: number;
+  escalation?: { state: string; level: 'warning' | 'critical'; since: number; duration: number; alert: boolean } | null;
 }
 
 interface DetectionStatusProps {
   detections: Detection[];
   getClassConfig: (className: string) => { color: string; label: string };
+  presence?: PresenceSample | null;
 }
 
+const PRESENCE_LABELS: Record<string, string> = {
+  partial: 'Driver partially visible',
+  absent: 'No driver detected',
+  multiple: 'Multiple faces'
+};
+
+const PRESENCE_COLORS: Record<string, string> = {
+  warning: '#F59E0B',
+  critical: '#EF4444'
+};
+
 /**
  * Detection Status Component
  * Shows current detections as button-style indicators
  */
 export const DetectionStatus: React.FC<DetectionStatusProps> = ({
   detections,
-  getClassConfig
+  getClassConfig,
+  presence
 }) => {
   // Group detections by class
   const detectionGroups = detections.reduce((groups, detection) => {
@@ -40,8 +63,26 @@ export const DetectionStatus: React.FC<DetectionStatusProps> = ({
   // Get unique detection classes
   const uniqueClasses = Object.keys(detectionGroups);
 
+  // Without a confirmed driver nothing is safe, whatever the detector found
+  const presenceIssue = presence && presence.state !== 'present';
+  const presenceColor = PRESENCE_COLORS[presence?.level ?? ''] ?? '#6B7280';
+  const presenceIndicator = presenceIssue && (
+    <div
+      className="flex items-center gap-2 px-3 py-2 rounded-lg border"
+      style={{ backgroundColor: `${presenceColor}15`, borderColor: presenceColor, color: presenceColor }}
+    >
+      <UserX className="w-4 h-4" />
+      <span className="text-sm font-medium">
+        {PRESENCE_LABELS[presence.state]} ({Math.round(presence.duration / 1000)}s)
+      </span>
+    </div>
+  );
+
   // If no detections, show safe driving
   if (uniqueClasses.length === 0) {
+    if (presenceIssue) {
+      return <div className="flex items-center gap-2">{presenceIndicator}</div>;
+    }
     return (
       <div className="flex items-center gap-2">
         <div className="flex items-center gap-2 px-3 py-2 bg-green-50 border border-green-200 rounded-lg">
@@ -54,11 +95,13 @@ export const DetectionStatus: React.FC<DetectionStatusProps> = ({
 
   return (
     <div className="flex items-center gap-2 flex-wrap">
+      {presenceIndicator}
       {uniqueClasses.map((className) => {
         const classConfig = getClassConfig(className);
         const classDetections = detectionGroups[className];
         const avgConfidence = classDetections.reduce((sum, det) => sum + det.confidence, 0) / classDetections.length;
         const confidencePercent = Math.round(avgConfidence * 100);
+        const lowReliability = classDetections.some(det => det.lowReliability);
 
         return (
           <div
@@ -77,6 +120,9 @@ export const DetectionStatus: React.FC<DetectionStatusProps> = ({
             <span className="text-sm font-medium">
               {classConfig.label}
             </span>
+            {lowReliability && (
+              <span className="text-xs opacity-75" title="The camera picture fails the health checks">low reliability</span>
+            )}
           </div>
         );
       })}
@@ -0,0 +1,37 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Armchair } from "lucide-react";
+import { driverSelector } from "@/services/driverSelector";
+import { getVehicleSettings, saveVehicleSettings } from "@/utils/vehicleSettings";
+
+interface DriverSeatSelectorProps {
+  vehicleId: string;
+}
+
+/**
+ * Driver seat side of the vehicle, used to tell the driver from a passenger
+ */
+export const DriverSeatSelector = ({ vehicleId }: DriverSeatSelectorProps) => {
+  const [seat, setSeat] = useState<string>(() => getVehicleSettings(vehicleId).driverSeat);
+
+  const selectSeat = (value: string) => {
+    setSeat(value);
+    saveVehicleSettings(vehicleId, { driverSeat: value });
+    driverSelector.setSeat(value);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <Armchair className="w-4 h-4 text-muted-foreground" />
+      <Select value={seat} onValueChange={selectSeat}>
+        <SelectTrigger className="w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="left">Left-hand drive</SelectItem>
+          <SelectItem value="right">Right-hand drive</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Film, Play, Send, Trash2 } from "lucide-react";
+import { useEventClips } from "@/hooks/useEventClips";
+import { formatVideoTime } from "@/utils/timeFormat";
+
+interface EventClipsProps {
+  getClassConfig: (className: string) => { color: string; label: string };
+}
+
+interface StoredClip {
+  id: string;
+  cameraLabel: string;
+  event: { class: string; timestamp: number; sessionTime: number };
+  duration: number;
+  mimeType: string;
+  size: number;
+  overlay: boolean;
+}
+
+/**
+ * Clips recorded around confirmed behaviour events, for review and sharing
+ */
+export const EventClips = ({ getClassConfig }: EventClipsProps) => {
+  const { clips, isLoading, sendingId, openClip, removeClip, sendClip } = useEventClips();
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+
+  // Release the previous clip's video when another one is opened
+  useEffect(() => {
+    return () => {
+      if (playing) URL.revokeObjectURL(playing.url);
+    };
+  }, [playing]);
+
+  const handlePlay = async (id: string) => {
+    const url = await openClip(id);
+    if (url) setPlaying({ id, url });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (playing?.id === id) setPlaying(null);
+    await removeClip(id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Film className="w-5 h-5 text-primary" />
+          Event Clips
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {playing && (
+          <video key={playing.id} src={playing.url} controls autoPlay className="w-full rounded-lg bg-black" />
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading clips...</p>
+        ) : clips.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No clips recorded yet.</p>
+        ) : (
+          <ScrollArea className="h-64 pr-4">
+            <ul className="space-y-2">
+              {(clips as StoredClip[]).map(clip => {
+                const classConfig = getClassConfig(clip.event.class);
+                return (
+                  <li key={clip.id} className="flex items-center gap-3 text-sm">
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: classConfig.color }} />
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{classConfig.label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(clip.event.timestamp).toLocaleTimeString()} · {formatVideoTime(clip.event.sessionTime)} · {clip.cameraLabel} · {(clip.duration / 1000).toFixed(0)}s · {(clip.size / 1024 / 1024).toFixed(1)} MB
+                      </div>
+                    </div>
+                    {clip.overlay && <Badge variant="outline">Overlay</Badge>}
+                    <Button size="icon" variant="ghost" onClick={() => handlePlay(clip.id)} title="Play">
+                      <Play className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => sendClip(clip.id)}
+                      disabled={sendingId === clip.id}
+                      title="Send to Telegram"
+                    >
+                      <Send className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => handleDelete(clip.id)} title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
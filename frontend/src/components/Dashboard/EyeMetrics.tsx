@@ -1,38 +1,54 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area } from 'recharts';
-import { Eye, Activity } from 'lucide-react';
-import { useEyeMetrics } from '@/hooks/useEyeMetrics';
-import { useInference } from '@/hooks/useInference';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area, ReferenceLine } from 'recharts';
+import { Eye, Activity, RotateCcw, Moon } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { DEFAULT_EYE_PROFILE, getEyeThresholds } from '@/utils/eyeMetrics';
+import { getDrowsinessConfig } from '@/config/drowsiness';
 
-export const EyeMetrics = ({ isActive, videoElement }) => {
+const PERCLOS_ALERTS = getDrowsinessConfig().alerts;
+const YAWN_LEVELS = getDrowsinessConfig().yawns;
+const PERCLOS_POINT_MS = 1000; // One PERCLOS chart point per second
+const PERCLOS_POINTS = 180;
+
+// metrics: the dashboard's useEyeMetrics() instance, shared with the alerts
+export const EyeMetrics = ({ isActive, videoElement, metrics }) => {
   const {
     ear,
     blinkCount,
     blinkFrequency,
+    perclos,
+    perclosWindowMs,
+    closureCounts,
+    lastClosure,
+    yawnCount,
+    yawnRate,
+    presence,
+    drowsinessLevel,
     isInitialized,
+    isSimulating,
+    eyeProfile,
+    calibrationProgress,
     error,
     processFrame,
     startMetrics,
-    stopMetrics
-  } = useEyeMetrics();
+    stopMetrics,
+    recalibrate
+  } = metrics;
 
-  // Inference hook for detection data
-  const {
-    detections,
-    detectionCounts,
-    isInitialized: inferenceInitialized,
-    getClassConfig
-  } = useInference();
+  const { closedEar } = getEyeThresholds(eyeProfile ?? DEFAULT_EYE_PROFILE);
 
 
   // Data arrays for charts
   const [earData, setEarData] = useState([]);
   const [frequencyData, setFrequencyData] = useState([]);
+  const [perclosData, setPerclosData] = useState([]);
+  const lastPerclosPointRef = useRef(0);
 
   // Update data arrays when metrics change
   useEffect(() => {
-    if (!isActive) return;
+    if (!isActive && !isSimulating) return;
 
     const now = new Date();
     const timeString = now.toLocaleTimeString();
@@ -48,19 +64,34 @@ export const EyeMetrics = ({ isActive, videoElement }) => {
       const newData = [...prev, { time: timeString, frequency: blinkFrequency }];
       return newData.slice(-30);
     });
-  }, [ear, blinkFrequency, isActive]);
+  }, [ear, blinkFrequency, isActive, isSimulating]);
+
+  // PERCLOS moves slowly, so it is charted once per second
+  useEffect(() => {
+    if (perclos === null) return;
 
+    const now = Date.now();
+    if (now - lastPerclosPointRef.current < PERCLOS_POINT_MS) return;
+    lastPerclosPointRef.current = now;
 
-  // Start/stop metrics based on camera state
+    setPerclosData(prev => [
+      ...prev,
+      { time: new Date(now).toLocaleTimeString(), perclos: perclos * 100 }
+    ].slice(-PERCLOS_POINTS));
+  }, [perclos]);
+
+
+  // Start/stop metrics based on camera state; a running scenario feeds the
+  // metrics itself and needs no Face Mesh
   useEffect(() => {
     if (isActive && videoElement && isInitialized) {
       startMetrics(videoElement);
-    } else {
+    } else if (!isSimulating) {
       stopMetrics();
     }
-  }, [isActive, videoElement, isInitialized, startMetrics, stopMetrics]);
+  }, [isActive, videoElement, isInitialized, isSimulating, startMetrics, stopMetrics]);
 
-  if (error) {
+  if (error && !isSimulating) {
     return (
       <div className="space-y-6">
         <div className="bg-red-50 border border-red-200 rounded-lg p-6">
@@ -74,7 +105,7 @@ export const EyeMetrics = ({ isActive, videoElement }) => {
     );
   }
 
-  if (!isInitialized) {
+  if (!isInitialized && !isSimulating) {
     return (
       <div className="space-y-6">
         <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
@@ -99,9 +130,28 @@ export const EyeMetrics = ({ isActive, videoElement }) => {
             <CardTitle className="flex items-center gap-2">
               <Eye className="w-5 h-5 text-primary" />
               Eye Aspect Ratio (EAR)
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={recalibrate}
+                disabled={calibrationProgress !== null}
+                title="Learn the driver's open-eye baseline again"
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Recalibrate
+              </Button>
             </CardTitle>
           </CardHeader>
           <CardContent>
+            {calibrationProgress !== null && (isActive || isSimulating) && (
+              <div className="mb-4 space-y-1">
+                <Progress value={calibrationProgress * 100} className="h-1.5" />
+                <p className="text-xs text-muted-foreground">
+                  Calibrating eye baseline... keep looking at the road ({Math.round(calibrationProgress * 100)}%)
+                </p>
+              </div>
+            )}
             <div className="h-96">
               <ResponsiveContainer width="100%" height="100%">
                 <AreaChart data={earData}>
@@ -141,10 +191,14 @@ export const EyeMetrics = ({ isActive, videoElement }) => {
             <div className="mt-4 flex items-center justify-between text-sm">
               <div className="flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-                <span className="text-muted-foreground">Current EAR: {ear.toFixed(3)}</span>
+                {presence?.state === 'absent' ? (
+                  <span className="font-medium text-red-600">No face</span>
+                ) : (
+                  <span className="text-muted-foreground">Current EAR: {ear.toFixed(3)}</span>
+                )}
               </div>
               <div className="text-muted-foreground">
-                <span className="font-medium">Normal:</span> 0.25-0.35 | <span className="font-medium">Alert:</span> &lt;0.20
+                <span className="font-medium">Baseline:</span> {eyeProfile ? eyeProfile.baselineEar.toFixed(3) : 'not calibrated'} | <span className="font-medium">Closed:</span> &lt;{closedEar.toFixed(2)}
               </div>
             </div>
           </CardContent>
@@ -204,6 +258,91 @@ export const EyeMetrics = ({ isActive, videoElement }) => {
                 <span className="font-medium">Normal:</span> 15-20/min | <span className="font-medium">Fatigue:</span> &gt;25/min
               </div>
             </div>
+            <div className="mt-2 flex items-center justify-between text-sm">
+              <div className="text-muted-foreground">
+                <span className="font-medium">Long blinks:</span> {closureCounts.longBlink} | <span className="font-medium">Microsleeps:</span>{' '}
+                <span className={closureCounts.microsleep > 0 ? 'font-semibold text-red-600' : undefined}>{closureCounts.microsleep}</span>
+              </div>
+              {lastClosure && (
+                <div className="text-muted-foreground">
+                  <span className="font-medium">Last:</span> {lastClosure.type === 'microsleep' ? 'microsleep' : 'long blink'} of {(lastClosure.duration / 1000).toFixed(1)}s (min EAR {lastClosure.minEar.toFixed(3)})
+                </div>
+              )}
+            </div>
+            <div className="mt-2 flex items-center justify-between text-sm">
+              <div className="text-muted-foreground">
+                <span className="font-medium">Yawns:</span> {yawnCount} | <span className="font-medium">Last 10 min:</span>{' '}
+                <span className={yawnRate >= YAWN_LEVELS.mild ? 'font-semibold text-amber-600' : undefined}>{yawnRate}</span>
+              </div>
+              <div className="text-muted-foreground">
+                <span className="font-medium">Drowsiness:</span> {drowsinessLevel}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* PERCLOS */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Moon className="w-5 h-5 text-indigo-500" />
+              PERCLOS
+            </CardTitle>
+            <CardDescription>
+              Share of the last {Math.round(perclosWindowMs / 1000)}s with the eyes more than 80% closed
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={perclosData}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis 
+                    dataKey="time" 
+                    tick={{ fontSize: 10 }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    interval="preserveStartEnd"
+                  />
+                  <YAxis 
+                    tick={{ fontSize: 10 }}
+                    tickLine={{ stroke: '#e5e7eb' }}
+                    domain={[0, (dataMax) => Math.max(40, Math.ceil(dataMax / 10) * 10)]}
+                    unit="%"
+                  />
+                  <Tooltip 
+                    contentStyle={{ 
+                      backgroundColor: 'white', 
+                      border: '1px solid #e5e7eb',
+                      borderRadius: '8px',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+                    }}
+                    formatter={(value) => [`${Number(value).toFixed(1)}%`, 'PERCLOS']}
+                    labelFormatter={(label) => `Time: ${label}`}
+                  />
+                  <ReferenceLine y={PERCLOS_ALERTS.warning.perclos * 100} stroke="#f59e0b" strokeDasharray="4 4" />
+                  <ReferenceLine y={PERCLOS_ALERTS.critical.perclos * 100} stroke="#dc2626" strokeDasharray="4 4" />
+                  <Area 
+                    type="monotone" 
+                    dataKey="perclos" 
+                    stroke="#6366f1" 
+                    fill="#6366f1" 
+                    fillOpacity={0.2}
+                    strokeWidth={2}
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="mt-4 flex items-center justify-between text-sm">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-indigo-500"></div>
+                <span className="text-muted-foreground">
+                  Current PERCLOS: {perclos !== null ? `${(perclos * 100).toFixed(1)}%` : 'collecting...'}
+                </span>
+              </div>
+              <div className="text-muted-foreground">
+                <span className="font-medium">Warning:</span> {PERCLOS_ALERTS.warning.perclos * 100}% | <span className="font-medium">Critical:</span> {PERCLOS_ALERTS.critical.perclos * 100}%
+              </div>
+            </div>
           </CardContent>
         </Card>
 
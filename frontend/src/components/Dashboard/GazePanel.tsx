@@ -0,0 +1,114 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScanEye } from 'lucide-react';
+import { getGazeConfig } from '@/config/gaze';
+
+export interface GlanceEvent {
+  type: 'eyesOffRoad';
+  time: number;
+  duration: number;
+  zone: string;
+}
+
+export interface GazeSample {
+  gaze: { yaw: number; pitch: number };
+  zone: string;
+  offRoadMinuteMs: number;
+  offRoadTripMs: number;
+  trackedTripMs: number;
+  glanceMs: number;
+  onset: GlanceEvent | null;
+  event: GlanceEvent | null;
+}
+
+interface GazePanelProps {
+  gaze: GazeSample | null;
+  longGlances: GlanceEvent[];
+}
+
+const GAZE = getGazeConfig();
+const ZONE_LABELS: Record<string, string> = Object.fromEntries(GAZE.zones.map(zone => [zone.id, zone.label]));
+const GLANCES_SHOWN = 5;
+
+const zoneLabel = (zone: string) => ZONE_LABELS[zone] ?? 'Off road';
+
+/**
+ * Live gaze zone and eyes-off-road time of the driver
+ */
+export const GazePanel = ({ gaze, longGlances }: GazePanelProps) => {
+  const onRoad = gaze?.zone === 'road';
+  const minuteShare = gaze ? gaze.offRoadMinuteMs / GAZE.minuteMs : 0;
+  const tripShare = gaze && gaze.trackedTripMs > 0 ? gaze.offRoadTripMs / gaze.trackedTripMs : 0;
+
+  return (
+    <Card className="bg-white border border-gray-200 rounded-xl shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-lg font-semibold text-gray-800">
+          <div className="flex items-center gap-2">
+            <ScanEye className="w-5 h-5 text-blue-600" />
+            Gaze
+          </div>
+          {gaze && (
+            <Badge style={{ backgroundColor: onRoad ? '#10B981' : '#F59E0B' }}>
+              {zoneLabel(gaze.zone)}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!gaze && (
+          <p className="text-sm text-muted-foreground text-center">Waiting for the iris landmarks and the neutral head pose...</p>
+        )}
+
+        {gaze && (
+          <>
+            <div className="flex flex-wrap gap-1">
+              {GAZE.zones.map(zone => (
+                <span
+                  key={zone.id}
+                  className={`text-xs px-2 py-0.5 rounded border ${gaze.zone === zone.id ? 'bg-blue-600 text-white border-blue-600' : 'text-gray-500 border-gray-200'}`}
+                >
+                  {zone.label}
+                </span>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-gray-500">
+                <span>Eyes off road, last minute</span>
+                <span>{(gaze.offRoadMinuteMs / 1000).toFixed(1)}s</span>
+              </div>
+              <Progress value={Math.min(100, minuteShare * 100)} className="h-1.5" />
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>Eyes off road, this trip</span>
+              <span>{Math.round(gaze.offRoadTripMs / 1000)}s ({Math.round(tripShare * 100)}%)</span>
+            </div>
+
+            {gaze.glanceMs >= GAZE.longGlanceMs && (
+              <p className="text-xs font-semibold text-amber-600">
+                Eyes off road for {(gaze.glanceMs / 1000).toFixed(1)}s
+              </p>
+            )}
+          </>
+        )}
+
+        {longGlances.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            <p className="text-xs font-medium text-gray-600">Glances over {Math.round(GAZE.longGlanceMs / 1000)}s</p>
+            {longGlances.slice(0, GLANCES_SHOWN).map(glance => (
+              <div key={glance.time} className="flex items-center justify-between text-xs">
+                <span className="text-gray-700">{zoneLabel(glance.zone)}</span>
+                <span className="text-gray-400">{(glance.duration / 1000).toFixed(1)}s</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,157 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Compass } from 'lucide-react';
+import { getHeadPoseConfig } from '@/config/headPose';
+
+export interface HeadPoseEvent {
+  type: 'lookingAway' | 'lookingDown' | 'nod';
+  time: number;
+  duration: number;
+  peak: number;
+  direction?: 'left' | 'right';
+}
+
+export interface HeadPoseSample {
+  pose: { yaw: number; pitch: number; roll: number } | null;
+  neutralProgress: number | null;
+  state: 'road' | 'lookingAway' | 'lookingDown';
+  onset: HeadPoseEvent | null;
+  event: HeadPoseEvent | null;
+  nods: number;
+}
+
+interface HeadPoseGaugeProps {
+  headPose: HeadPoseSample | null;
+  events: HeadPoseEvent[];
+}
+
+const HEAD_POSE = getHeadPoseConfig();
+const YAW_RANGE = 90; // Degrees shown each side of the yaw dial
+const PITCH_RANGE = 45; // Degrees shown above and below the pitch bar
+const EVENTS_SHOWN = 5;
+
+const STATES = {
+  road: { label: 'Eyes on road', color: '#10B981' },
+  lookingAway: { label: 'Looking away', color: '#F59E0B' },
+  lookingDown: { label: 'Looking down', color: '#F59E0B' }
+};
+
+// Point on the yaw dial; 0° points up, positive yaw (driver's left) to the left
+const dialPoint = (yaw: number, radius: number) => {
+  const angle = (-yaw * Math.PI) / 180;
+  return { x: 50 + radius * Math.sin(angle), y: 50 - radius * Math.cos(angle) };
+};
+
+const describeEvent = (event: HeadPoseEvent) => {
+  const seconds = (event.duration / 1000).toFixed(1);
+  switch (event.type) {
+    case 'lookingAway':
+      return `Looked ${event.direction} for ${seconds}s`;
+    case 'lookingDown':
+      return `Looked down for ${seconds}s`;
+    default:
+      return `Head nod (${Math.round(event.peak)}°)`;
+  }
+};
+
+/**
+ * Live head pose: yaw dial, pitch bar, roll, and the latest head events
+ */
+export const HeadPoseGauge = ({ headPose, events }: HeadPoseGaugeProps) => {
+  const pose = headPose?.pose ?? null;
+  const state = STATES[headPose?.state ?? 'road'];
+  const nodding = (headPose?.nods ?? 0) >= HEAD_POSE.nod.count;
+
+  const yaw = pose ? Math.max(-YAW_RANGE, Math.min(YAW_RANGE, pose.yaw)) : 0;
+  const pitch = pose ? Math.max(-PITCH_RANGE, Math.min(PITCH_RANGE, pose.pitch)) : 0;
+  const needle = dialPoint(yaw, 38);
+  const limitLeft = dialPoint(HEAD_POSE.lookingAway.yaw, 42);
+  const limitRight = dialPoint(-HEAD_POSE.lookingAway.yaw, 42);
+
+  return (
+    <Card className="bg-white border border-gray-200 rounded-xl shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-lg font-semibold text-gray-800">
+          <div className="flex items-center gap-2">
+            <Compass className="w-5 h-5 text-blue-600" />
+            Head Pose
+          </div>
+          {pose && (
+            <Badge style={{ backgroundColor: nodding ? '#EF4444' : state.color }}>
+              {nodding ? 'Nodding off' : state.label}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {headPose?.neutralProgress !== null && headPose?.neutralProgress !== undefined && (
+          <div className="space-y-1">
+            <Progress value={headPose.neutralProgress * 100} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">Learning the neutral head pose... look at the road</p>
+          </div>
+        )}
+
+        {!headPose && (
+          <p className="text-sm text-muted-foreground text-center">No face tracked</p>
+        )}
+
+        {pose && (
+          <div className="flex items-center justify-center gap-6">
+            {/* Yaw dial, seen from above */}
+            <svg className="w-32 h-32" viewBox="0 0 100 100">
+              <circle cx="50" cy="50" r="42" fill="none" stroke="#e5e7eb" strokeWidth="3" />
+              <path
+                d={`M 50 50 L ${limitRight.x} ${limitRight.y} A 42 42 0 0 0 ${limitLeft.x} ${limitLeft.y} Z`}
+                fill="#10B981"
+                fillOpacity={0.12}
+              />
+              <line x1="50" y1="50" x2={needle.x} y2={needle.y} stroke={state.color} strokeWidth="3" strokeLinecap="round" />
+              <circle cx="50" cy="50" r="10" fill="white" stroke="#9ca3af" strokeWidth="2" />
+              <text x="50" y="96" textAnchor="middle" fontSize="9" fill="#6b7280">
+                Yaw {pose.yaw.toFixed(0)}°
+              </text>
+            </svg>
+
+            {/* Pitch bar, down is positive */}
+            <div className="flex flex-col items-center gap-1">
+              <div className="relative w-3 h-28 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="absolute left-0 right-0 bg-red-200"
+                  style={{ top: `${50 + (HEAD_POSE.lookingDown.pitch / PITCH_RANGE) * 50}%`, bottom: 0 }}
+                />
+                <div
+                  className="absolute left-0 right-0 h-1.5 rounded-full"
+                  style={{ top: `calc(${50 + (pitch / PITCH_RANGE) * 50}% - 3px)`, backgroundColor: state.color }}
+                />
+              </div>
+              <span className="text-xs text-gray-500">Pitch {pose.pitch.toFixed(0)}°</span>
+            </div>
+          </div>
+        )}
+
+        {pose && (
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>Roll {pose.roll.toFixed(0)}°</span>
+            <span>
+              Nods ({Math.round(HEAD_POSE.nod.windowMs / 1000)}s): {headPose.nods}
+            </span>
+          </div>
+        )}
+
+        {events.length > 0 && (
+          <div className="space-y-1 border-t pt-3">
+            {events.slice(0, EVENTS_SHOWN).map(event => (
+              <div key={`${event.type}-${event.time}`} className="flex items-center justify-between text-xs">
+                <span className="text-gray-700">{describeEvent(event)}</span>
+                <span className="text-gray-400">{Math.abs(event.peak).toFixed(0)}°</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
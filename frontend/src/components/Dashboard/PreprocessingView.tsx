@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { MoonStar } from 'lucide-react';
+import { framePreprocessor } from '@/services/framePreprocessor';
+import { getPreprocessingConfig } from '@/config/preprocessing';
+
+interface PreprocessingState {
+  cameraId: string;
+  active: boolean;
+  lowLight: boolean;
+  ir: boolean;
+  brightness: number | null;
+  gamma: number | null;
+}
+
+interface PreprocessingViewProps {
+  cameraId?: string;
+}
+
+const PREPROCESSING = getPreprocessingConfig();
+
+const describeState = (state: PreprocessingState) => {
+  if (!state.active) return 'Raw frames';
+  if (state.ir) return 'Enhancing IR frames';
+  if (state.lowLight) return 'Enhancing (low light)';
+  return 'Enhancing';
+};
+
+/**
+ * Low-light / IR preprocessing state of a camera, with a debug view of the
+ * frames the models actually see
+ */
+export const PreprocessingView = ({ cameraId = 'driver' }: PreprocessingViewProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [state, setState] = useState<PreprocessingState | null>(null);
+  const [showFrame, setShowFrame] = useState(false);
+
+  useEffect(() => {
+    return framePreprocessor.subscribe(frame => {
+      if (frame.cameraId !== cameraId) return;
+      setState(frame.state);
+
+      // The bitmap is closed after this call, so it is drawn right away
+      const canvas = canvasRef.current;
+      if (!showFrame || !canvas) return;
+      canvas.width = frame.bitmap.width;
+      canvas.height = frame.bitmap.height;
+      canvas.getContext('2d')?.drawImage(frame.bitmap, 0, 0);
+    });
+  }, [cameraId, showFrame]);
+
+  return (
+    <Card className="bg-white border border-gray-200 rounded-xl shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-lg font-semibold text-gray-800">
+          <div className="flex items-center gap-2">
+            <MoonStar className="w-5 h-5 text-blue-600" />
+            Low-light Preprocessing
+          </div>
+          <Badge variant={state?.active ? 'default' : 'secondary'}>
+            {PREPROCESSING.mode === 'auto' ? 'Auto' : PREPROCESSING.mode === 'on' ? 'Always on' : 'Off'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {!state && (
+          <p className="text-sm text-muted-foreground text-center">Waiting for camera frames...</p>
+        )}
+
+        {state && (
+          <div className="flex items-center justify-between text-sm">
+            <span className={state.active ? 'font-medium text-blue-700' : 'text-gray-600'}>{describeState(state)}</span>
+            <span className="text-xs text-gray-500">
+              Brightness {state.brightness !== null ? Math.round(state.brightness) : '-'}
+              {state.active && state.gamma !== null && ` · gamma ${state.gamma.toFixed(2)}`}
+            </span>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox checked={showFrame} onCheckedChange={(checked) => setShowFrame(checked === true)} />
+          Show the frames the models see
+        </label>
+
+        {showFrame && (
+          <canvas ref={canvasRef} className="w-full rounded-lg bg-black" />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Circle, Square, Disc } from "lucide-react";
+import { useSessionRecording } from "@/hooks/useSessionRecording";
+import { useInference } from "@/hooks/useInference";
+import { formatVideoTime } from "@/utils/timeFormat";
+
+/**
+ * Record the raw analyzer output of the live session for later replay
+ */
+export const SessionRecording = () => {
+  const { backendLabel } = useInference();
+  const { isRecording, duration, frames, truncated, lastRecording, startRecording, stopRecording } = useSessionRecording();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Disc className="w-5 h-5 text-primary" />
+          Session Recording
+          {isRecording && <Badge variant="destructive" className="ml-auto">REC</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Saves detector and Face Mesh output (no video) to replay on the Video analysis page.
+        </p>
+
+        {isRecording ? (
+          <>
+            <p className="text-sm font-mono">
+              {formatVideoTime(duration)} • {frames} frames{truncated ? ' • maximum length reached' : ''}
+            </p>
+            <Button variant="destructive" onClick={stopRecording} className="w-full">
+              <Square className="w-4 h-4 mr-2" />
+              Stop and Download
+            </Button>
+          </>
+        ) : (
+          <>
+            {lastRecording && (
+              <p className="text-xs text-muted-foreground">
+                Last recording: {formatVideoTime(lastRecording.duration)}, {lastRecording.frames} frames
+              </p>
+            )}
+            <Button onClick={() => startRecording(backendLabel)} className="w-full">
+              <Circle className="w-4 h-4 mr-2" />
+              Start Recording
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
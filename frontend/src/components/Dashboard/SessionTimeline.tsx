@@ -0,0 +1,58 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Clock } from "lucide-react";
+import { CAMERA_ROLES } from "@/config/camera";
+import { formatVideoTime } from "@/utils/timeFormat";
+
+interface SessionEvent {
+  type: 'started' | 'ended';
+  class: string;
+  cameraId: string;
+  sessionTime: number;
+  duration?: number;
+}
+
+interface SessionTimelineProps {
+  events: SessionEvent[];
+  getClassConfig: (className: string) => { color: string; label: string };
+}
+
+/**
+ * Behaviour events of every camera on the shared session clock, newest first
+ */
+export const SessionTimeline = ({ events, getClassConfig }: SessionTimelineProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="w-5 h-5 text-primary" />
+          Session Timeline
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No behaviour events yet.</p>
+        ) : (
+          <ScrollArea className="h-64 pr-4">
+            <ol className="space-y-2">
+              {[...events].reverse().map((event, index) => {
+                const classConfig = getClassConfig(event.class);
+                return (
+                  <li key={`${event.cameraId}-${event.sessionTime}-${index}`} className="flex items-center gap-3 text-sm">
+                    <span className="font-mono text-muted-foreground w-16 shrink-0">{formatVideoTime(event.sessionTime)}</span>
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: classConfig.color }} />
+                    <span className="flex-1">
+                      {classConfig.label} {event.type}
+                      {event.type === 'ended' && event.duration ? ` (${(event.duration / 1000).toFixed(1)}s)` : ''}
+                    </span>
+                    <span className="text-xs text-muted-foreground">{CAMERA_ROLES[event.cameraId]?.label ?? event.cameraId}</span>
+                  </li>
+                );
+              })}
+            </ol>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,4 +1,11 @@
-import { Shield } from "lucide-react";
+import { NavLink } from "react-router-dom";
+import { Shield, LayoutDashboard, FileVideo, FlaskConical } from "lucide-react";
+
+const NAV_ITEMS = [
+  { to: "/", label: "Live monitoring", icon: LayoutDashboard },
+  { to: "/analysis", label: "Video analysis", icon: FileVideo },
+  { to: "/simulator", label: "Scenario simulator", icon: FlaskConical }
+];
 
 export const Sidebar = () => {
   return (
@@ -6,6 +13,22 @@ export const Sidebar = () => {
       <div className="w-10 h-10 rounded-lg bg-primary flex items-center justify-center">
         <Shield className="w-6 h-6 text-white" />
       </div>
+
+      <nav className="mt-8 flex flex-col items-center gap-3">
+        {NAV_ITEMS.map(({ to, label, icon: Icon }) => (
+          <NavLink
+            key={to}
+            to={to}
+            end
+            title={label}
+            className={({ isActive }) =>
+              `w-10 h-10 rounded-lg flex items-center justify-center ${isActive ? "bg-muted text-primary" : "text-muted-foreground hover:bg-muted/50"}`
+            }
+          >
+            <Icon className="w-5 h-5" />
+          </NavLink>
+        ))}
+      </nav>
     </aside>
   );
 };
@@ -0,0 +1,30 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { FlaskConical, Square } from "lucide-react";
+import { useScenarioPlayer } from "@/hooks/useScenarioPlayer";
+import { formatVideoTime } from "@/utils/timeFormat";
+
+/**
+ * Shown while a simulator scenario drives the dashboard, so simulated data
+ * is never mistaken for a live driver
+ */
+export const SimulationBanner = () => {
+  const { status, stopScenario } = useScenarioPlayer();
+  if (!status.isRunning) return null;
+
+  return (
+    <div className="flex items-center gap-4 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3">
+      <FlaskConical className="w-5 h-5 text-amber-600 shrink-0" />
+      <div className="flex-1 space-y-1">
+        <p className="text-sm font-medium text-amber-800">
+          Simulation: {status.name} • {formatVideoTime(status.time)} / {formatVideoTime(status.duration)} • {status.speed}x
+        </p>
+        <Progress value={(status.time / status.duration) * 100} className="h-1.5" />
+      </div>
+      <Button variant="outline" size="sm" onClick={stopScenario}>
+        <Square className="w-4 h-4 mr-2" />
+        Stop
+      </Button>
+    </div>
+  );
+};
@@ -16,26 +16,34 @@ import { useTelegramAlerts } from '@/hooks/useTelegramAlerts';
 import { telegramService } from '@/services/telegramService';
 import { getDetectionData } from '@/utils/detectionStorage';
 import { useDetectionStorage } from '@/hooks/useDetectionStorage';
+import type { HeadPoseSample } from '@/components/Dashboard/HeadPoseGauge';
+import type { PresenceSample } from '@/components/Dashboard/DetectionStatus';
+import type { CameraHealthEvent } from '@/components/Dashboard/CameraHealthPanel';
 
 interface TelegramAlertsProps {
   detectionData: any[];
   detectionCounts: any;
   concentration: number;
   videoElement: HTMLVideoElement | null;
+  detectionsByCamera?: Record<string, unknown[]>;
+  perclos?: number | null;
+  microsleep?: { time: number; duration: number; minEar: number } | null;
+  headPose?: HeadPoseSample | null;
+  presence?: PresenceSample | null;
+  cameraEvent?: CameraHealthEvent | null;
 }
 
-export const TelegramAlerts = ({ detectionData, detectionCounts, concentration, videoElement }: TelegramAlertsProps) => {
+export const TelegramAlerts = ({ detectionData, detectionCounts, concentration, videoElement, detectionsByCamera, perclos = null, microsleep = null, headPose = null, presence = null, cameraEvent = null }: TelegramAlertsProps) => {
   // Get real-time detection data from storage - same as other components
   const { 
-    detectionData: storageData, 
     totalDetections: storageTotal, 
     detectionCounts: storageCounts, 
     refreshData 
   } = useDetectionStorage();
   
-  // Use storage data if available, fallback to props - same logic as other components
+  // Use storage counts if available, fallback to props - same logic as other components
+  // Alerts always work on the live tracked detections
   const realTimeCounts = (storageCounts && Object.keys(storageCounts).length > 0) ? storageCounts : detectionCounts;
-  const realTimeData = storageData || detectionData;
 
 
   const {
@@ -44,7 +52,7 @@ export const TelegramAlerts = ({ detectionData, detectionCounts, concentration,
     lastAlertTimes,
     toggleAlerts,
     isConnected
-  } = useTelegramAlerts(realTimeData, realTimeCounts, concentration, videoElement);
+  } = useTelegramAlerts(detectionData, realTimeCounts, concentration, videoElement, detectionsByCamera, { perclos, microsleep, headPose, presence }, cameraEvent);
 
   const getStatusColor = () => {
     if (!isEnabled) return 'gray';
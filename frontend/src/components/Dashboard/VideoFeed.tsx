@@ -1,10 +1,19 @@
-import { Video, Play, Brain } from "lucide-react";
+import { Video, Play, Brain, X } from "lucide-react";
 import { motion } from "framer-motion";
 import { CameraControls } from "./CameraControls";
 import { useRef, useEffect, useState } from "react";
 import { useInference } from "@/hooks/useInference";
+import { cameraRegistry } from "@/services/cameraRegistry";
 import { DetectionOverlay } from "./DetectionOverlay";
 import { DetectionStatus } from "./DetectionStatus";
+import type { PresenceSample } from "./DetectionStatus";
+import { CameraSelector } from "./CameraSelector";
+import { DriverSeatSelector } from "./DriverSeatSelector";
+import { useCameraDevices } from "@/hooks/useCameraDevices";
+import { getVehicleConfig } from "@/config/vehicle";
+import { CAMERA_ROLES } from "@/config/camera";
+
+const VEHICLE = getVehicleConfig();
 
 interface VideoFeedProps {
   isActive: boolean;
@@ -12,86 +21,129 @@ interface VideoFeedProps {
   onStopCamera?: () => void;
   isConnected?: boolean;
   onVideoElement?: (videoElement: HTMLVideoElement | null) => void;
+  cameraId?: string;
+  onRemove?: () => void;
+  presence?: PresenceSample | null;
 }
 
-export const VideoFeed = ({ isActive, onStartCamera, onStopCamera, isConnected, onVideoElement }: VideoFeedProps) => {
+export const VideoFeed = ({
+  isActive,
+  onStartCamera,
+  onStopCamera,
+  isConnected,
+  onVideoElement,
+  cameraId = 'driver',
+  onRemove,
+  presence
+}: VideoFeedProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   
-  // Initialize Inference.js hook
+  // Shared inference engine (model is initialized by InferenceProvider)
   const {
     isInitialized,
     isLoading,
     error,
-    detections,
-    detectionCounts,
+    detections: primaryDetections,
+    detectionsByCamera,
     fps,
-    initializeModel,
+    backendLabel,
     startInference,
     stopInference,
-    getDetectionStats,
-    getClassConfig,
-    getPerformanceStats
+    getClassConfig
   } = useInference();
 
-  // Initialize model on component mount
-  useEffect(() => {
-    if (!isInitialized && !isLoading) {
-      initializeModel();
-    }
-  }, [isInitialized, isLoading, initializeModel]);
+  const role = CAMERA_ROLES[cameraId];
+  const detections = role.primary ? primaryDetections : (detectionsByCamera[cameraId] || []);
 
-  // Pass video element to parent
-  useEffect(() => {
-    if (onVideoElement) {
-      onVideoElement(videoRef.current);
-    }
-  }, [onVideoElement]);
+  // Camera choice and presets are remembered per vehicle and camera role
+  const {
+    devices,
+    activeDevice,
+    isFallback,
+    presetId,
+    supportedPresets,
+    videoConstraints,
+    selectDevice,
+    selectPreset,
+    refreshDevices,
+    handleStreamStarted
+  } = useCameraDevices(VEHICLE.id, cameraId);
+  // Compared by value so the stream only restarts when camera or preset really change
+  const constraintsKey = JSON.stringify(videoConstraints);
 
+  // Start, restart (camera or preset changed) or stop the camera stream
   useEffect(() => {
     if (isActive && videoRef.current) {
-      // Start camera when active
+      let cancelled = false;
+
+      // Release the previous camera before opening another one
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+
       navigator.mediaDevices.getUserMedia({ 
-        video: { 
-          width: { ideal: 1280 }, 
-          height: { ideal: 720 },
-          facingMode: 'user'
-        } 
+        video: JSON.parse(constraintsKey)
       }).then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
         streamRef.current = stream;
+
+        const [track] = stream.getVideoTracks();
+        track.addEventListener('ended', () => {
+          // Camera unplugged; the device list update switches to another camera
+          console.warn('📷 Camera disconnected:', track.label);
+          refreshDevices();
+        });
+        handleStreamStarted(track);
+
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
           videoRef.current.play().then(() => {
-            // Start inference when video is ready
-            if (isInitialized && videoRef.current) {
-              startInference(videoRef.current);
+            if (!videoRef.current) return;
+            // Join the session; the camera gets its own frame scheduler
+            cameraRegistry.attach(cameraId, { video: videoRef.current, label: track.label });
+            // Share the playing video with the frame scheduler consumers
+            onVideoElement?.(videoRef.current);
+            // Start inference when video is ready (if the camera role runs the detector)
+            if (isInitialized) {
+              startInference(videoRef.current, cameraId);
             }
           });
         }
       }).catch(error => {
+        if (cancelled) return;
         console.error('Error accessing camera:', error);
         alert('Camera access denied. Please allow camera access and try again.');
       });
+
+      return () => {
+        cancelled = true;
+      };
     } else if (!isActive && streamRef.current) {
       // Stop camera and inference when not active
-      stopInference();
+      stopInference(cameraId);
+      cameraRegistry.detach(cameraId);
+      onVideoElement?.(null);
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
       if (videoRef.current) {
         videoRef.current.srcObject = null;
       }
     }
-  }, [isActive, isInitialized, startInference, stopInference]);
+  }, [isActive, isInitialized, constraintsKey, cameraId, startInference, stopInference, onVideoElement, refreshDevices, handleStreamStarted]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      stopInference();
+      stopInference(cameraId);
+      cameraRegistry.detach(cameraId);
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
     };
-  }, [stopInference]);
+  }, [stopInference, cameraId]);
   return (
     <motion.div
       initial={{ opacity: 0, scale: 0.95 }}
@@ -101,7 +153,7 @@ export const VideoFeed = ({ isActive, onStartCamera, onStopCamera, isConnected,
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-xl font-semibold flex items-center gap-2">
           <Video className="w-5 h-5 text-primary" />
-          Live Video Feed
+          {role.primary ? 'Live Video Feed' : role.label}
         </h2>
         <div className="flex items-center gap-4">
           {/* AI Model Status Button */}
@@ -118,7 +170,7 @@ export const VideoFeed = ({ isActive, onStartCamera, onStopCamera, isConnected,
               isInitialized ? 'text-green-700' : 'text-yellow-700'
             }`}>
               {isLoading ? 'Loading Model...' : 
-               isInitialized ? 'AI Model Live (driver-behaviour-ge5cr/1)' : 
+               isInitialized ? `AI Model Live (${backendLabel})` : 
                'Model Not Ready'}
             </span>
           </div>
@@ -137,9 +189,32 @@ export const VideoFeed = ({ isActive, onStartCamera, onStopCamera, isConnected,
               isConnected={isConnected}
             />
           )}
+          {onRemove && (
+            <button
+              onClick={onRemove}
+              title="Remove camera"
+              className="p-2 rounded-lg text-muted-foreground hover:bg-muted"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
         </div>
       </div>
 
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <CameraSelector
+          devices={devices}
+          activeDevice={activeDevice}
+          isFallback={isFallback}
+          presetId={presetId}
+          supportedPresets={supportedPresets}
+          onSelectDevice={selectDevice}
+          onSelectPreset={selectPreset}
+        />
+        {/* The driver camera tells the driver from a passenger by the seat side */}
+        {role.primary && <DriverSeatSelector vehicleId={VEHICLE.id} />}
+      </div>
+
       <div className="relative aspect-video bg-secondary/50 rounded-lg overflow-hidden border border-primary/20">
         {isActive ? (
           <>
@@ -169,7 +244,7 @@ export const VideoFeed = ({ isActive, onStartCamera, onStopCamera, isConnected,
             
             {/* Camera Overlay Info */}
             <div className="absolute top-3 left-3 px-3 py-1 bg-black/50 backdrop-blur-sm text-white text-xs rounded">
-              Camera 1 (Driver Face Cam) - Casablanca, Morocco
+              {activeDevice?.label ?? 'Camera'} - {VEHICLE.name} {VEHICLE.id}
             </div>
             <div className="absolute top-3 right-3 px-3 py-1 bg-black/50 backdrop-blur-sm text-white text-xs rounded">
               {new Date().toLocaleDateString('en-GB')} {new Date().toLocaleTimeString()}
@@ -224,6 +299,7 @@ export const VideoFeed = ({ isActive, onStartCamera, onStopCamera, isConnected,
           <DetectionStatus
             detections={detections}
             getClassConfig={getClassConfig}
+            presence={presence}
           />
         </div>
       )}
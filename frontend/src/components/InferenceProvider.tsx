@@ -0,0 +1,20 @@
+import { ReactNode } from "react";
+import { InferenceContext, useInferenceEngine } from "@/hooks/useInference";
+
+interface InferenceProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * App-level inference service
+ * Runs a single model worker and frame loop shared by every dashboard panel
+ */
+export const InferenceProvider = ({ children }: InferenceProviderProps) => {
+  const engine = useInferenceEngine();
+
+  return (
+    <InferenceContext.Provider value={engine}>
+      {children}
+    </InferenceContext.Provider>
+  );
+};
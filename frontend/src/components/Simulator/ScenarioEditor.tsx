@@ -0,0 +1,187 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ListOrdered, Plus, Trash2 } from 'lucide-react';
+import { getRoboflowConfig } from '@/config/roboflow';
+import { createSegment } from '@/services/scenarioSimulator';
+import { formatVideoTime } from '@/utils/timeFormat';
+
+export interface ScenarioSegment {
+  id: string;
+  label?: string;
+  durationMs: number;
+  behavior: string | null;
+  confidence: number;
+  face: boolean;
+  ear: number;
+  earEnd: number;
+  blinksPerMinute: number;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  segments: ScenarioSegment[];
+}
+
+interface ScenarioEditorProps {
+  segments: ScenarioSegment[];
+  onChange: (segments: ScenarioSegment[]) => void;
+  activeIndex?: number | null;
+  disabled?: boolean;
+}
+
+const CLASSES = getRoboflowConfig().classes;
+const NO_DETECTION = 'none';
+const NO_FACE_COLOR = '#d1d5db';
+
+/**
+ * Timeline editor for simulator scenarios: a proportional bar of the
+ * segments and one editable row per segment
+ */
+export const ScenarioEditor = ({ segments, onChange, activeIndex = null, disabled = false }: ScenarioEditorProps) => {
+  const totalMs = segments.reduce((sum, segment) => sum + segment.durationMs, 0);
+
+  const updateSegment = (index: number, changes: Partial<ScenarioSegment>) => {
+    onChange(segments.map((segment, i) => (i === index ? { ...segment, ...changes } : segment)));
+  };
+
+  const moveSegment = (index: number, offset: number) => {
+    const next = [...segments];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  const addSegment = () => {
+    const last = segments[segments.length - 1];
+    onChange([...segments, createSegment(last ? { ear: last.earEnd, earEnd: last.earEnd } : {})]);
+  };
+
+  const numberField = (index: number, key: keyof ScenarioSegment, value: number, step: number, scale = 1) => (
+    <Input
+      type="number"
+      min={0}
+      step={step}
+      value={value / scale}
+      disabled={disabled}
+      onChange={(event) => updateSegment(index, { [key]: Number(event.target.value) * scale })}
+      className="h-8 w-20"
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-primary" />
+          Timeline
+          <span className="ml-auto text-sm font-normal text-muted-foreground">{formatVideoTime(totalMs)}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex h-6 w-full overflow-hidden rounded-md border">
+          {segments.map((segment, index) => (
+            <div
+              key={segment.id}
+              title={`${segment.label || CLASSES[segment.behavior]?.label || 'No detection'} (${(segment.durationMs / 1000).toFixed(1)}s)`}
+              className={index === activeIndex ? 'ring-2 ring-inset ring-foreground' : ''}
+              style={{
+                width: `${totalMs > 0 ? (segment.durationMs / totalMs) * 100 : 0}%`,
+                minWidth: 2,
+                backgroundColor: segment.face ? CLASSES[segment.behavior]?.color ?? NO_FACE_COLOR : NO_FACE_COLOR
+              }}
+            />
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Label</TableHead>
+              <TableHead>Behaviour</TableHead>
+              <TableHead>Duration (s)</TableHead>
+              <TableHead>Confidence</TableHead>
+              <TableHead>Face</TableHead>
+              <TableHead>EAR start</TableHead>
+              <TableHead>EAR end</TableHead>
+              <TableHead>Blinks/min</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {segments.map((segment, index) => (
+              <TableRow key={segment.id} className={index === activeIndex ? 'bg-muted' : ''}>
+                <TableCell>
+                  <Input
+                    value={segment.label ?? ''}
+                    disabled={disabled}
+                    onChange={(event) => updateSegment(index, { label: event.target.value })}
+                    className="h-8 w-32"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select
+                    value={segment.behavior ?? NO_DETECTION}
+                    disabled={disabled}
+                    onValueChange={(value) => updateSegment(index, { behavior: value === NO_DETECTION ? null : value })}
+                  >
+                    <SelectTrigger className="h-8 w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CLASSES as Record<string, { label: string }>).map(([key, classConfig]) => (
+                        <SelectItem key={key} value={key}>{classConfig.label}</SelectItem>
+                      ))}
+                      <SelectItem value={NO_DETECTION}>No detection</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>{numberField(index, 'durationMs', segment.durationMs, 0.5, 1000)}</TableCell>
+                <TableCell>{numberField(index, 'confidence', segment.confidence, 0.05)}</TableCell>
+                <TableCell>
+                  <Checkbox
+                    checked={segment.face}
+                    disabled={disabled}
+                    onCheckedChange={(face) => updateSegment(index, { face: face === true })}
+                  />
+                </TableCell>
+                <TableCell>{numberField(index, 'ear', segment.ear, 0.01)}</TableCell>
+                <TableCell>{numberField(index, 'earEnd', segment.earEnd, 0.01)}</TableCell>
+                <TableCell>{numberField(index, 'blinksPerMinute', segment.blinksPerMinute, 1)}</TableCell>
+                <TableCell>
+                  <div className="flex">
+                    <Button variant="ghost" size="icon" disabled={disabled || index === 0} onClick={() => moveSegment(index, -1)} title="Move up">
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={disabled || index === segments.length - 1} onClick={() => moveSegment(index, 1)} title="Move down">
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={disabled || segments.length === 1}
+                      onClick={() => onChange(segments.filter((_, i) => i !== index))}
+                      title="Remove"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Button variant="outline" onClick={addSegment} disabled={disabled}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Segment
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,30 @@
+// Offline Video Analysis Configuration
+// Recorded clips are decoded frame by frame and run through the same
+// detector, tracking, smoothing, eye metrics and alert rules as live monitoring.
+
+export const ANALYSIS_CONFIG = {
+  modes: {
+    // The live detector's fastest sampling, much faster than real time
+    fast: { label: 'Fast (7.5 FPS sampling)', intervalMs: 133 },
+    // Every frame at the nominal frame rate
+    frameByFrame: { label: 'Frame by frame (30 FPS)', intervalMs: 1000 / 30 }
+  },
+  defaultMode: 'fast',
+  seekTimeoutMs: 5000,          // Give up on a frame that never finishes seeking
+  maxSessions: 20,              // Analysis sessions kept in storage
+
+  // Session recordings: raw detector and FaceMesh output for replay
+  recording: {
+    maxDurationMs: 15 * 60000,  // Recording stops by itself after this
+    landmarkPrecision: 4        // Decimals kept per landmark coordinate
+  },
+  // Replay speeds; 0 replays as fast as possible
+  replaySpeeds: {
+    max: { label: 'As fast as possible', speed: 0 },
+    realtime: { label: 'Real time (1x)', speed: 1 },
+    fast4x: { label: '4x', speed: 4 }
+  },
+  defaultReplaySpeed: 'max'
+};
+
+export const getAnalysisConfig = () => ANALYSIS_CONFIG;
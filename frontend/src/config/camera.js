@@ -0,0 +1,84 @@
+// Camera Configuration
+// Resolution / frame-rate presets offered for every camera. Presets a device
+// cannot deliver (per its reported capabilities) are hidden.
+
+export const CAMERA_PRESETS = {
+  '1080p30': { label: '1920x1080 · 30 FPS', width: 1920, height: 1080, frameRate: 30 },
+  '720p30': { label: '1280x720 · 30 FPS', width: 1280, height: 720, frameRate: 30 },
+  '720p15': { label: '1280x720 · 15 FPS', width: 1280, height: 720, frameRate: 15 },
+  '480p30': { label: '640x480 · 30 FPS', width: 640, height: 480, frameRate: 30 },
+  '480p15': { label: '640x480 · 15 FPS', width: 640, height: 480, frameRate: 15 }
+};
+
+// Cameras that can be attached at the same time, one per role.
+// Each role lists the analyzers that run on it, with optional overrides of
+// the analyzer schedule from config/scheduler.js.
+export const CAMERA_ROLES = {
+  driver: {
+    label: 'Driver Face Cam',
+    primary: true,              // Feeds eye metrics, the driver region and the dashboard
+    analyzers: {
+      detector: {},
+      eyeMetrics: {},
+      cameraHealth: {}
+    }
+  },
+  cabin: {
+    label: 'Cabin Cam',
+    analyzers: {
+      detector: { intervalMs: 500, minIntervalMs: 250, maxIntervalMs: 1000 },
+      cameraHealth: {}
+    }
+  },
+  road: {
+    label: 'Road Cam',
+    analyzers: {                // Recorded and attached to alerts only
+      cameraHealth: {}
+    }
+  }
+};
+
+export const CAMERA_CONFIG = {
+  defaultPreset: '720p30',
+  facingMode: 'user'            // Used when no device has been chosen
+};
+
+/**
+ * Build getUserMedia video constraints for a device and preset
+ * @param {string | null} deviceId
+ * @param {string} presetId - Key of CAMERA_PRESETS
+ */
+export const buildVideoConstraints = (deviceId, presetId) => {
+  const preset = CAMERA_PRESETS[presetId] || CAMERA_PRESETS[CAMERA_CONFIG.defaultPreset];
+  return {
+    ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: CAMERA_CONFIG.facingMode }),
+    width: { ideal: preset.width },
+    height: { ideal: preset.height },
+    frameRate: { ideal: preset.frameRate }
+  };
+};
+
+/**
+ * Presets a device supports, given MediaStreamTrack.getCapabilities()
+ */
+export const getSupportedPresets = (capabilities) => {
+  if (!capabilities?.width || !capabilities?.height) return Object.keys(CAMERA_PRESETS);
+
+  return Object.keys(CAMERA_PRESETS).filter(presetId => {
+    const preset = CAMERA_PRESETS[presetId];
+    return preset.width <= capabilities.width.max &&
+      preset.height <= capabilities.height.max &&
+      (!capabilities.frameRate || preset.frameRate <= capabilities.frameRate.max);
+  });
+};
+
+/**
+ * Schedule of an analyzer on a camera role, or null when it does not run there
+ * @param {string} role - Key of CAMERA_ROLES
+ * @param {string} analyzer - Analyzer name (e.g. 'detector')
+ * @param {object} baseSchedule - Default schedule from config/scheduler.js
+ */
+export const getRoleAnalyzerSchedule = (role, analyzer, baseSchedule) => {
+  const overrides = CAMERA_ROLES[role]?.analyzers[analyzer];
+  return overrides ? { ...baseSchedule, ...overrides } : null;
+};
@@ -0,0 +1,49 @@
+// Camera Health Configuration
+// Whether each camera's picture is usable, checked on downscaled frames a
+// few times per second: too dark, overexposed (glare), blurred, covered by
+// a large uniform area, or frozen. Detections on a failing frame are marked
+// low-reliability; a problem that lasts becomes a tamper or fault event.
+
+export const CAMERA_HEALTH_CONFIG = {
+  enabled: true,
+  sampleWidth: 160,             // Frames are scaled down to this width before measuring
+  histogramBins: 16,            // Brightness histogram shown in the status panel
+
+  checks: {
+    dark: { maxBrightness: 35 },                     // Mean luminance (0-255); skipped while frames are enhanced
+    overexposed: { level: 245, maxShare: 0.3 },      // Share of pixels at or above level
+    blur: { minSharpness: 15 },                      // Variance of the Laplacian
+    occlusion: { grid: 8, maxStdDev: 6, maxShare: 0.5 }, // Share of uniform grid cells
+    frozen: { maxDifference: 0.5, stallMs: 5000 }    // Mean pixel change between samples; no frames for stallMs
+  },
+
+  sustainMs: 3000,              // A problem lasting this long raises an event
+
+  // Shown in the status panel and notifications
+  labels: {
+    dark: 'Too dark',
+    overexposed: 'Glare',
+    blur: 'Blurred',
+    occlusion: 'Covered',
+    frozen: 'Frozen'
+  },
+
+  // Event each problem raises: someone covering or blinding the camera, or a faulty camera
+  kinds: {
+    dark: 'tamper',
+    occlusion: 'tamper',
+    overexposed: 'fault',
+    blur: 'fault',
+    frozen: 'fault'
+  }
+};
+
+/**
+ * Get camera health configuration with environment overrides
+ */
+export const getCameraHealthConfig = () => ({
+  ...CAMERA_HEALTH_CONFIG,
+  enabled: import.meta.env.VITE_CAMERA_HEALTH !== undefined
+    ? import.meta.env.VITE_CAMERA_HEALTH === 'true'
+    : CAMERA_HEALTH_CONFIG.enabled
+});
@@ -0,0 +1,85 @@
+// Detector Backend Configuration
+// Selects where detections come from. Every backend produces the same
+// detection events, so the rest of the dashboard does not care which one runs.
+
+import { ROBOFLOW_CONFIG } from '@/config/roboflow';
+
+export const DETECTOR_BACKENDS = ['inferencejs', 'tfjs', 'websocket', 'replay'];
+
+export const DETECTOR_CONFIG = {
+  // Active backend: 'inferencejs' | 'tfjs' | 'websocket' | 'replay'
+  // Use tfjs for offline monitoring once the exported weights are in public/models
+  backend: 'inferencejs',
+
+  // Run frame based backends (inferencejs, tfjs) in a dedicated Web Worker
+  useWorker: true,
+
+  // Roboflow inferencejs worker (model weights fetched from Roboflow,
+  // model version comes from the model manifest)
+  inferencejs: {},
+
+  // Locally bundled TensorFlow.js graph model (YOLOv8 export), works offline
+  tfjs: {
+    modelUrl: null,             // Defaults to the model manifest's detector URL
+    inputSize: 640,             // Model input resolution (square)
+    tfBackend: 'cpu',           // TensorFlow.js backend ('cpu' or 'webgl')
+    classNames: Object.keys(ROBOFLOW_CONFIG.classes)
+  },
+
+  // Prediction stream from the Python inference server
+  websocket: {
+    url: 'ws://localhost:8000/ws',
+    maxReconnectAttempts: 5
+  },
+
+  // Pre-recorded detections played back from a JSON file
+  replay: {
+    url: '/replays/sample-session.json',
+    loop: true,
+    playbackRate: 1
+  }
+};
+
+// Environment-specific configuration
+export const getDetectorConfig = () => {
+  const backend = import.meta.env.VITE_DETECTOR_BACKEND || DETECTOR_CONFIG.backend;
+
+  return {
+    ...DETECTOR_CONFIG,
+    backend,
+    tfjs: {
+      ...DETECTOR_CONFIG.tfjs,
+      modelUrl: import.meta.env.VITE_TFJS_MODEL_URL || DETECTOR_CONFIG.tfjs.modelUrl
+    },
+    websocket: {
+      ...DETECTOR_CONFIG.websocket,
+      url: import.meta.env.VITE_DETECTOR_WS_URL || DETECTOR_CONFIG.websocket.url
+    },
+    replay: {
+      ...DETECTOR_CONFIG.replay,
+      url: import.meta.env.VITE_REPLAY_URL || DETECTOR_CONFIG.replay.url
+    }
+  };
+};
+
+// Validation function
+export const validateDetectorConfig = (config) => {
+  const errors = [];
+
+  if (!DETECTOR_BACKENDS.includes(config.backend)) {
+    errors.push(`Unknown detector backend "${config.backend}" (expected one of ${DETECTOR_BACKENDS.join(', ')})`);
+  }
+
+  if (config.backend === 'websocket' && !config.websocket.url) {
+    errors.push("Please set the WebSocket inference server URL");
+  }
+
+  if (config.backend === 'replay' && !config.replay.url) {
+    errors.push("Please set the replay file URL");
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
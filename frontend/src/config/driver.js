@@ -0,0 +1,25 @@
+// Driver Configuration
+// Identifies the driver on this dashboard. Per-driver data (eye calibration,
+// ...) is stored on the driver's profile under this id.
+
+export const DRIVER_CONFIG = {
+  id: '002837407',
+  name: 'Reynald Carbonara',
+
+  // Eye calibration at the start of every trip
+  eyeCalibration: {
+    durationMs: 30000,          // Open-eye samples collected per calibration
+    minSamples: 150,            // Fewer face samples than this restarts the calibration
+    minBaselineEar: 0.15,       // Lower baselines mean bad landmarks or closed eyes
+    maxBaselineEar: 0.45
+  }
+};
+
+/**
+ * Get driver configuration with environment overrides
+ */
+export const getDriverConfig = () => ({
+  ...DRIVER_CONFIG,
+  id: import.meta.env.VITE_DRIVER_ID || DRIVER_CONFIG.id,
+  name: import.meta.env.VITE_DRIVER_NAME || DRIVER_CONFIG.name
+});
@@ -0,0 +1,31 @@
+// Driver Selection Configuration
+// FaceMesh looks for several faces so a passenger or a co-driver in the
+// sleeper berth is not mistaken for the driver. Each face is scored on its
+// size, how far it sits on the driver's seat side of the frame, and how
+// close it is to the driver face of the previous frames; the driver only
+// changes when another face clearly scores higher for a while.
+
+export const DRIVER_SELECTION_CONFIG = {
+  maxFaces: 3,                  // Driver, passenger and co-driver in the berth
+
+  // Weights of the face scores (each 0 to 1)
+  weights: {
+    size: 0.4,                  // Face area relative to the largest face
+    seat: 0.35,                 // Position towards the driver's seat side
+    stability: 0.25             // Closeness to the current driver face
+  },
+
+  maxJump: 0.25,                // Face centre movement (share of the frame) that is still the same face
+  switchMargin: 0.15,           // Another face must score this much higher...
+  switchMs: 1500,               // ...for this long to become the driver
+
+  // Behaviour detections outside the driver's region are dropped
+  filterDetections: true,
+  minOverlap: 0.2,              // Share of a detection box that must lie inside the driver region
+  maxAgeMs: 1000                // Driver region kept this long after the driver face was last seen
+};
+
+/**
+ * Get driver selection configuration
+ */
+export const getDriverSelectionConfig = () => DRIVER_SELECTION_CONFIG;
@@ -0,0 +1,52 @@
+// Drowsiness Configuration
+// PERCLOS: the share of time the eyes are more than 80% closed over a
+// rolling window, measured on the per-frame eyelid openness. Eye closures
+// are sorted by how long they last. Frequent yawning raises the level too.
+
+export const DROWSINESS_CONFIG = {
+  perclos: {
+    windowMs: 60000,            // Rolling window (e.g. 60000 or 180000)
+    closedFraction: 0.8,        // Eyes count as closed when more than 80% closed
+    minCoverageMs: 20000,       // Face time needed in the window before PERCLOS is reported
+    maxSampleGapMs: 500,        // Longer gaps between frames (no face) are not counted
+    // Drowsiness level from PERCLOS
+    levels: {
+      mild: 0.075,
+      moderate: 0.15,
+      severe: 0.3
+    }
+  },
+
+  // Eye closures by duration: shorter than longBlinkMs is a normal blink,
+  // from microsleepMs on a microsleep (alerts at once, while still closed)
+  closures: {
+    longBlinkMs: 500,
+    microsleepMs: 1000
+  },
+
+  // Confirmed yawns per 10 minutes that raise the drowsiness level at least to
+  yawns: {
+    mild: 3,
+    moderate: 5
+  },
+
+  // PERCLOS alerts
+  alerts: {
+    warning: { perclos: 0.15, cooldownMs: 120000 },
+    critical: { perclos: 0.3, cooldownMs: 60000 }
+  }
+};
+
+/**
+ * Get drowsiness configuration with environment overrides
+ */
+export const getDrowsinessConfig = () => {
+  const windowSeconds = Number(import.meta.env.VITE_PERCLOS_WINDOW_S);
+  return {
+    ...DROWSINESS_CONFIG,
+    perclos: {
+      ...DROWSINESS_CONFIG.perclos,
+      windowMs: windowSeconds > 0 ? windowSeconds * 1000 : DROWSINESS_CONFIG.perclos.windowMs
+    }
+  };
+};
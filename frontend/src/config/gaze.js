@@ -0,0 +1,38 @@
+// Gaze Configuration
+// Gaze direction from the iris landmarks combined with the head pose. Needs
+// FaceMesh's refined landmarks (iris points), which cost some performance,
+// so it is off unless enabled here or with VITE_GAZE_TRACKING=true.
+// Angles are in degrees from the driver's neutral pose, yaw > 0 to the
+// driver's left and pitch > 0 down, as for the head pose.
+
+export const GAZE_CONFIG = {
+  enabled: false,
+  eyeYawGain: 150,              // Degrees of gaze per eye width of horizontal iris offset
+  eyePitchGain: 120,            // Degrees of gaze per eye width of vertical iris offset
+  smoothing: 0.5,               // Weight of the newest frame in the smoothed gaze
+  maxSampleGapMs: 500,          // Longer gaps between frames (no face) are not counted
+  minuteMs: 60000,              // Window of the eyes-off-road time per minute
+  longGlanceMs: 2000,           // Off-road glances this long are distraction events
+
+  // Gaze zones for a left-hand-drive vehicle (mirrored for right-hand drive), first match wins.
+  // Gaze outside every zone is off road ('other').
+  zones: [
+    { id: 'road', label: 'Road ahead', yaw: [-15, 15], pitch: [-10, 12] },
+    { id: 'dashboard', label: 'Dashboard', yaw: [-20, 20], pitch: [12, 30] },
+    { id: 'lap', label: 'Lap', yaw: [-45, 45], pitch: [30, 90] },
+    { id: 'leftMirror', label: 'Left mirror', yaw: [35, 75], pitch: [-15, 15] },
+    { id: 'rearMirror', label: 'Rear-view mirror', yaw: [-40, -15], pitch: [-30, -8] },
+    { id: 'rightMirror', label: 'Right mirror', yaw: [-90, -60], pitch: [-15, 10] },
+    { id: 'passenger', label: 'Passenger', yaw: [-60, -15], pitch: [-8, 30] }
+  ]
+};
+
+/**
+ * Get gaze configuration with environment overrides
+ */
+export const getGazeConfig = () => ({
+  ...GAZE_CONFIG,
+  enabled: import.meta.env.VITE_GAZE_TRACKING !== undefined
+    ? import.meta.env.VITE_GAZE_TRACKING === 'true'
+    : GAZE_CONFIG.enabled
+});
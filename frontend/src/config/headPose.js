@@ -0,0 +1,53 @@
+// Head Pose Configuration
+// Yaw, pitch and roll come from the FaceMesh landmarks and are measured from
+// the driver's neutral pose, learned at the start of every trip, so the
+// camera can be mounted off-axis. Angles are in degrees.
+
+export const HEAD_POSE_CONFIG = {
+  defaultAspectRatio: 16 / 9,   // Frame shape assumed when a frame has no size (replay)
+  smoothing: 0.5,               // Weight of the newest frame in the smoothed pose
+  neutralMs: 10000,             // Face time used to learn the neutral pose
+  maxNeutralYaw: 45,            // Frames turned further are left out of the neutral pose
+
+  // Sustained looking away from the road (left or right)
+  lookingAway: {
+    yaw: 30,
+    minMs: 2000
+  },
+
+  // Sustained looking down (phone, lap)
+  lookingDown: {
+    pitch: 20,
+    minMs: 2000
+  },
+
+  // Nodding off: the head drops and comes back up quickly
+  nod: {
+    drop: 15,                   // Pitch drop that starts a nod
+    recover: 8,                 // The nod ends once pitch is back under this
+    maxMs: 1500,                // Slower drops are looking down, not nodding
+    windowMs: 60000,            // Nods counted over this window
+    count: 2                    // Nods in the window that make nodding off
+  },
+
+  // Alert cooldowns per condition
+  alerts: {
+    lookingAway: { cooldownMs: 30000 },
+    lookingDown: { cooldownMs: 30000 },
+    nodding: { cooldownMs: 60000 }
+  }
+};
+
+/**
+ * Get head pose configuration with environment overrides
+ */
+export const getHeadPoseConfig = () => {
+  const yaw = Number(import.meta.env.VITE_LOOKING_AWAY_YAW);
+  return {
+    ...HEAD_POSE_CONFIG,
+    lookingAway: {
+      ...HEAD_POSE_CONFIG.lookingAway,
+      yaw: yaw > 0 ? yaw : HEAD_POSE_CONFIG.lookingAway.yaw
+    }
+  };
+};
@@ -0,0 +1,60 @@
+// Model Asset Configuration
+// Model weights and FaceMesh assets are bundled under public/models and
+// described by public/models/manifest.json, so monitoring can start offline.
+
+export const MODEL_MANIFEST_URL = '/models/manifest.json';
+
+// Cache Storage prefix; the manifest version is appended to it
+export const MODEL_CACHE_PREFIX = 'copag-models-v';
+
+// Service worker that serves /models/* from the versioned cache
+export const MODEL_SERVICE_WORKER_URL = '/model-sw.js';
+
+// Classic worker that runs FaceMesh off the main thread (needs importScripts)
+export const FACE_MESH_WORKER_URL = '/workers/face-mesh.worker.js';
+
+// Fallback when the manifest cannot be fetched or is invalid
+export const DEFAULT_MODEL_MANIFEST = {
+  version: 1,
+  detector: {
+    modelId: 'driver-behaviour-ge5cr',
+    version: 1,
+    modelUrl: '/models/driver-behaviour-ge5cr/1/model.json'
+  },
+  faceMesh: {
+    version: '0.4.1633559619',
+    baseUrl: '/models/face_mesh/',
+    files: [
+      'face_mesh.js',
+      'face_mesh.binarypb',
+      'face_mesh_solution_packed_assets.data',
+      'face_mesh_solution_packed_assets_loader.js',
+      'face_mesh_solution_simd_wasm_bin.js',
+      'face_mesh_solution_simd_wasm_bin.wasm',
+      'face_mesh_solution_wasm_bin.js',
+      'face_mesh_solution_wasm_bin.wasm'
+    ]
+  }
+};
+
+// Validation function
+export const validateModelManifest = (manifest) => {
+  const errors = [];
+
+  if (!manifest || manifest.version === undefined) {
+    errors.push("Model manifest is missing a version");
+  }
+
+  if (!manifest?.detector?.modelId || !Number.isInteger(manifest?.detector?.version)) {
+    errors.push("Model manifest must declare the detector model id and integer version");
+  }
+
+  if (!manifest?.faceMesh?.baseUrl || !Array.isArray(manifest?.faceMesh?.files)) {
+    errors.push("Model manifest must declare the FaceMesh asset location and files");
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+};
@@ -0,0 +1,59 @@
+// Preprocessing Configuration
+// Frames are enhanced before the detector and FaceMesh see them when the
+// scene is dark or the camera delivers IR (monochrome) frames: contrast
+// stretch, auto gamma, tile-based (CLAHE-style) equalization and denoising.
+// The camera health checks keep measuring the raw frames, but skip the
+// dark check while a camera's frames are enhanced.
+
+export const PREPROCESSING_CONFIG = {
+  mode: 'auto',                 // 'auto' (low light or IR only), 'on' or 'off'
+  sampleWidth: 160,             // Frames are measured on a copy this wide
+
+  // Low-light switching on the smoothed mean brightness (0-255), with hysteresis
+  auto: {
+    onBrightness: 70,           // Switch on below this
+    offBrightness: 90,          // Switch off above this
+    smoothing: 0.2              // Weight of each new frame's brightness
+  },
+
+  // IR cameras deliver colourless frames; their output is plain gray in all three channels
+  ir: {
+    maxSaturation: 6            // Mean channel spread (0-255) below which a frame is IR
+  },
+
+  // Stretch the 1st-99th brightness percentiles to the full range
+  contrast: {
+    lowPercentile: 0.01,
+    highPercentile: 0.99
+  },
+
+  // Gamma that brings the mean brightness to the target
+  gamma: {
+    targetBrightness: 110,
+    min: 0.4,
+    max: 1
+  },
+
+  // Contrast-limited equalization per tile, blended with the global curve
+  equalization: {
+    enabled: true,
+    tiles: 4,                   // Tiles per side
+    clipLimit: 3,               // Histogram bins are clipped at this multiple of the average
+    strength: 0.5               // 0 = global curve only, 1 = equalization only
+  },
+
+  // Blur radius in pixels against sensor noise, 0 to disable
+  denoise: {
+    blurPx: 1
+  },
+
+  debugIntervalMs: 200          // Processed frames sent to the debug view at most this often
+};
+
+/**
+ * Get preprocessing configuration with environment overrides
+ */
+export const getPreprocessingConfig = () => ({
+  ...PREPROCESSING_CONFIG,
+  mode: import.meta.env.VITE_PREPROCESSING || PREPROCESSING_CONFIG.mode
+});
@@ -0,0 +1,39 @@
+// Presence Configuration
+// Whether the driver is in front of the driver camera, from the face picked
+// as the driver's: present, partially visible (face cut by the frame edge)
+// or absent (no face: driver gone, camera covered or head turned fully away).
+// Passengers are expected, so extra faces only count as a 'multiple' state
+// when reportMultipleFaces is on. A state must hold for confirmMs before it
+// is shown, and escalates the longer it lasts.
+
+export const PRESENCE_CONFIG = {
+  partialOutsideShare: 0.1,     // Face is partially visible with more landmarks than this outside the frame
+  reportMultipleFaces: false,   // Flag (and alert on) several faces, e.g. in a single-occupant cab
+
+  // How long a new state must hold before it replaces the current one
+  confirmMs: {
+    present: 500,
+    partial: 1000,
+    absent: 1000,
+    multiple: 1000
+  },
+
+  // Levels a state reaches the longer it lasts; steps with alert: true send an alert
+  escalation: {
+    absent: [
+      { level: 'warning', afterMs: 3000 },
+      { level: 'critical', afterMs: 10000, alert: true }
+    ],
+    partial: [
+      { level: 'warning', afterMs: 5000 }
+    ],
+    multiple: [
+      { level: 'warning', afterMs: 3000, alert: true }
+    ]
+  }
+};
+
+/**
+ * Get presence configuration
+ */
+export const getPresenceConfig = () => PRESENCE_CONFIG;
@@ -0,0 +1,43 @@
+// Event Clip Recording Configuration
+// Every attached camera keeps a rolling in-memory recording of the last
+// few seconds. When a confirmed behaviour starts, a clip covering the time
+// before and after it is saved with the event in IndexedDB.
+
+export const RECORDING_CONFIG = {
+  enabled: true,
+  preEventSeconds: 10,          // Video kept before the event
+  postEventSeconds: 5,          // Video recorded after the event
+  timesliceMs: 1000,            // MediaRecorder chunk length (clip start granularity)
+  videoBitsPerSecond: 1500000,
+  mimeTypes: [                  // First type the browser supports is used
+    'video/webm;codecs=vp9',
+    'video/webm;codecs=vp8',
+    'video/webm',
+    'video/mp4'
+  ],
+
+  // Draw detection boxes into the recording (records a canvas instead of the raw stream)
+  burnInOverlay: false,
+  overlayFrameRate: 15,
+
+  // Behaviours whose confirmed start saves a clip
+  triggerClasses: ['DangerousDriving', 'Drinking', 'Distracted'],
+  yawnClips: true,              // Also save a driver camera clip for every confirmed yawn (yawnFusion)
+  minClipGapMs: 30000,          // Per camera and class, to avoid a clip per flicker
+  allCameras: false,            // Also save clips from the other attached cameras
+
+  maxClips: 50                  // Oldest clips are deleted beyond this
+};
+
+/**
+ * Get recording configuration with environment overrides
+ */
+export const getRecordingConfig = () => ({
+  ...RECORDING_CONFIG,
+  enabled: import.meta.env.VITE_EVENT_CLIPS
+    ? import.meta.env.VITE_EVENT_CLIPS !== 'false'
+    : RECORDING_CONFIG.enabled,
+  burnInOverlay: import.meta.env.VITE_CLIP_OVERLAY
+    ? import.meta.env.VITE_CLIP_OVERLAY === 'true'
+    : RECORDING_CONFIG.burnInOverlay
+});
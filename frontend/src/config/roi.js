@@ -0,0 +1,28 @@
+// Driver Region-of-Interest Configuration
+// The detector only sees a driver-centred crop of the frame, found from the
+// FaceMesh landmarks. Padding is given in multiples of the face size and is
+// generous below and beside the face so hands, cups and phones stay inside.
+
+export const ROI_CONFIG = {
+  enabled: true,
+  padding: {
+    left: 1.2,                  // Face widths
+    right: 1.2,
+    top: 0.6,                   // Face heights
+    bottom: 2.2
+  },
+  minSize: 0.35,                // Crop never smaller than this share of each frame side
+  outputSize: 640,              // Longest side of the crop sent to the detector
+  smoothing: 0.4,               // Weight of the new region (reduces crop jitter)
+  maxAgeMs: 1000                // Fall back to the full frame when the face is lost
+};
+
+/**
+ * Get ROI configuration with environment overrides
+ */
+export const getRoiConfig = () => ({
+  ...ROI_CONFIG,
+  enabled: import.meta.env.VITE_DETECTOR_ROI
+    ? import.meta.env.VITE_DETECTOR_ROI !== 'false'
+    : ROI_CONFIG.enabled
+});
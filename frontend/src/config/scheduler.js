@@ -0,0 +1,38 @@
+// Frame Scheduler Configuration
+// One scheduler grabs each video frame once and hands it to the analyzers
+// below according to their rate, processing budget and priority.
+
+export const SCHEDULER_CONFIG = {
+  // Analyzers allowed to work on frames at the same time
+  maxConcurrent: 2,
+
+  analyzers: {
+    // Roboflow behaviour detector
+    detector: {
+      priority: 1,              // Lower priority than eye metrics
+      intervalMs: 333,          // Preferred rate (~3 FPS), light enough for low-end laptops
+      minIntervalMs: 133,       // Fastest rate (~7.5 FPS) while processing stays well under budget
+      maxIntervalMs: 500,       // Slowest rate when over budget
+      budgetMs: 150             // Processing time before backing off
+    },
+
+    // FaceMesh eye metrics
+    eyeMetrics: {
+      priority: 2,
+      intervalMs: 50,           // 20 FPS
+      boostedIntervalMs: 33,    // ~30 FPS while drowsiness is suspected
+      maxIntervalMs: 200,
+      budgetMs: 40
+    },
+
+    // Picture quality checks (camera health)
+    cameraHealth: {
+      priority: 3,              // Cheap; never starved, or a busy camera would look frozen
+      intervalMs: 500,          // 2 FPS is enough to notice a lasting problem
+      maxIntervalMs: 2000,
+      budgetMs: 20
+    }
+  }
+};
+
+export const getSchedulerConfig = () => SCHEDULER_CONFIG;
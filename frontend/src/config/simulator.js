@@ -0,0 +1,59 @@
+// Scenario Simulator Configuration
+// Scripted driver scenarios generate detection and eye-metric streams that
+// run through the live pipeline, for demos and alert testing without a
+// camera or model.
+
+export const SIMULATOR_CONFIG = {
+  detectionIntervalMs: 333,     // Same preferred rate as the live detector
+  eyeIntervalMs: 66,            // Same rate as the live eye metrics
+  tickMs: 33,                   // Player timer
+  frame: { width: 1280, height: 720 },
+  blinkDurationMs: 150,
+  blinkEar: 0.1,
+  confidenceJitter: 0.05,       // Random spread around a segment's confidence
+  earJitter: 0.01,
+  speeds: [1, 2, 5, 10],        // Scenario time per wall-clock time
+  maxSavedScenarios: 30
+};
+
+/**
+ * @typedef {Object} ScenarioSegment
+ * @property {string} id
+ * @property {string} [label]
+ * @property {number} durationMs
+ * @property {string | null} behavior - Detector class, null for no detection
+ * @property {number} confidence
+ * @property {boolean} face - Driver face visible (no eye metrics when false)
+ * @property {number} ear - Open-eye EAR at the segment start
+ * @property {number} earEnd - EAR at the segment end (gradual change)
+ * @property {number} blinksPerMinute
+ */
+
+export const BUILT_IN_SCENARIOS = [
+  {
+    id: 'builtin_drowsy_trip',
+    name: 'Drowsy trip',
+    builtIn: true,
+    segments: [
+      { id: 'seg_1', label: 'Alert driving', durationMs: 300000, behavior: 'SafeDriving', confidence: 0.9, face: true, ear: 0.32, earEnd: 0.32, blinksPerMinute: 17 },
+      { id: 'seg_2', label: 'Looks at phone', durationMs: 12000, behavior: 'Distracted', confidence: 0.85, face: true, ear: 0.3, earEnd: 0.3, blinksPerMinute: 12 },
+      { id: 'seg_3', label: 'Getting tired', durationMs: 60000, behavior: 'SafeDriving', confidence: 0.8, face: true, ear: 0.31, earEnd: 0.27, blinksPerMinute: 8 },
+      { id: 'seg_4', label: 'Microsleep', durationMs: 1500, behavior: 'SafeDriving', confidence: 0.6, face: true, ear: 0.08, earEnd: 0.08, blinksPerMinute: 0 },
+      { id: 'seg_5', label: 'Wakes up', durationMs: 20000, behavior: 'SafeDriving', confidence: 0.85, face: true, ear: 0.32, earEnd: 0.32, blinksPerMinute: 20 }
+    ]
+  },
+  {
+    id: 'builtin_alert_check',
+    name: 'Alert check (1 minute)',
+    builtIn: true,
+    segments: [
+      { id: 'seg_1', label: 'Safe', durationMs: 10000, behavior: 'SafeDriving', confidence: 0.9, face: true, ear: 0.3, earEnd: 0.3, blinksPerMinute: 17 },
+      { id: 'seg_2', label: 'Dangerous driving', durationMs: 15000, behavior: 'DangerousDriving', confidence: 0.9, face: true, ear: 0.3, earEnd: 0.3, blinksPerMinute: 17 },
+      { id: 'seg_3', label: 'Safe', durationMs: 10000, behavior: 'SafeDriving', confidence: 0.9, face: true, ear: 0.3, earEnd: 0.3, blinksPerMinute: 17 },
+      { id: 'seg_4', label: 'Drinking', durationMs: 15000, behavior: 'Drinking', confidence: 0.85, face: true, ear: 0.3, earEnd: 0.3, blinksPerMinute: 17 },
+      { id: 'seg_5', label: 'Safe', durationMs: 10000, behavior: 'SafeDriving', confidence: 0.9, face: true, ear: 0.3, earEnd: 0.3, blinksPerMinute: 17 }
+    ]
+  }
+];
+
+export const getSimulatorConfig = () => SIMULATOR_CONFIG;
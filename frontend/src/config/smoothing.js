@@ -0,0 +1,58 @@
+// Temporal Smoothing Configuration
+// Turns noisy per-frame detections into stable behaviour states.
+// Each class picks a strategy and its own settings; anything not set
+// falls back to the defaults.
+//
+// Strategies:
+//   'majority'   - class must appear in minFrequency of the last windowSize frames
+//                  with an average confidence of at least minConfidence
+//   'ema'        - exponential moving average of the class confidence (alpha),
+//                  starts above enterThreshold, ends below exitThreshold
+//   'hysteresis' - raw confidence must stay above enterThreshold (or below
+//                  exitThreshold) for minDwellMs before the state changes
+
+export const SMOOTHING_CONFIG = {
+  defaults: {
+    strategy: 'majority',
+    windowSize: 9,              // Analyze last 9 frames
+    minFrames: 3,               // Frames needed before any state is reported
+    minFrequency: 0.3,          // Present in at least 30% of frames
+    minConfidence: 0.3          // Average confidence when present
+  },
+
+  classes: {
+    DangerousDriving: {
+      strategy: 'hysteresis',
+      enterThreshold: 0.5,
+      exitThreshold: 0.3,
+      minDwellMs: 1000
+    },
+    Distracted: {
+      strategy: 'hysteresis',
+      enterThreshold: 0.45,
+      exitThreshold: 0.25,
+      minDwellMs: 800
+    },
+    Drinking: {
+      strategy: 'ema',
+      alpha: 0.3,
+      enterThreshold: 0.4,
+      exitThreshold: 0.2
+    },
+    SafeDriving: {
+      strategy: 'majority'
+    },
+    Yawn: {
+      strategy: 'hysteresis',
+      enterThreshold: 0.5,
+      exitThreshold: 0.3,
+      minDwellMs: 1500
+    }
+  }
+};
+
+// Get the effective settings for a class
+export const getClassSmoothingConfig = (className, config = SMOOTHING_CONFIG) => ({
+  ...config.defaults,
+  ...(config.classes[className] || {})
+});
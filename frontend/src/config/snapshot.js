@@ -0,0 +1,21 @@
+// Alert Snapshot Configuration
+// Frames attached to alerts are drawn with the detection boxes and a
+// vehicle/time watermark so supervisors can see what triggered the alert.
+
+export const SNAPSHOT_CONFIG = {
+  quality: 0.85,                // JPEG quality
+  maxWidth: 1280,               // Larger frames are scaled down
+  drawDetections: true,
+  watermark: true,
+  watermarkHeight: 28           // Pixels at maxWidth; scaled with the image
+};
+
+/**
+ * Get snapshot configuration with environment overrides
+ */
+export const getSnapshotConfig = () => ({
+  ...SNAPSHOT_CONFIG,
+  drawDetections: import.meta.env.VITE_SNAPSHOT_OVERLAY
+    ? import.meta.env.VITE_SNAPSHOT_OVERLAY !== 'false'
+    : SNAPSHOT_CONFIG.drawDetections
+});
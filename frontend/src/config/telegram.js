@@ -30,6 +30,7 @@ export const TELEGRAM_CONFIG = {
     lowConcentration: 15000,   // 15 seconds between concentration alerts (reduced for testing)
     dangerousDriving: 15000,   // 15 seconds between dangerous driving alerts
     drinking: 20000,           // 20 seconds between drinking alerts
+    microsleep: 5000,          // Every microsleep alerts; only duplicates are held back
   }
 };
 
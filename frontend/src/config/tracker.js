@@ -0,0 +1,18 @@
+// Object Tracker Configuration
+// Associates detections across frames so the same behaviour keeps one id.
+// Matching is done per class: boxes overlapping by at least iouThreshold are
+// matched first, then the closest centroids within maxCentroidDistance.
+
+export const TRACKER_CONFIG = {
+  iouThreshold: 0.3,            // Minimum overlap for an IoU match
+  maxCentroidDistance: 0.5,     // Centroid fallback, as a fraction of the box diagonal
+  maxGapMs: 600,                // Keep unmatched tracks alive this long (skipped/missed frames)
+  historySize: 30,              // Confidence samples kept per track
+  minHits: 3,                   // Matches before a track is confirmed (and stored)
+  bboxSmoothing: 0.6            // Weight of the new box when updating a track (1 = no smoothing)
+};
+
+/**
+ * Get tracker configuration
+ */
+export const getTrackerConfig = () => TRACKER_CONFIG;
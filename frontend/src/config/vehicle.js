@@ -0,0 +1,19 @@
+// Vehicle Configuration
+// Identifies the vehicle this dashboard runs in. Per-vehicle settings
+// (camera choice, driver seat, ...) are stored under its id.
+
+export const VEHICLE_CONFIG = {
+  id: 'XY9980AB',               // Plate number, used as the vehicle id
+  name: 'Mitsubishi Fuso',
+  driverSeat: 'left'            // 'left' (left-hand drive) or 'right'; default until set for the vehicle
+};
+
+/**
+ * Get vehicle configuration with environment overrides
+ */
+export const getVehicleConfig = () => ({
+  ...VEHICLE_CONFIG,
+  id: import.meta.env.VITE_VEHICLE_ID || VEHICLE_CONFIG.id,
+  name: import.meta.env.VITE_VEHICLE_NAME || VEHICLE_CONFIG.name,
+  driverSeat: import.meta.env.VITE_DRIVER_SEAT || VEHICLE_CONFIG.driverSeat
+});
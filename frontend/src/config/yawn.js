@@ -0,0 +1,31 @@
+// Yawn Configuration
+// Yawns from the mouth aspect ratio (MAR) on the FaceMesh landmarks, fused
+// with the detector's Yawn class. Talking and singing open the mouth too, but
+// briefly or not as wide, so a landmark yawn needs both a long and a wide
+// opening.
+
+export const YAWN_CONFIG = {
+  // Mouth opening on the landmarks
+  mouth: {
+    openMar: 0.45,              // The mouth is open above this MAR
+    yawnMar: 0.65,              // Peak MAR a yawn must reach
+    minMs: 1500,                // Shorter openings are talking
+    maxMs: 10000,               // Longer openings are not yawns (e.g. bad landmarks)
+    confidentMar: 0.9,          // Peak MAR and opening time that give full confidence
+    confidentMs: 3000
+  },
+
+  // Fusion with the detector's Yawn class
+  fusion: {
+    agreeMs: 2000,              // Detector yawns this close to a landmark yawn agree with it
+    detectorMinConfidence: 0.4, // Detector predictions below this are ignored
+    strongConfidence: 0.85,     // Either source alone confirms a yawn at this confidence
+    episodeGapMs: 1000,         // Detector yawn frames this far apart are separate yawns
+    windowMs: 600000            // Yawn rate window (10 minutes)
+  }
+};
+
+/**
+ * Get yawn configuration
+ */
+export const getYawnConfig = () => YAWN_CONFIG;
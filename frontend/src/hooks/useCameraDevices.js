@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { CAMERA_CONFIG, buildVideoConstraints, getSupportedPresets } from '@/config/camera';
+import { getCameraSettings, saveCameraSettings } from '@/utils/cameraSettings';
+
+/**
+ * Camera selection for one camera role of a vehicle
+ * Lists video inputs, follows hot-plug events and remembers the chosen
+ * camera and per-device presets for the vehicle and role.
+ */
+export const useCameraDevices = (vehicleId, role = 'driver') => {
+  const [devices, setDevices] = useState([]);
+  const [settings, setSettings] = useState(() => getCameraSettings(vehicleId, role));
+  const [capabilities, setCapabilities] = useState(null);
+  const [error, setError] = useState(null);
+
+  /**
+   * Refresh the list of cameras
+   * Labels are empty until camera permission has been granted once
+   */
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      setError('Camera selection is not supported in this browser');
+      return;
+    }
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      const cameras = all
+        .filter(device => device.kind === 'videoinput' && device.deviceId)
+        .map((device, index) => ({
+          deviceId: device.deviceId,
+          label: device.label || `Camera ${index + 1}`
+        }));
+      setDevices(cameras);
+      setError(null);
+    } catch (err) {
+      console.error('Error listing cameras:', err);
+      setError(err.message);
+    }
+  }, []);
+
+  // Initial list and hot-plug events
+  useEffect(() => {
+    refreshDevices();
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+
+    const handleDeviceChange = () => {
+      console.log('📷 Camera devices changed');
+      refreshDevices();
+    };
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [refreshDevices]);
+
+  useEffect(() => {
+    setSettings(getCameraSettings(vehicleId, role));
+  }, [vehicleId, role]);
+
+  // Saved camera if it is plugged in (matched by id, then by label), else the first one
+  const savedDevice = useMemo(() => (
+    devices.find(device => device.deviceId === settings.deviceId) ||
+    devices.find(device => settings.deviceLabel && device.label === settings.deviceLabel) ||
+    null
+  ), [devices, settings.deviceId, settings.deviceLabel]);
+
+  const activeDevice = savedDevice || devices[0] || null;
+  const isFallback = Boolean(settings.deviceId) && !savedDevice;
+
+  const supportedPresets = useMemo(() => getSupportedPresets(capabilities), [capabilities]);
+  const savedPreset = activeDevice ? settings.presets[activeDevice.deviceId] : null;
+  const presetId = savedPreset && supportedPresets.includes(savedPreset)
+    ? savedPreset
+    : supportedPresets.includes(CAMERA_CONFIG.defaultPreset) ? CAMERA_CONFIG.defaultPreset : supportedPresets[0];
+
+  const videoConstraints = useMemo(
+    () => buildVideoConstraints(activeDevice?.deviceId ?? null, presetId),
+    [activeDevice?.deviceId, presetId]
+  );
+
+  /**
+   * Choose a camera for this vehicle
+   */
+  const selectDevice = useCallback((deviceId) => {
+    const device = devices.find(candidate => candidate.deviceId === deviceId);
+    if (!device) return;
+    setCapabilities(null);
+    setSettings(saveCameraSettings(vehicleId, role, { deviceId, deviceLabel: device.label }) || settings);
+  }, [devices, vehicleId, role, settings]);
+
+  /**
+   * Choose the resolution / frame-rate preset of the active camera
+   */
+  const selectPreset = useCallback((nextPresetId) => {
+    if (!activeDevice) return;
+    const presets = { ...settings.presets, [activeDevice.deviceId]: nextPresetId };
+    setSettings(saveCameraSettings(vehicleId, role, { presets }) || settings);
+  }, [activeDevice, vehicleId, role, settings]);
+
+  /**
+   * Call once a stream is live: labels become available and the
+   * device capabilities tell which presets it supports
+   */
+  const handleStreamStarted = useCallback((track) => {
+    setCapabilities(track?.getCapabilities?.() ?? null);
+    refreshDevices();
+
+    // Keep the stored label current (it may have been empty before permission)
+    const deviceId = track?.getSettings?.().deviceId;
+    setSettings(current => {
+      if (!deviceId || deviceId !== current.deviceId || !track.label || track.label === current.deviceLabel) {
+        return current;
+      }
+      return saveCameraSettings(vehicleId, role, { deviceLabel: track.label }) || current;
+    });
+  }, [refreshDevices, vehicleId, role]);
+
+  return {
+    // State
+    devices,
+    activeDevice,
+    isFallback,
+    presetId,
+    supportedPresets,
+    videoConstraints,
+    error,
+    
+    // Actions
+    selectDevice,
+    selectPreset,
+    refreshDevices,
+    handleStreamStarted
+  };
+};
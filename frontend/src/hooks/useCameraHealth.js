@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { cameraRegistry } from '@/services/cameraRegistry';
+import { cameraHealth } from '@/services/cameraHealth';
+import { sessionRecorder } from '@/services/sessionRecorder';
+import { getCameraHealthConfig } from '@/config/cameraHealth';
+import { getRoleAnalyzerSchedule } from '@/config/camera';
+import { getSchedulerConfig } from '@/config/scheduler';
+
+const CAMERA_HEALTH = getCameraHealthConfig();
+const HEALTH_SCHEDULE = getSchedulerConfig().analyzers.cameraHealth;
+const STALL_CHECK_MS = 1000;
+const EVENTS_KEPT = 10;
+
+/**
+ * Camera health of the attached cameras
+ * Registers the picture quality checks with the frame scheduler of every
+ * camera attached to the session and keeps the latest health per camera,
+ * plus the tamper and fault events raised.
+ */
+export const useCameraHealth = () => {
+  const [health, setHealth] = useState({});
+  const [events, setEvents] = useState([]);
+  const [lastEvent, setLastEvent] = useState(null);
+
+  // Follow the cameras being attached and detached
+  useEffect(() => {
+    if (!CAMERA_HEALTH.enabled) return;
+
+    const unregister = new Map();
+    const sync = (cameras) => {
+      const attached = new Set(cameras.map(camera => camera.cameraId));
+
+      cameras.forEach(({ cameraId, scheduler }) => {
+        const schedule = getRoleAnalyzerSchedule(cameraId, 'cameraHealth', HEALTH_SCHEDULE);
+        if (!schedule || unregister.has(cameraId)) return;
+        unregister.set(cameraId, scheduler.register('cameraHealth', {
+          ...schedule,
+          process: async (frame) => cameraHealth.process(frame)
+        }));
+      });
+
+      unregister.forEach((stop, cameraId) => {
+        if (attached.has(cameraId)) return;
+        stop();
+        unregister.delete(cameraId);
+        cameraHealth.remove(cameraId);
+        setHealth(prev => {
+          const next = { ...prev };
+          delete next[cameraId];
+          return next;
+        });
+      });
+    };
+
+    sync(cameraRegistry.getCameras());
+    const unsubscribe = cameraRegistry.subscribe(sync);
+    return () => {
+      unsubscribe();
+      unregister.forEach(stop => stop());
+    };
+  }, []);
+
+  // Latest health per camera, and the events it raises
+  useEffect(() => {
+    if (!CAMERA_HEALTH.enabled) return;
+
+    const unsubscribe = cameraHealth.subscribe(sample => {
+      setHealth(prev => ({ ...prev, [sample.cameraId]: sample }));
+      if (sample.onset) {
+        sessionRecorder.recordCameraEvent(sample.onset, sample.timestamp);
+        setLastEvent(sample.onset);
+        setEvents(prev => [sample.onset, ...prev].slice(0, EVENTS_KEPT));
+      }
+      if (sample.ended) {
+        const ended = sample.ended;
+        setEvents(prev => prev.map(event =>
+          event.cameraId === ended.cameraId && event.time === ended.time ? { ...ended, endedAt: sample.timestamp } : event
+        ));
+      }
+    });
+
+    // Frozen cameras stop delivering frames, so nothing else would notice them
+    const stallTimer = setInterval(() => cameraHealth.checkStalls(Date.now()), STALL_CHECK_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(stallTimer);
+    };
+  }, []);
+
+  return {
+    // State
+    health,
+    events,
+    lastEvent,
+
+    // Configuration
+    isEnabled: CAMERA_HEALTH.enabled
+  };
+};
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getClips, getClipBlob, deleteClip } from '@/utils/clipStore';
+import { telegramService } from '@/services/telegramService';
+import { ROBOFLOW_CONFIG } from '@/config/roboflow';
+import { getVehicleConfig } from '@/config/vehicle';
+
+const VEHICLE = getVehicleConfig();
+
+/**
+ * Recorded event clips
+ * Lists the stored clips and opens, deletes or sends them to Telegram
+ */
+export const useEventClips = () => {
+  const [clips, setClips] = useState([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sendingId, setSendingId] = useState(null);
+
+  const refreshClips = useCallback(async () => {
+    setClips(await getClips());
+    setIsLoading(false);
+  }, []);
+
+  // Stay in sync with clips saved by the recorder
+  useEffect(() => {
+    refreshClips();
+    window.addEventListener('clipsUpdated', refreshClips);
+    return () => window.removeEventListener('clipsUpdated', refreshClips);
+  }, [refreshClips]);
+
+  /**
+   * Object URL of a clip's video; the caller revokes it when done
+   */
+  const openClip = useCallback(async (id) => {
+    const blob = await getClipBlob(id);
+    return blob ? URL.createObjectURL(blob) : null;
+  }, []);
+
+  const removeClip = useCallback(async (id) => {
+    return await deleteClip(id);
+  }, []);
+
+  /**
+   * Send a clip to the Telegram chat with its event details
+   */
+  const sendClip = useCallback(async (id) => {
+    const clip = clips.find(existing => existing.id === id);
+    const blob = clip && await getClipBlob(id);
+    if (!blob) return false;
+
+    const label = ROBOFLOW_CONFIG.classes[clip.event.class]?.label ?? clip.event.class;
+    const caption = `🎬 ${label} - ${clip.cameraLabel}\n🚚 ${VEHICLE.name} ${VEHICLE.id}\n🕐 Time: ${new Date(clip.event.timestamp).toLocaleString()}`;
+    const extension = clip.mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+    setSendingId(id);
+    try {
+      await telegramService.sendVideo(caption, blob, `${clip.id}.${extension}`);
+      return true;
+    } catch (error) {
+      console.error('🎬 Failed to send clip:', error);
+      return false;
+    } finally {
+      setSendingId(null);
+    }
+  }, [clips]);
+
+  return {
+    // State
+    clips,
+    isLoading,
+    sendingId,
+
+    // Actions
+    openClip,
+    removeClip,
+    sendClip,
+    refreshClips
+  };
+};
@@ -1,8 +1,46 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { loadModelManifest } from '@/utils/modelCache';
+import { createFaceMeshRunner } from '@/services/faceMeshRunner';
+import { frameScheduler } from '@/services/frameScheduler';
+import { driverRoi } from '@/services/driverRoi';
+import { EyeMetricsAnalyzer } from '@/services/eyeMetricsAnalyzer';
+import { HeadPoseAnalyzer } from '@/services/headPoseAnalyzer';
+import { GazeAnalyzer } from '@/services/gazeAnalyzer';
+import { YawnAnalyzer } from '@/services/yawnAnalyzer';
+import { yawnFusion } from '@/services/yawnFusion';
+import { PresenceMonitor } from '@/services/presenceMonitor';
+import { driverSelector } from '@/services/driverSelector';
+import { sessionRecorder } from '@/services/sessionRecorder';
+import { scenarioPlayer } from '@/services/scenarioSimulator';
+import { getSchedulerConfig } from '@/config/scheduler';
+import { getDriverConfig } from '@/config/driver';
+import { getDrowsinessConfig } from '@/config/drowsiness';
+import { getGazeConfig } from '@/config/gaze';
+import { getDriverSelectionConfig } from '@/config/driverSelection';
+import { getDriverProfile, saveEyeCalibration } from '@/utils/driverProfiles';
+import { DEFAULT_EYE_PROFILE } from '@/utils/eyeMetrics';
+
+const EYE_SCHEDULE = getSchedulerConfig().analyzers.eyeMetrics;
+const DRIVER = getDriverConfig();
+const PERCLOS_CONFIG = getDrowsinessConfig().perclos;
+const HEAD_EVENTS_KEPT = 20;
+const GAZE_ENABLED = getGazeConfig().enabled;
+const MAX_FACES = getDriverSelectionConfig().maxFaces;
 
 /**
  * Real-time Eye Metrics Calculation Hook
- * Calculates EAR, Blink Count, and Blink Frequency from video feed
+ * Runs Face Mesh on the video feed; EAR, blinks, blink frequency and the
+ * drowsiness level come from the shared EyeMetricsAnalyzer, as do eye
+ * closures sorted into blinks, long blinks and microsleeps. The same landmarks
+ * give the head pose (HeadPoseAnalyzer): looking away, looking down and
+ * nodding. With gaze tracking enabled, Face Mesh also returns the iris points
+ * and GazeAnalyzer adds the gaze zone and eyes-off-road time. Mouth openings
+ * go to the shared yawnFusion, which cross-checks them with the detector's
+ * Yawn class; the confirmed yawn rate feeds the drowsiness level. Every frame,
+ * with or without a face, goes to the PresenceMonitor, so a missing driver is
+ * reported instead of the last face's values. Each trip starts
+ * with an eye calibration, whose result is kept on the driver's profile and
+ * used from the start of the next trip.
  */
 export const useEyeMetrics = () => {
   const [ear, setEar] = useState(0);
@@ -11,186 +49,71 @@ export const useEyeMetrics = () => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [error, setError] = useState(null);
   const [drowsinessLevel, setDrowsinessLevel] = useState('normal');
-  const [earHistory, setEarHistory] = useState([]);
+  const [perclos, setPerclos] = useState(null);
+  const [closureCounts, setClosureCounts] = useState({ longBlink: 0, microsleep: 0 });
+  const [lastClosure, setLastClosure] = useState(null);
+  const [microsleep, setMicrosleep] = useState(null);
+  const [headPose, setHeadPose] = useState(null);
+  const [headEvents, setHeadEvents] = useState([]);
+  const [gaze, setGaze] = useState(null);
+  const [longGlances, setLongGlances] = useState([]);
+  const [yawnCount, setYawnCount] = useState(0);
+  const [yawnRate, setYawnRate] = useState(0);
+  const [lastYawn, setLastYawn] = useState(null);
+  const [presence, setPresence] = useState(null);
+  const [lastFrame, setLastFrame] = useState(null);
+  const [isSimulating, setIsSimulating] = useState(scenarioPlayer.isRunning);
+  const [eyeProfile, setEyeProfile] = useState(() => getDriverProfile(DRIVER.id).eyeCalibration);
+  const [calibrationProgress, setCalibrationProgress] = useState(0);
 
   const faceMeshRef = useRef(null);
-  const lastEarRef = useRef(0);
-  const blinkHistoryRef = useRef([]);
+  const unregisterAnalyzerRef = useRef(null);
+  const analyzerRef = useRef(null);
+  if (!analyzerRef.current) {
+    analyzerRef.current = new EyeMetricsAnalyzer({ profile: eyeProfile ?? DEFAULT_EYE_PROFILE, calibrate: true });
+  }
+  const headPoseAnalyzerRef = useRef(null);
+  if (!headPoseAnalyzerRef.current) {
+    headPoseAnalyzerRef.current = new HeadPoseAnalyzer();
+  }
+  const gazeAnalyzerRef = useRef(null);
+  if (!gazeAnalyzerRef.current) {
+    gazeAnalyzerRef.current = new GazeAnalyzer();
+  }
+  const yawnAnalyzerRef = useRef(null);
+  if (!yawnAnalyzerRef.current) {
+    yawnAnalyzerRef.current = new YawnAnalyzer();
+  }
+  const presenceMonitorRef = useRef(null);
+  if (!presenceMonitorRef.current) {
+    presenceMonitorRef.current = new PresenceMonitor();
+  }
+  const boostUntilRef = useRef(0);
   const frameCountRef = useRef(0);
   const startTimeRef = useRef(Date.now());
-  const processingIntervalRef = useRef(null);
   const performanceRef = useRef({ fps: 0, lastFrameTime: 0 });
 
-  // Optimized thresholds for better performance
-  const EAR_THRESHOLD = 0.25;
-  const BLINK_FRAME_THRESHOLD = 2; // Reduced for faster detection
-  const BLINK_FREQUENCY_WINDOW = 60000; // 1 minute window
-  const PROCESSING_INTERVAL = 50; // Process every 50ms for better responsiveness
-  const EAR_SMOOTHING_FACTOR = 0.7; // For smoothing EAR values
+  const SUSPECT_CLOSURE_MS = 300; // Eyes closed longer than a normal blink
+  const BOOST_HOLD_MS = 10000; // Keep the higher analysis rate for 10s after a suspect closure
 
   /**
-   * Advanced EAR calculation using optimized landmark selection
-   * Based on research: "Real-Time Eye Blink Detection using Facial Landmarks"
-   */
-  const calculateEAR = useCallback((landmarks) => {
-    if (!landmarks || landmarks.length < 468) return 0;
-
-    // Optimized landmark selection for maximum accuracy
-    // Left eye landmarks (MediaPipe indices)
-    const leftEye = [
-      landmarks[33],   // Top of eye
-      landmarks[160],  // Bottom left
-      landmarks[158],  // Bottom right  
-      landmarks[133],  // Left corner
-      landmarks[153],  // Right corner
-      landmarks[144]     // Center
-    ];
-
-    // Right eye landmarks (MediaPipe indices)
-    const rightEye = [
-      landmarks[362],  // Top of eye
-      landmarks[385],  // Bottom left
-      landmarks[387],  // Bottom right
-      landmarks[263],  // Left corner
-      landmarks[373],  // Right corner
-      landmarks[380]     // Center
-    ];
-
-    // Calculate EAR for both eyes with error handling
-    const leftEAR = calculateEyeAspectRatio(leftEye);
-    const rightEAR = calculateEyeAspectRatio(rightEye);
-
-    // Return average EAR with validation
-    if (leftEAR === 0 || rightEAR === 0) return 0;
-    const avgEAR = (leftEAR + rightEAR) / 2;
-    
-    // Validate EAR range (typical range: 0.1 - 0.4)
-    return Math.max(0, Math.min(0.5, avgEAR));
-  }, []);
-
-  /**
-   * Optimized EAR calculation for a single eye
-   */
-  const calculateEyeAspectRatio = useCallback((eyeLandmarks) => {
-    if (eyeLandmarks.length < 6) return 0;
-
-    // Optimized calculation using only essential points
-    // Points: [top, bottom_left, bottom_right, left, right, center]
-    const [top, bottomLeft, bottomRight, left, right, center] = eyeLandmarks;
-
-    // Calculate vertical distances (eye opening)
-    const vertical1 = Math.sqrt(
-      Math.pow(top.x - bottomLeft.x, 2) + Math.pow(top.y - bottomLeft.y, 2)
-    );
-    const vertical2 = Math.sqrt(
-      Math.pow(top.x - bottomRight.x, 2) + Math.pow(top.y - bottomRight.y, 2)
-    );
-
-    // Calculate horizontal distance (eye width)
-    const horizontal = Math.sqrt(
-      Math.pow(left.x - right.x, 2) + Math.pow(left.y - right.y, 2)
-    );
-
-    // EAR formula with safety check
-    if (horizontal === 0) return 0;
-    const ear = (vertical1 + vertical2) / (2.0 * horizontal);
-    
-    // Clamp EAR to reasonable range
-    return Math.max(0, Math.min(1, ear));
-  }, []);
-
-  /**
-   * Advanced drowsiness detection using multiple metrics
-   * Based on research: "Driver Drowsiness Detection using Eye Aspect Ratio"
-   */
-  const detectDrowsiness = useCallback((currentEAR, blinkFreq) => {
-    const now = Date.now();
-    
-    // Update EAR history (keep last 30 seconds)
-    setEarHistory(prev => {
-      const thirtySecondsAgo = now - 30000;
-      const filtered = prev.filter(entry => entry.timestamp > thirtySecondsAgo);
-      return [...filtered, { ear: currentEAR, timestamp: now }];
-    });
-
-    // Calculate average EAR over last 30 seconds
-    const recentEARs = earHistory.filter(entry => entry.timestamp > now - 30000);
-    const avgEAR = recentEARs.length > 0 ? 
-      recentEARs.reduce((sum, entry) => sum + entry.ear, 0) / recentEARs.length : currentEAR;
-
-    // Drowsiness detection criteria
-    let drowsinessScore = 0;
-    
-    // 1. Low average EAR (eyes closing)
-    if (avgEAR < 0.2) drowsinessScore += 3;
-    else if (avgEAR < 0.25) drowsinessScore += 2;
-    else if (avgEAR < 0.3) drowsinessScore += 1;
-
-    // 2. Low blink frequency (drowsy people blink less)
-    if (blinkFreq < 10) drowsinessScore += 2;
-    else if (blinkFreq < 15) drowsinessScore += 1;
-
-    // 3. Current EAR very low (eyes closing)
-    if (currentEAR < 0.15) drowsinessScore += 2;
-    else if (currentEAR < 0.2) drowsinessScore += 1;
-
-    // Determine drowsiness level
-    let level = 'normal';
-    if (drowsinessScore >= 5) level = 'severe';
-    else if (drowsinessScore >= 3) level = 'moderate';
-    else if (drowsinessScore >= 1) level = 'mild';
-
-    setDrowsinessLevel(level);
-
-    // Log drowsiness detection
-    if (drowsinessScore > 0) {
-      console.log('😴 Drowsiness detected:', {
-        level,
-        score: drowsinessScore,
-        avgEAR: avgEAR.toFixed(3),
-        currentEAR: currentEAR.toFixed(3),
-        blinkFreq: blinkFreq.toFixed(1)
-      });
-    }
-  }, [earHistory]);
-
-  /**
-   * Initialize MediaPipe Face Mesh
+   * Initialize MediaPipe Face Mesh (in a worker when supported)
    */
   const initializeFaceMesh = useCallback(async () => {
     try {
-      const { FaceMesh } = await import('@mediapipe/face_mesh');
+      const manifest = await loadModelManifest();
       
-      const faceMesh = new FaceMesh({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
-        }
-      });
-
-      faceMesh.setOptions({
-        maxNumFaces: 1,
-        refineLandmarks: false, // Disable for better performance
+      // Assets are bundled with the app (see public/models/manifest.json)
+      const runner = await createFaceMeshRunner(manifest, {
+        maxNumFaces: MAX_FACES, // The driver is picked among them
+        refineLandmarks: GAZE_ENABLED, // Iris points, only needed for gaze tracking
         minDetectionConfidence: 0.7, // Higher confidence for better accuracy
         minTrackingConfidence: 0.7, // Higher tracking confidence
         staticImageMode: false // Real-time mode
       });
 
-      faceMesh.onResults((results) => {
-        if (results.multiFaceLandmarks && results.multiFaceLandmarks.length > 0) {
-          const landmarks = results.multiFaceLandmarks[0];
-          const currentEAR = calculateEAR(landmarks);
-          
-          setEar(currentEAR);
-          
-          // Detect blinks
-          detectBlink(currentEAR);
-          
-          // Update blink frequency
-          updateBlinkFrequency();
-        }
-      });
-
-      faceMeshRef.current = faceMesh;
+      console.log(`👁️ Face Mesh ready (${runner.inWorker ? 'worker' : 'main thread'})`);
+      faceMeshRef.current = runner;
       setIsInitialized(true);
       setError(null);
       
@@ -198,153 +121,217 @@ export const useEyeMetrics = () => {
       console.error('❌ Failed to initialize Face Mesh:', err);
       setError(`Failed to initialize Face Mesh: ${err.message}`);
     }
-  }, [calculateEAR]);
+  }, []);
 
   /**
-   * Advanced blink detection using multi-frame analysis
-   * Implements the algorithm from "Real-Time Eye Blink Detection using Facial Landmarks"
+   * Raise the eye analysis rate while drowsiness is suspected
+   * (eyes closed for longer than a normal blink)
    */
-  const detectBlink = useCallback((currentEAR) => {
-    const now = Date.now();
-    const wasBlinking = lastEarRef.current < EAR_THRESHOLD;
-    const isBlinking = currentEAR < EAR_THRESHOLD;
-
-    // Advanced blink detection with temporal analysis
-    if (isBlinking && !wasBlinking) {
-      // Start of potential blink - check temporal consistency
-      const lastBlink = blinkHistoryRef.current[blinkHistoryRef.current.length - 1];
-      
-      // Minimum time between blinks (prevent double counting)
-      if (!lastBlink || (now - lastBlink) > 200) {
-        // Additional validation: check if EAR drop is significant
-        const earDrop = lastEarRef.current - currentEAR;
-        if (earDrop > 0.05) { // Significant drop in EAR
-          blinkHistoryRef.current.push(now);
-          
-          // Update blink count immediately for real-time feedback
-          setBlinkCount(blinkHistoryRef.current.length);
-          
-          // Log blink detection for debugging
-          console.log('👁️ Blink detected:', {
-            ear: currentEAR.toFixed(3),
-            earDrop: earDrop.toFixed(3),
-            totalBlinks: blinkHistoryRef.current.length
-          });
-        }
-      }
+  const updateAnalysisRate = useCallback((closedMs, capturedAt) => {
+    if (closedMs >= SUSPECT_CLOSURE_MS) {
+      boostUntilRef.current = capturedAt + BOOST_HOLD_MS;
     }
 
-    // Advanced EAR smoothing with adaptive factor
-    const smoothingFactor = Math.abs(currentEAR - lastEarRef.current) > 0.1 ? 0.3 : EAR_SMOOTHING_FACTOR;
-    const smoothedEAR = (currentEAR * smoothingFactor) + (lastEarRef.current * (1 - smoothingFactor));
-    lastEarRef.current = smoothedEAR;
+    const isSuspected = capturedAt < boostUntilRef.current;
+    frameScheduler.setAnalyzerInterval(
+      'eyeMetrics',
+      isSuspected ? EYE_SCHEDULE.boostedIntervalMs : EYE_SCHEDULE.intervalMs
+    );
   }, []);
 
   /**
-   * Advanced blink frequency calculation with multiple time windows
+   * Publish a finished eye closure (blinks are only counted as blinks)
    */
-  const updateBlinkFrequency = useCallback(() => {
-    const now = Date.now();
-    const oneMinuteAgo = now - BLINK_FREQUENCY_WINDOW;
-    
-    // Filter blinks from last minute
-    const recentBlinks = blinkHistoryRef.current.filter(time => time > oneMinuteAgo);
-    blinkHistoryRef.current = recentBlinks;
-    
-    // Calculate frequency (blinks per minute) with validation
-    const frequency = recentBlinks.length > 0 ? 
-      (recentBlinks.length / BLINK_FREQUENCY_WINDOW) * 60000 : 0;
-    
-    // Clamp frequency to reasonable range (0-60 blinks per minute)
-    const clampedFrequency = Math.max(0, Math.min(60, frequency));
-    setBlinkFrequency(Math.round(clampedFrequency * 10) / 10);
-    
-    // Update total blink count
-    setBlinkCount(blinkHistoryRef.current.length);
-    
-    // Log frequency for debugging
-    if (recentBlinks.length > 0) {
-      console.log('👁️ Blink frequency updated:', {
-        frequency: clampedFrequency.toFixed(1) + ' blinks/min',
-        recentBlinks: recentBlinks.length,
-        totalBlinks: blinkHistoryRef.current.length
+  const applyClosure = useCallback((closure) => {
+    if (!closure || closure.type === 'blink') return;
+    setLastClosure(closure);
+    setClosureCounts(prev => ({ ...prev, [closure.type]: prev[closure.type] + 1 }));
+  }, []);
+
+  /**
+   * Publish an analyzer sample for a frame
+   */
+  const applySample = useCallback((sample, frame) => {
+    setEar(sample.ear);
+    setBlinkCount(sample.blinkCount);
+    setBlinkFrequency(sample.blinkFrequency);
+    setDrowsinessLevel(sample.drowsinessLevel);
+    setPerclos(sample.perclos);
+    setYawnRate(yawnFusion.getRate(frame.capturedAt));
+    setLastFrame({ id: frame.id, capturedAt: frame.capturedAt });
+
+    if (sample.calibrationProgress !== null) {
+      setCalibrationProgress(Math.floor(sample.calibrationProgress * 20) / 20);
+    }
+    if (sample.calibrated) {
+      setCalibrationProgress(null);
+      setEyeProfile(sample.calibrated);
+      // A simulated driver must not overwrite the real driver's calibration
+      if (!frame.simulated) {
+        saveEyeCalibration(DRIVER.id, sample.calibrated);
+      }
+    }
+
+    // Reported while the eyes are still closed, so the alert is immediate
+    if (sample.microsleep) {
+      console.warn('😴 Microsleep detected:', Math.round(sample.microsleep.duration) + 'ms');
+      setMicrosleep(sample.microsleep);
+    }
+    applyClosure(sample.closure);
+
+    if (sample.blinkDetected) {
+      console.log('👁️ Blink detected:', {
+        ear: sample.ear.toFixed(3),
+        blinksPerMinute: sample.blinkFrequency
       });
     }
-  }, []);
+
+    updateAnalysisRate(sample.closedMs, frame.capturedAt);
+  }, [updateAnalysisRate, applyClosure]);
 
   /**
-   * Optimized frame processing with performance monitoring
+   * Publish the driver presence of a frame; without a face the head pose is
+   * cleared rather than left at the last face's
    */
-  const processFrame = useCallback(async (videoElement) => {
-    if (!faceMeshRef.current || !videoElement) return;
+  const applyPresence = useCallback((landmarks, faceCount, frame) => {
+    const sample = presenceMonitorRef.current.update(landmarks, faceCount, frame.capturedAt);
+    setPresence(sample);
+    if (sample.escalation) {
+      console.warn(`🚫 Driver presence: ${sample.state} for ${Math.round(sample.duration / 1000)}s (${sample.escalation.level})`);
+    }
+    if (faceCount === 0) {
+      setHeadPose(null);
+      // Closed eyes are not assumed while the face is missing
+      applyClosure(analyzerRef.current.handleNoFace());
+    }
+  }, [applyClosure]);
 
-    try {
-      // Check if video is ready and has dimensions
-      if (videoElement.readyState < 2 || !videoElement.videoWidth || !videoElement.videoHeight) {
-        return; // Skip processing if video not ready
+  /**
+   * Handle landmarks returned by Face Mesh for a scheduled frame
+   * Only the face picked as the driver's is analyzed
+   */
+  const handleLandmarks = useCallback((multiFaceLandmarks, frame) => {
+    const { landmarks, faces: faceCount } = driverSelector.select(multiFaceLandmarks, frame.capturedAt);
+    sessionRecorder.recordLandmarks(frame.cameraId, frame.capturedAt, landmarks, faceCount);
+    applyPresence(landmarks, faceCount, frame);
+    if (!landmarks) return;
+
+    // Let the detector crop around the driver
+    driverRoi.updateFromLandmarks(landmarks, frame);
+
+    const aspectRatio = frame.width / frame.height;
+    const mouth = yawnAnalyzerRef.current.update(landmarks, frame.capturedAt, aspectRatio);
+    if (mouth.yawn) {
+      yawnFusion.addMouthYawn(mouth.yawn);
+    }
+
+    analyzerRef.current.setYawnRate(yawnFusion.getRate(frame.capturedAt));
+    applySample(analyzerRef.current.update(landmarks, frame.capturedAt), frame);
+
+    const headSample = headPoseAnalyzerRef.current.update(landmarks, frame.capturedAt, aspectRatio);
+    if (headSample) {
+      setHeadPose(headSample);
+      if (headSample.event) {
+        setHeadEvents(prev => [headSample.event, ...prev].slice(0, HEAD_EVENTS_KEPT));
       }
+    }
 
-      // Create optimized canvas with appropriate size
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      // Use video dimensions directly for better performance
-      canvas.width = videoElement.videoWidth;
-      canvas.height = videoElement.videoHeight;
-      
-      // Draw video frame to canvas
-      ctx.drawImage(videoElement, 0, 0, canvas.width, canvas.height);
-      
-      // Send to MediaPipe with error handling
-      await faceMeshRef.current.send({ image: canvas });
-      frameCountRef.current++;
-      
-      // Performance monitoring
-      const now = Date.now();
-      if (performanceRef.current.lastFrameTime > 0) {
-        const fps = 1000 / (now - performanceRef.current.lastFrameTime);
-        performanceRef.current.fps = fps;
+    gazeAnalyzerRef.current.setSeat(driverSelector.seat);
+    const gazeSample = gazeAnalyzerRef.current.update(landmarks, headSample, frame.capturedAt, aspectRatio);
+    if (gazeSample) {
+      setGaze(gazeSample);
+      if (gazeSample.onset) {
+        console.warn('👀 Eyes off road for over 2s:', gazeSample.onset.zone);
       }
-      performanceRef.current.lastFrameTime = now;
-      
-      // Update blink frequency every 10 frames for efficiency
-      if (frameCountRef.current % 10 === 0) {
-        updateBlinkFrequency();
+      if (gazeSample.event) {
+        setLongGlances(prev => [gazeSample.event, ...prev].slice(0, HEAD_EVENTS_KEPT));
       }
-    } catch (err) {
-      console.error('❌ Error processing frame:', err);
     }
-  }, [updateBlinkFrequency]);
+  }, [applySample, applyPresence]);
 
   /**
-   * Start eye metrics calculation
+   * Process a scheduled frame
+   * Only the bitmap copy happens here; landmarks run in the Face Mesh worker
+   */
+  const processFrame = useCallback(async (frame) => {
+    if (!faceMeshRef.current) return;
+
+    // Private copy so it can be transferred to the Face Mesh worker
+    const bitmap = await frame.transferableBitmap();
+    const { multiFaceLandmarks } = await faceMeshRef.current.process(bitmap);
+    handleLandmarks(multiFaceLandmarks, frame);
+    frameCountRef.current++;
+    
+    // Performance monitoring
+    const now = Date.now();
+    if (performanceRef.current.lastFrameTime > 0) {
+      const fps = 1000 / (now - performanceRef.current.lastFrameTime);
+      performanceRef.current.fps = fps;
+    }
+    performanceRef.current.lastFrameTime = now;
+  }, [handleLandmarks]);
+
+  /**
+   * Start eye metrics calculation on the shared frame scheduler
    */
   const startMetrics = useCallback((videoElement) => {
     if (!isInitialized || !videoElement) return;
     
     startTimeRef.current = Date.now();
     
-    // Start optimized frame processing
-    processingIntervalRef.current = setInterval(() => {
-      processFrame(videoElement);
-    }, PROCESSING_INTERVAL); // Process every 50ms for better responsiveness
+    if (!unregisterAnalyzerRef.current) {
+      unregisterAnalyzerRef.current = frameScheduler.register('eyeMetrics', {
+        ...EYE_SCHEDULE,
+        process: processFrame
+      });
+    }
+    frameScheduler.start(videoElement);
   }, [isInitialized, processFrame]);
 
   /**
    * Stop eye metrics calculation
    */
   const stopMetrics = useCallback(() => {
-    // Clear processing interval
-    if (processingIntervalRef.current) {
-      clearInterval(processingIntervalRef.current);
-      processingIntervalRef.current = null;
+    // Leave the frame scheduler
+    if (unregisterAnalyzerRef.current) {
+      unregisterAnalyzerRef.current();
+      unregisterAnalyzerRef.current = null;
     }
     
     setEar(0);
     setBlinkCount(0);
     setBlinkFrequency(0);
-    blinkHistoryRef.current = [];
-    lastEarRef.current = 0;
+    setDrowsinessLevel('normal');
+    setPerclos(null);
+    setClosureCounts({ longBlink: 0, microsleep: 0 });
+    setLastClosure(null);
+    setMicrosleep(null);
+    setHeadPose(null);
+    setHeadEvents([]);
+    setGaze(null);
+    setLongGlances([]);
+    setYawnCount(0);
+    setYawnRate(0);
+    setLastYawn(null);
+    setPresence(null);
+    setCalibrationProgress(0);
+    analyzerRef.current.reset();
+    headPoseAnalyzerRef.current.reset();
+    gazeAnalyzerRef.current.reset();
+    yawnAnalyzerRef.current.reset();
+    yawnFusion.reset();
+    presenceMonitorRef.current.reset();
+    driverSelector.reset();
+    boostUntilRef.current = 0;
+    driverRoi.reset();
+  }, []);
+
+  /**
+   * Learn the driver's eye profile again from the next frames
+   */
+  const recalibrate = useCallback(() => {
+    analyzerRef.current.recalibrate();
+    setCalibrationProgress(0);
   }, []);
 
   /**
@@ -355,27 +342,59 @@ export const useEyeMetrics = () => {
       ear: Math.round(ear * 1000) / 1000, // Round to 3 decimals
       blinkCount,
       blinkFrequency,
+      drowsinessLevel,
+      perclos,
+      closureCounts,
+      eyeProfile,
       isInitialized,
       error,
       performance: {
         fps: Math.round(performanceRef.current.fps * 10) / 10,
         frameCount: frameCountRef.current,
-        processingInterval: PROCESSING_INTERVAL
+        processingInterval: frameScheduler.getStats().analyzers.eyeMetrics?.intervalMs ?? EYE_SCHEDULE.intervalMs,
+        lastFrameId: lastFrame?.id ?? null
       }
     };
-  }, [ear, blinkCount, blinkFrequency, isInitialized, error]);
+  }, [ear, blinkCount, blinkFrequency, drowsinessLevel, perclos, closureCounts, eyeProfile, isInitialized, error, lastFrame]);
 
   // Initialize on mount
   useEffect(() => {
     initializeFaceMesh();
   }, [initializeFaceMesh]);
 
+  // Simulated EAR from the scenario simulator, in place of Face Mesh
+  useEffect(() => {
+    const unsubscribeSamples = scenarioPlayer.subscribe(sample => {
+      if (sample.kind !== 'eyes') return;
+      applyPresence(null, sample.ear === null ? 0 : 1, sample.frame);
+      if (sample.ear === null) return;
+      analyzerRef.current.setYawnRate(yawnFusion.getRate(sample.frame.capturedAt));
+      applySample(analyzerRef.current.updateEar(sample.ear, sample.frame.capturedAt), sample.frame);
+    });
+    const unsubscribeStatus = scenarioPlayer.subscribeStatus(status => {
+      setIsSimulating(status.isRunning);
+      if (!status.isRunning) stopMetrics();
+    });
+    return () => {
+      unsubscribeSamples();
+      unsubscribeStatus();
+    };
+  }, [applySample, applyPresence, stopMetrics]);
+
+  // Yawns confirmed from either source (a confident detector needs no landmarks)
+  useEffect(() => {
+    return yawnFusion.subscribe(yawn => {
+      setYawnCount(prev => prev + 1);
+      setLastYawn(yawn);
+    });
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (processingIntervalRef.current) {
-        clearInterval(processingIntervalRef.current);
-      }
+      unregisterAnalyzerRef.current?.();
+      faceMeshRef.current?.close();
+      faceMeshRef.current = null;
     };
   }, []);
 
@@ -384,13 +403,35 @@ export const useEyeMetrics = () => {
     ear,
     blinkCount,
     blinkFrequency,
+    drowsinessLevel,
+    perclos,
+    closureCounts,
+    lastClosure,
+    microsleep,
+    headPose,
+    headEvents,
+    gaze,
+    longGlances,
+    yawnCount,
+    yawnRate,
+    lastYawn,
+    presence,
+    lastFrame,
     isInitialized,
+    isSimulating,
+    eyeProfile,
+    calibrationProgress,
     error,
     
     // Actions
     processFrame,
     startMetrics,
     stopMetrics,
-    getMetricsData
+    recalibrate,
+    getMetricsData,
+
+    // Configuration
+    perclosWindowMs: PERCLOS_CONFIG.windowMs,
+    gazeEnabled: GAZE_ENABLED
   };
 };
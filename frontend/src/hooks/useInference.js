@@ -1,6 +1,22 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { getRoboflowConfig, validateConfig } from '@/config/roboflow';
-import { updateDetectionCounts, getDetectionStats } from '@/utils/detectionStorage';
+import { useState, useEffect, useRef, useCallback, createContext, useContext } from 'react';
+import { getRoboflowConfig } from '@/config/roboflow';
+import { getDetectorConfig, validateDetectorConfig } from '@/config/detector';
+import { createDetectorBackend } from '@/services/detectors';
+import { loadModelManifest } from '@/utils/modelCache';
+import { frameScheduler } from '@/services/frameScheduler';
+import { driverRoi, mapDetectionToFrame } from '@/services/driverRoi';
+import { cameraRegistry } from '@/services/cameraRegistry';
+import { sessionClock } from '@/services/sessionClock';
+import { clipRecorder } from '@/services/clipRecorder';
+import { sessionRecorder } from '@/services/sessionRecorder';
+import { scenarioPlayer } from '@/services/scenarioSimulator';
+import { yawnFusion } from '@/services/yawnFusion';
+import { cameraHealth } from '@/services/cameraHealth';
+import { driverSelector } from '@/services/driverSelector';
+import { getRoleAnalyzerSchedule } from '@/config/camera';
+import { getSchedulerConfig } from '@/config/scheduler';
+import { updateDetectionCounts, getDetectionStats, recordTracks } from '@/utils/detectionStorage';
+import { DetectionPipeline } from '@/services/detectionPipeline';
 
 // Suppress TensorFlow.js kernel registration warnings
 const originalWarn = console.warn;
@@ -19,13 +35,24 @@ console.warn = (...args) => {
 
 // Get configuration
 const ROBOFLOW_CONFIG = getRoboflowConfig();
+const DETECTOR_CONFIG = getDetectorConfig();
+const DETECTOR_SCHEDULE = getSchedulerConfig().analyzers.detector;
 const DETECTION_CLASSES = ROBOFLOW_CONFIG.classes;
+const MAX_DETECTION_EVENTS = 50; // Recent behaviour start/end events kept in state
+const PRIMARY_CAMERA = 'driver'; // Camera behind the dashboard counts and alerts
 
 /**
- * Custom hook for Roboflow Inference.js integration
- * Handles model initialization, real-time inference, and detection processing
+ * Shared inference context, provided once at app level by InferenceProvider
  */
-export const useInference = () => {
+export const InferenceContext = createContext(null);
+
+/**
+ * Inference engine for Roboflow Inference.js integration
+ * Handles model initialization, real-time inference, and detection processing.
+ * Owns the worker and the frame loop, so it must only be instantiated once
+ * (by InferenceProvider); components subscribe through useInference().
+ */
+export const useInferenceEngine = () => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState(null);
@@ -33,84 +60,27 @@ export const useInference = () => {
   const [detectionCounts, setDetectionCounts] = useState({});
   const [fps, setFps] = useState(0);
   const [storageStats, setStorageStats] = useState(null);
+  const [backendLabel, setBackendLabel] = useState(null);
+  const [detectionEvents, setDetectionEvents] = useState([]);
+  const [detectionsByCamera, setDetectionsByCamera] = useState({});
+  const [isSimulating, setIsSimulating] = useState(scenarioPlayer.isRunning);
   
-  const modelRef = useRef(null);
+  const backendRef = useRef(null);
+  const unsubscribeRef = useRef(null);
   const frameCountRef = useRef(0);
   const lastTimeRef = useRef(Date.now());
-  const animationFrameRef = useRef(null);
-  const isProcessingRef = useRef(false);
-  const frameSkipRef = useRef(0);
-  const targetFPS = 3; // Aggressively reduced to 3 FPS for much better performance
-  const maxFrameSkipRef = useRef(8); // Process every 8th frame maximum
+  const unregisterAnalyzersRef = useRef(new Map());
   const performanceRef = useRef({ slowFrames: 0, totalFrames: 0 });
   
-  // Real-time detection updates (no debouncing needed)
-  
-  // Frame-based prediction system
-  const frameHistoryRef = useRef([]);
-  const predictionFrames = 9; // Analyze last 9 frames for prediction
-  const confidenceThreshold = 0.3; // Lowered confidence threshold for more detections
+  // Cross-frame tracking and per-class temporal smoothing of raw detections, per camera
+  const pipelinesRef = useRef(new Map());
 
-  /**
-   * Analyze frame history to determine stable predictions
-   */
-  const analyzeFrameHistory = useCallback((frameHistory) => {
-    if (frameHistory.length < 3) {
-      // Not enough frames for prediction, return current detections
-      return frameHistory[frameHistory.length - 1]?.detections || [];
+  const getPipeline = useCallback((cameraId) => {
+    if (!pipelinesRef.current.has(cameraId)) {
+      pipelinesRef.current.set(cameraId, new DetectionPipeline());
     }
-
-    // Count occurrences of each class across frames
-    const classCounts = {};
-    const classConfidences = {};
-    
-    frameHistory.forEach(frame => {
-      frame.detections.forEach(detection => {
-        const className = detection.class;
-        classCounts[className] = (classCounts[className] || 0) + 1;
-        
-        if (!classConfidences[className]) {
-          classConfidences[className] = [];
-        }
-        classConfidences[className].push(detection.confidence);
-      });
-    });
-
-    // Calculate average confidence for each class
-    const classAvgConfidence = {};
-    Object.keys(classConfidences).forEach(className => {
-      const confidences = classConfidences[className];
-      classAvgConfidence[className] = confidences.reduce((sum, conf) => sum + conf, 0) / confidences.length;
-    });
-
-    // Find classes that appear in at least 30% of frames with good confidence (lowered threshold)
-    const stableClasses = Object.keys(classCounts).filter(className => {
-      const frequency = classCounts[className] / frameHistory.length;
-      const avgConfidence = classAvgConfidence[className];
-      return frequency >= 0.3 && avgConfidence >= confidenceThreshold;
-    });
-
-    // Create stable predictions
-    const stablePredictions = stableClasses.map(className => ({
-      id: `stable_${className}_${Date.now()}`,
-      class: className,
-      confidence: classAvgConfidence[className],
-      bbox: { x: 0, y: 0, width: 0, height: 0 }, // Will be updated by latest detection
-      timestamp: Date.now(),
-      isStable: true
-    }));
-
-    // Update bbox with latest detection if available
-    const latestFrame = frameHistory[frameHistory.length - 1];
-    stablePredictions.forEach(prediction => {
-      const latestDetection = latestFrame.detections.find(d => d.class === prediction.class);
-      if (latestDetection) {
-        prediction.bbox = latestDetection.bbox;
-      }
-    });
-
-    return stablePredictions;
-  }, [confidenceThreshold]);
+    return pipelinesRef.current.get(cameraId);
+  }, []);
 
   /**
    * Load initial detection data from storage
@@ -126,7 +96,7 @@ export const useInference = () => {
   }, []);
 
   /**
-   * Initialize the Roboflow model
+   * Initialize the configured detector backend
    */
   const initializeModel = useCallback(async () => {
     if (isInitialized || isLoading) return;
@@ -139,223 +109,254 @@ export const useInference = () => {
     
     try {
       // Validate configuration first
-      const validation = validateConfig(ROBOFLOW_CONFIG);
+      const validation = validateDetectorConfig(DETECTOR_CONFIG);
       if (!validation.isValid) {
         throw new Error(validation.errors.join(', '));
       }
       
-      // Set TensorFlow.js backend to CPU to avoid WebGL issues
-      const tf = await import('@tensorflow/tfjs');
-      
-      // Force CPU backend and disable WebGL with aggressive optimizations
-      tf.env().set('WEBGL_VERSION', 0);
-      tf.env().set('WEBGL_CPU_FORWARD', true);
-      tf.env().set('WEBGL_PACK', false); // Disable packing for better performance
-      tf.env().set('WEBGL_FORCE_F16_TEXTURES', false); // Use FP32 for better accuracy
-      tf.env().set('WEBGL_DELETE_TEXTURE_THRESHOLD', 0);
-      await tf.setBackend('cpu');
-      await tf.ready();
-      
-      console.log('🔧 TensorFlow backend optimized for CPU performance');
-      
-      // Dynamic import to avoid SSR issues
-      const inferenceModule = await import('inferencejs');
-      
-      
-      // Handle different export formats
-      let Inference;
-      if (inferenceModule.InferenceEngine) {
-        Inference = inferenceModule.InferenceEngine;
-      } else if (inferenceModule.default) {
-        Inference = inferenceModule.default;
-      } else if (inferenceModule.Inference) {
-        Inference = inferenceModule.Inference;
-      } else if (typeof inferenceModule === 'function') {
-        Inference = inferenceModule;
-      } else {
-        console.error('❌ Available exports:', Object.keys(inferenceModule));
-        throw new Error('Could not find Inference class in inferencejs module');
-      }
-      
+      const manifest = await loadModelManifest();
+      const backend = createDetectorBackend(DETECTOR_CONFIG, ROBOFLOW_CONFIG, manifest);
+      await backend.load();
       
-      
-      // Initialize the model
-      const model = new Inference();
-      
-      // Start the worker with the model
-      const workerId = await model.startWorker(
-        ROBOFLOW_CONFIG.modelId,
-        1, // version
-        ROBOFLOW_CONFIG.apiKey
-      );
-      
-      modelRef.current = { model, workerId };
+      backendRef.current = backend;
+      setBackendLabel(backend.label);
       setIsInitialized(true);
       setIsLoading(false);
       
-      
+      console.log(`🧠 Detector backend ready: ${backend.label}`);
     } catch (err) {
-      console.error('❌ Failed to initialize Roboflow model:', err);
+      console.error('❌ Failed to initialize detector backend:', err);
       setError(`Failed to initialize model: ${err.message}`);
       setIsLoading(false);
     }
-  }, [isInitialized, isLoading]);
+  }, [isInitialized, isLoading, loadInitialData]);
 
   /**
-   * Run inference on a video frame
+   * Process a batch of detection events from any backend
+   * @param frame - Scheduled source frame (null for push backends, which feed the driver camera)
    */
-  const runInference = useCallback(async (videoElement) => {
-    if (!modelRef.current || !videoElement || isProcessingRef.current) {
-      return;
-    }
+  const processDetections = useCallback((rawPredictions, frame = null) => {
+    const cameraId = frame?.cameraId ?? PRIMARY_CAMERA;
+    const isPrimary = cameraId === PRIMARY_CAMERA;
 
-    // Aggressive frame skipping for better performance
-    frameSkipRef.current++;
-    if (frameSkipRef.current % maxFrameSkipRef.current !== 0) { // Process every 8th frame
-      return;
-    }
+    // On the driver camera only the selected driver's detections count (not a passenger's)
+    const predictions = isPrimary && frame ? driverSelector.filterDetections(rawPredictions, frame) : rawPredictions;
+    sessionRecorder.recordDetections(cameraId, frame?.capturedAt ?? Date.now(), predictions);
+    const { detections: trackedPredictions, events, ended } = getPipeline(cameraId).process(predictions, frame);
 
-    isProcessingRef.current = true;
-    const startTime = performance.now();
+    // Detections on a camera whose picture fails the health checks are kept but marked
+    const stablePredictions = cameraHealth.isReliable(cameraId)
+      ? trackedPredictions
+      : trackedPredictions.map(detection => ({ ...detection, lowReliability: true }));
 
-    try {
-      // Create CVImage directly from video element (simplest approach)
-      const { CVImage } = await import('inferencejs');
-      const cvImage = new CVImage(videoElement);
-      
-      // Run inference with CVImage
-      const predictions = await modelRef.current.model.infer(
-        modelRef.current.workerId,
-        cvImage
-      );
-      
-      // Process predictions
-      const processedDetections = predictions.map(prediction => ({
-        id: Math.random().toString(36).substr(2, 9),
-        class: prediction.class,
-        confidence: prediction.confidence,
-        bbox: {
-          x: prediction.x,
-          y: prediction.y,
-          width: prediction.width,
-          height: prediction.height
-        },
-        timestamp: Date.now()
-      }));
+    // Update detections with stable predictions
+    setDetectionsByCamera(prev => ({ ...prev, [cameraId]: stablePredictions }));
+    clipRecorder.setDetections(cameraId, stablePredictions);
+    if (isPrimary) {
+      setDetections(stablePredictions);
+    }
 
-      // Add to frame history for prediction analysis
-      frameHistoryRef.current.push({
-        detections: processedDetections,
-        timestamp: Date.now()
+    // Events of every camera share one timeline on the session clock
+    if (events.length > 0) {
+      const timelineEvents = events.map(event => ({
+        ...event,
+        cameraId,
+        sessionTime: sessionClock.elapsed(event.timestamp)
+      }));
+      timelineEvents.forEach(event => {
+        console.log(`🔔 [${cameraId}] ${event.class} ${event.type}`, event.duration ? `(${event.duration}ms)` : '');
       });
+      setDetectionEvents(prev => [...prev, ...timelineEvents].slice(-MAX_DETECTION_EVENTS));
+      clipRecorder.handleEvents(timelineEvents);
+    }
+    
+    // Keep a record of every confirmed track once it ends
+    const finished = ended.filter(track => track.confirmed);
+    if (finished.length > 0) {
+      recordTracks(finished.map(track => ({ ...track, cameraId })));
+    }
 
-      // Keep only last 9 frames
-      if (frameHistoryRef.current.length > predictionFrames) {
-        frameHistoryRef.current.shift();
-      }
+    // Dashboard counts and FPS describe the driver camera
+    if (!isPrimary) return;
 
-      // Analyze frame history for stable predictions
-      const stablePredictions = analyzeFrameHistory(frameHistoryRef.current);
-      
-      // Update detections with stable predictions
-      setDetections(stablePredictions);
+    // The detector's Yawn class is cross-checked with the mouth landmarks
+    yawnFusion.addDetections(predictions, frame?.capturedAt ?? Date.now());
+
+    // Update detection counts in real-time
+    if (stablePredictions.length > 0) {
+      const newDetections = {};
+      stablePredictions.forEach(detection => {
+        const className = detection.class;
+        newDetections[className] = (newDetections[className] || 0) + 1;
+      });
       
-      // Update detection counts in real-time
-      if (stablePredictions.length > 0) {
-        const newDetections = {};
-        stablePredictions.forEach(detection => {
-          const className = detection.class;
-          newDetections[className] = (newDetections[className] || 0) + 1;
-        });
-        
-        try {
-          // Update storage immediately for real-time updates
-          const success = updateDetectionCounts(newDetections);
-          if (success) {
-            // Get updated stats from storage
-            const stats = getDetectionStats();
-            setStorageStats(stats);
-            setDetectionCounts(stats.detectionCounts);
-            console.log('💾 Real-time detection update:', stats.detectionCounts);
-          }
-        } catch (err) {
-          console.error('Error updating detection storage:', err);
+      try {
+        // Update storage immediately for real-time updates
+        const success = updateDetectionCounts(newDetections);
+        if (success) {
+          // Get updated stats from storage
+          const stats = getDetectionStats();
+          setStorageStats(stats);
+          setDetectionCounts(stats.detectionCounts);
+          console.log('💾 Real-time detection update:', stats.detectionCounts);
         }
+      } catch (err) {
+        console.error('Error updating detection storage:', err);
       }
-      
-      // Calculate FPS
-      frameCountRef.current++;
-      const now = Date.now();
-      if (now - lastTimeRef.current >= 1000) {
-        setFps(Math.round((frameCountRef.current * 1000) / (now - lastTimeRef.current)));
-        frameCountRef.current = 0;
-        lastTimeRef.current = now;
-      }
-      
-      const endTime = performance.now();
-      const processingTime = endTime - startTime;
-      
-      // Update performance tracking
-      performanceRef.current.totalFrames++;
-      if (processingTime > 150) {
-        performanceRef.current.slowFrames++;
-      }
-      
-      // Adaptive frame skipping based on performance
-      if (processingTime > 200) {
-        maxFrameSkipRef.current = Math.min(maxFrameSkipRef.current + 1, 15); // Increase skip if very slow
-      } else if (processingTime < 50 && maxFrameSkipRef.current > 3) {
-        maxFrameSkipRef.current = Math.max(maxFrameSkipRef.current - 1, 3); // Decrease skip if fast
-      }
-      
-    } catch (err) {
-      console.error('❌ Inference error:', err);
+    }
+    
+    // Calculate FPS
+    frameCountRef.current++;
+    const now = Date.now();
+    if (now - lastTimeRef.current >= 1000) {
+      setFps(Math.round((frameCountRef.current * 1000) / (now - lastTimeRef.current)));
+      frameCountRef.current = 0;
+      lastTimeRef.current = now;
+    }
+  }, [getPipeline]);
+
+  /**
+   * Run inference on a scheduled frame (pull backends)
+   * Rate and back-off are handled by the frame scheduler
+   */
+  const runInference = useCallback(async (frame) => {
+    if (!backendRef.current) return;
+
+    const startTime = performance.now();
+
+    // Driver-centred crop on the driver camera, otherwise a full-frame copy;
+    // either can be transferred to the detector worker
+    const { bitmap, transform } = frame.cameraId === PRIMARY_CAMERA
+      ? await driverRoi.cropFrame(frame)
+      : { bitmap: await frame.transferableBitmap(), transform: null };
+    try {
+      const predictions = await backendRef.current.detect(bitmap);
+      processDetections(predictions.map(prediction => mapDetectionToFrame(prediction, transform)), frame);
     } finally {
-      isProcessingRef.current = false;
+      // No-op when the bitmap was transferred to a worker
+      bitmap.close();
     }
-  }, []);
+
+    // Update performance tracking
+    performanceRef.current.totalFrames++;
+    if (performance.now() - startTime > DETECTOR_SCHEDULE.budgetMs) {
+      performanceRef.current.slowFrames++;
+    }
+  }, [processDetections]);
 
   /**
-   * Start real-time inference loop
+   * Start real-time inference on a camera's frame scheduler
+   * @param videoElement - Playing video of the camera
+   * @param cameraId - Camera role; the detector only runs where the role enables it
    */
-  const startInference = useCallback((videoElement) => {
+  const startInference = useCallback((videoElement, cameraId = PRIMARY_CAMERA) => {
     if (!videoElement || !isInitialized) return;
 
-    const inferenceLoop = () => {
-      if (videoElement.readyState >= 2) { // HAVE_CURRENT_DATA
-        runInference(videoElement);
-      }
-      animationFrameRef.current = requestAnimationFrame(inferenceLoop);
-    };
+    const schedule = getRoleAnalyzerSchedule(cameraId, 'detector', DETECTOR_SCHEDULE);
+    if (!schedule) return;
+
+    // Push backends deliver detections on their own, no frames needed
+    const backend = backendRef.current;
+    if (backend.mode === 'push') {
+      if (cameraId !== PRIMARY_CAMERA || unsubscribeRef.current) return;
+      unsubscribeRef.current = backend.subscribe(processDetections);
+      backend.start();
+      console.log(`🚀 Subscribed to ${backend.label}`);
+      return;
+    }
 
-    // Start the loop
-    animationFrameRef.current = requestAnimationFrame(inferenceLoop);
-    console.log('🚀 Started real-time inference loop');
-  }, [isInitialized, runInference]);
+    const scheduler = cameraRegistry.getScheduler(cameraId);
+    if (!unregisterAnalyzersRef.current.has(cameraId)) {
+      unregisterAnalyzersRef.current.set(cameraId, scheduler.register('detector', {
+        ...schedule,
+        process: runInference
+      }));
+      console.log(`🚀 Detector registered with the ${cameraId} frame scheduler`);
+    }
+    scheduler.start(videoElement);
+  }, [isInitialized, runInference, processDetections]);
 
   /**
-   * Stop inference loop
+   * Stop inference on one camera, or on all cameras when none is given
    */
-  const stopInference = useCallback(() => {
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
+  const stopInference = useCallback((cameraId) => {
+    const cameraIds = cameraId
+      ? [cameraId]
+      : Array.from(new Set([PRIMARY_CAMERA, ...unregisterAnalyzersRef.current.keys()]));
+
+    cameraIds.forEach(id => {
+      unregisterAnalyzersRef.current.get(id)?.();
+      unregisterAnalyzersRef.current.delete(id);
+
+      const pipeline = pipelinesRef.current.get(id);
+      if (pipeline) {
+        recordTracks(pipeline.getTracks().filter(track => track.confirmed).map(track => ({ ...track, cameraId: id })));
+        pipeline.reset();
+      }
+    });
+
+    setDetectionsByCamera(prev => {
+      const next = { ...prev };
+      cameraIds.forEach(id => delete next[id]);
+      return next;
+    });
+
+    if (cameraIds.includes(PRIMARY_CAMERA)) {
+      if (unsubscribeRef.current) {
+        unsubscribeRef.current();
+        unsubscribeRef.current = null;
+        backendRef.current?.stop();
+      }
+      setDetections([]);
+      setDetectionCounts({});
     }
-    setDetections([]);
-    setDetectionCounts({});
     
-    console.log('🛑 Stopped inference loop');
+    console.log(`🛑 Stopped inference (${cameraIds.join(', ')})`);
   }, []);
 
 
+  /**
+   * Initialize the model once when the engine mounts
+   */
+  useEffect(() => {
+    initializeModel();
+  }, []);
+
+  /**
+   * Keep rolling event-clip recorders on the attached cameras
+   */
+  useEffect(() => {
+    clipRecorder.start();
+    return () => clipRecorder.stop();
+  }, []);
+
+  /**
+   * Simulated detections from the scenario simulator take the place of the
+   * driver camera; its state is cleared when the scenario stops
+   */
+  useEffect(() => {
+    const unsubscribeSamples = scenarioPlayer.subscribe(sample => {
+      if (sample.kind === 'detections') processDetections(sample.predictions, sample.frame);
+    });
+    const unsubscribeStatus = scenarioPlayer.subscribeStatus(status => {
+      setIsSimulating(status.isRunning);
+      if (!status.isRunning) stopInference(PRIMARY_CAMERA);
+    });
+    return () => {
+      unsubscribeSamples();
+      unsubscribeStatus();
+    };
+  }, [processDetections, stopInference]);
+
   /**
    * Cleanup on unmount
    */
   useEffect(() => {
     return () => {
       stopInference();
-      if (modelRef.current) {
-        modelRef.current.dispose?.();
+      if (backendRef.current) {
+        backendRef.current.dispose();
+        backendRef.current = null;
       }
       // Cleanup completed
     };
@@ -397,14 +398,16 @@ export const useInference = () => {
   const getPerformanceStats = useCallback(() => {
     const { slowFrames, totalFrames } = performanceRef.current;
     const slowFramePercentage = totalFrames > 0 ? (slowFrames / totalFrames * 100).toFixed(1) : 0;
+    const schedule = frameScheduler.getStats().analyzers.detector;
     return {
       totalFrames,
       slowFrames,
       slowFramePercentage: `${slowFramePercentage}%`,
-      currentFrameSkip: maxFrameSkipRef.current,
-      targetFPS
+      currentIntervalMs: schedule?.intervalMs ?? DETECTOR_SCHEDULE.intervalMs,
+      targetFPS: Math.round(1000 / DETECTOR_SCHEDULE.intervalMs),
+      roi: driverRoi.getRegion()
     };
-  }, [targetFPS]);
+  }, []);
 
   return {
     // State
@@ -413,7 +416,11 @@ export const useInference = () => {
     error,
     detections,
     detectionCounts,
+    detectionEvents,
+    detectionsByCamera,
     fps,
+    backendLabel,
+    isSimulating,
     
     // Actions
     initializeModel,
@@ -428,6 +435,18 @@ export const useInference = () => {
     
     // Configuration
     config: ROBOFLOW_CONFIG,
+    detectorConfig: DETECTOR_CONFIG,
     classes: DETECTION_CLASSES
   };
 };
+
+/**
+ * Subscribe to the shared inference engine
+ */
+export const useInference = () => {
+  const context = useContext(InferenceContext);
+  if (!context) {
+    throw new Error('useInference must be used within an InferenceProvider');
+  }
+  return context;
+};
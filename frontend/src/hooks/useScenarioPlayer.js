@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { scenarioPlayer } from '@/services/scenarioSimulator';
+import { cameraRegistry } from '@/services/cameraRegistry';
+import { getSimulatorConfig } from '@/config/simulator';
+import {
+  getScenarios,
+  saveScenario as storeScenario,
+  deleteScenario as removeScenario,
+  exportScenario,
+  importScenario
+} from '@/utils/scenarioStorage';
+
+const SIMULATOR_CONFIG = getSimulatorConfig();
+const STATUS_POLL_MS = 250;
+
+/**
+ * Scenario simulator controls: the scenario library and the shared player
+ * that drives the dashboard with simulated detections and eye metrics
+ */
+export const useScenarioPlayer = () => {
+  const [scenarios, setScenarios] = useState(getScenarios);
+  const [status, setStatus] = useState(() => scenarioPlayer.getStatus());
+  const [error, setError] = useState(null);
+
+  // Scenario library
+  useEffect(() => {
+    const handleUpdate = () => setScenarios(getScenarios());
+    window.addEventListener('scenariosUpdated', handleUpdate);
+    return () => window.removeEventListener('scenariosUpdated', handleUpdate);
+  }, []);
+
+  // Start/stop from anywhere in the app
+  useEffect(() => scenarioPlayer.subscribeStatus(setStatus), []);
+
+  // Refresh the play position while running
+  useEffect(() => {
+    if (!status.isRunning) return;
+    const interval = setInterval(() => setStatus(scenarioPlayer.getStatus()), STATUS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [status.isRunning]);
+
+  /**
+   * Play a scenario through the live pipeline
+   * Cameras must be stopped first, so simulated and real frames never mix
+   */
+  const startScenario = useCallback((scenario, options) => {
+    if (cameraRegistry.getCameras().length > 0) {
+      setError('Stop the cameras before starting a simulation');
+      return false;
+    }
+
+    try {
+      scenarioPlayer.start(scenario, options);
+      setError(null);
+      return true;
+    } catch (err) {
+      console.error('❌ Failed to start scenario:', err);
+      setError(err.message);
+      return false;
+    }
+  }, []);
+
+  const stopScenario = useCallback(() => {
+    scenarioPlayer.stop();
+  }, []);
+
+  const saveScenario = useCallback((scenario) => {
+    const success = storeScenario(scenario);
+    if (!success) setError('Failed to save scenario');
+    return success;
+  }, []);
+
+  const deleteScenario = useCallback((id) => {
+    removeScenario(id);
+  }, []);
+
+  /**
+   * Download a scenario as a JSON file
+   */
+  const downloadScenario = useCallback((scenario) => {
+    const url = URL.createObjectURL(new Blob([exportScenario(scenario)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${scenario.name.replace(/[^\w-]+/g, '_') || scenario.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  /**
+   * Load and save a scenario exported from this page
+   * @returns {Promise<Object | null>} The imported scenario
+   */
+  const uploadScenario = useCallback(async (file) => {
+    try {
+      const scenario = importScenario(await file.text());
+      storeScenario(scenario);
+      setError(null);
+      return scenario;
+    } catch (err) {
+      console.error('❌ Failed to import scenario:', err);
+      setError(`Failed to import scenario: ${err.message}`);
+      return null;
+    }
+  }, []);
+
+  return {
+    // State
+    scenarios,
+    status,
+    error,
+
+    // Actions
+    startScenario,
+    stopScenario,
+    saveScenario,
+    deleteScenario,
+    downloadScenario,
+    uploadScenario,
+
+    // Configuration
+    speeds: SIMULATOR_CONFIG.speeds
+  };
+};
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { sessionRecorder } from '@/services/sessionRecorder';
+
+const STATUS_POLL_MS = 1000;
+
+/**
+ * Save the raw detector and FaceMesh output of a live session as a JSON
+ * file, for replay on the Video analysis page
+ */
+export const useSessionRecording = () => {
+  const [status, setStatus] = useState(() => sessionRecorder.getStatus());
+  const [lastRecording, setLastRecording] = useState(null);
+
+  // Refresh duration and frame count while recording
+  useEffect(() => {
+    if (!status.isRecording) return;
+    const interval = setInterval(() => setStatus(sessionRecorder.getStatus()), STATUS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [status.isRecording]);
+
+  /**
+   * Download a recording as a JSON file
+   */
+  const downloadRecording = useCallback((recording) => {
+    if (!recording) return;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(recording)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${recording.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const startRecording = useCallback((detector) => {
+    sessionRecorder.start({ detector });
+    setStatus(sessionRecorder.getStatus());
+  }, []);
+
+  /**
+   * Stop recording and download the result
+   */
+  const stopRecording = useCallback(() => {
+    const recording = sessionRecorder.stop();
+    setStatus(sessionRecorder.getStatus());
+    if (recording) {
+      setLastRecording({ id: recording.id, duration: recording.duration, frames: recording.frames.length });
+      downloadRecording(recording);
+    }
+    return recording;
+  }, [downloadRecording]);
+
+  return {
+    // State
+    ...status,
+    lastRecording,
+
+    // Actions
+    startRecording,
+    stopRecording
+  };
+};
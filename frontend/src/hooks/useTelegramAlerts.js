@@ -1,19 +1,49 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { telegramService } from '@/services/telegramService';
+import { AlertRuleSet } from '@/services/alertRules';
+import { snapshotService } from '@/services/snapshotService';
+import { CAMERA_ROLES } from '@/config/camera';
 
 /**
  * Hook for managing Telegram alerts based on detection data
+ * detectionData holds the tracked detections from useInference,
+ * detectionsByCamera those of every attached camera (for the snapshots),
+ * driverState the driver's eye and head state from useEyeMetrics: perclos,
+ * microsleep (the latest microsleep), headPose (the latest head pose sample)
+ * and presence (the latest driver presence sample); cameraEvent is the latest
+ * camera tamper or fault event from useCameraHealth.
+ * Which alerts are due is decided by an AlertRuleSet, the same rules session
+ * replay runs on recorded sessions
  */
-export const useTelegramAlerts = (detectionData, detectionCounts, concentration, videoElement) => {
+export const useTelegramAlerts = (detectionData, detectionCounts, concentration, videoElement, detectionsByCamera = {}, driverState = {}, cameraEvent = null) => {
+  const { perclos = null, microsleep = null, headPose = null, presence = null } = driverState;
   const [isEnabled, setIsEnabled] = useState(false);
   const [lastAlertTimes, setLastAlertTimes] = useState({});
   const [alertStatus, setAlertStatus] = useState({});
   const alertHistoryRef = useRef([]);
   
-  // State tracking for persistent dangerous behaviors (10-second confirmation)
-  const [dangerousStateStart, setDangerousStateStart] = useState({});
-  const [lastDetectionCounts, setLastDetectionCounts] = useState({});
-  const [alertSentForState, setAlertSentForState] = useState({});
+  // Alert rules shared with session replay; they remember what already alerted
+  const rulesRef = useRef(null);
+  if (!rulesRef.current) {
+    rulesRef.current = new AlertRuleSet();
+  }
+
+  // Latest frame sources and detections, read when an alert snapshot is taken
+  const snapshotSourceRef = useRef({ detectionData, detectionsByCamera, videoElement });
+  useEffect(() => {
+    snapshotSourceRef.current = { detectionData, detectionsByCamera, videoElement };
+  }, [detectionData, detectionsByCamera, videoElement]);
+
+  // Snapshot every attached camera with its detection boxes; without
+  // registered cameras, fall back to the dashboard video element
+  const captureSnapshots = useCallback(async () => {
+    const { detectionData, detectionsByCamera, videoElement } = snapshotSourceRef.current;
+    const frames = await snapshotService.captureCameras({ ...detectionsByCamera, driver: detectionData });
+    if (frames.length > 0) return frames;
+
+    const blob = await snapshotService.capture(videoElement, { detections: detectionData });
+    return blob ? [{ label: 'Camera', blob }] : null;
+  }, []);
 
   // Initialize Telegram service
   useEffect(() => {
@@ -34,324 +64,242 @@ export const useTelegramAlerts = (detectionData, detectionCounts, concentration,
     initializeTelegram();
   }, []);
 
-
-  // Check for sleep detection
-  const checkSleepDetection = useCallback(async (detectionData) => {
-    console.log('😴 Checking sleep detection:', detectionData);
-    
+  // Check for dangerous behaviors
+  // A behaviour is persistent once its smoothed state has been active for 10 seconds;
+  // each state alerts at most once. The rules mark it when deciding, so the
+  // detection updates that arrive during the snapshot and upload do not repeat it.
+  const checkDangerousBehaviors = useCallback(async (tracks) => {
     if (!isEnabled) {
-      console.log('❌ Sleep detection not checked - Alerts disabled');
       return;
     }
     
-    if (!detectionData || !Array.isArray(detectionData)) {
-      console.log('❌ Sleep detection not checked - No detection data');
+    if (!tracks || !Array.isArray(tracks)) {
       return;
     }
 
-    // Check for sleep-related detections
-    const sleepDetections = detectionData.filter(detection => 
-      detection.class === 'SleepyDriving' && 
-      detection.confidence > 0.7
-    );
+    const due = rulesRef.current.checkDetections(tracks, Date.now());
 
-    console.log('😴 Sleep detections found:', sleepDetections.length);
-
-    if (sleepDetections.length > 0) {
-      console.log('😴 Sleep detection triggered with confidence:', sleepDetections[0].confidence);
-      
-      // Check cooldown
-      const lastAlertTime = telegramService.lastAlertTimes['sleepAlert'];
-      const cooldownTime = telegramService.config.cooldown.sleepAlert;
-      const timeSinceLastAlert = lastAlertTime ? Date.now() - lastAlertTime : 0;
-      
-      if (timeSinceLastAlert < cooldownTime) {
-        console.log('❌ Sleep alert in cooldown. Time remaining:', Math.round((cooldownTime - timeSinceLastAlert) / 1000) + 's');
-        return;
-      }
-      
-      const detectionInfo = {
-        confidence: sleepDetections[0].confidence,
-        duration: 'Continuous detection',
-        count: sleepDetections.length
-      };
-
-      const success = await telegramService.sendSleepAlert(null, detectionInfo);
-      
-      if (success) {
+    for (const alert of due) {
+      try {
+        const additionalData = {
+          detectionCounts: detectionCounts,
+          trackId: alert.track.id,
+          timestamp: new Date().toISOString(),
+          stateDuration: Math.round(alert.duration / 1000)
+        };
+        
+        // Attach a snapshot of every camera attached to the session
+        const snapshots = await captureSnapshots();
+        await telegramService.sendAlert(alert.alertType, alert.message, snapshots, additionalData);
+        
         setAlertStatus(prev => ({
           ...prev,
-          lastSleepAlert: new Date().toISOString()
+          [alert.statusKey]: new Date().toISOString()
         }));
-      } else {
-        console.log('❌ Failed to send sleep alert');
+      } catch (error) {
+        console.error(`❌ Failed to send ${alert.alertType} alert:`, error);
       }
-    } else {
-      console.log('😴 No sleep detections found');
     }
-  }, [isEnabled]);
+  }, [isEnabled, detectionCounts, captureSnapshots]);
 
-  // Check for dangerous behaviors
-  const checkDangerousBehaviors = useCallback(async (detectionCounts) => {
-    if (!isEnabled) {
+  // Monitor tracked detections for persistent dangerous behaviors
+  useEffect(() => {
+    if (!detectionData || !Array.isArray(detectionData)) {
       return;
     }
-    
-    if (!detectionCounts || typeof detectionCounts !== 'object') {
+
+    if (!isEnabled) {
       return;
     }
 
-    const now = Date.now();
-    const persistenceTime = 10000; // 10 seconds to confirm dangerous state
-    const alertCooldown = 30000; // 30 seconds between alerts
+    checkDangerousBehaviors(detectionData);
+  }, [detectionData, isEnabled, checkDangerousBehaviors]);
 
-    // Check if dangerous states are persistent (10 seconds)
-    const currentDangerousStates = {
-      sleepy: detectionCounts.SleepyDriving > 0,
-      dangerous: detectionCounts.DangerousDriving > 0,
-      drinking: detectionCounts.Drinking > 0
-    };
+  // Monitor concentration for low concentration alerts
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
 
-    // Update state tracking - only start timer if not already started
-    Object.keys(currentDangerousStates).forEach(state => {
-      if (currentDangerousStates[state]) {
-        if (!dangerousStateStart[state]) {
-          console.log(`🕐 ${state} state started at:`, new Date().toLocaleTimeString());
-          setDangerousStateStart(prev => ({ ...prev, [state]: now }));
-          // Reset alert flag when new state starts
-          setAlertSentForState(prev => ({ ...prev, [state]: false }));
-        }
-      } else {
-        if (dangerousStateStart[state]) {
-          setDangerousStateStart(prev => ({ ...prev, [state]: null }));
-          // Reset alert flag when state ends to allow new alerts
-          setAlertSentForState(prev => ({ ...prev, [state]: false }));
-        }
-      }
-    });
+    const alert = rulesRef.current.checkConcentration(concentration, Date.now());
+    if (!alert) return;
 
-    // Check for persistent SleepyDriving (10 seconds)
-    if (currentDangerousStates.sleepy && dangerousStateStart.sleepy) {
-      const stateDuration = now - dangerousStateStart.sleepy;
-      
-      if (stateDuration >= persistenceTime && !alertSentForState.sleepy) {
-        const lastAlertTime = telegramService.lastAlertTimes['sleepAlert'] || 0;
-        const timeSinceLastAlert = now - lastAlertTime;
-        
-        if (timeSinceLastAlert >= alertCooldown) {
-          
-          try {
-            const additionalData = {
-              detectionCounts: detectionCounts,
-              timestamp: new Date().toISOString(),
-              stateDuration: Math.round(stateDuration/1000)
-            };
-            
-            // Send text-only alert
-            await telegramService.sendAlert('sleepAlert', '😴 Persistent sleepy driving detected! Please take a break immediately.', null, additionalData);
-            
-            setAlertStatus(prev => ({
-              ...prev,
-              lastSleepAlert: new Date().toISOString()
-            }));
-            
-            // Mark alert as sent for this state
-            setAlertSentForState(prev => ({ ...prev, sleepy: true }));
-          } catch (error) {
-            console.error('❌ Failed to send sleep driving alert:', error);
-          }
-        }
-      }
-    }
+    console.log('🚨 Sending low concentration alert:', concentration + '%');
 
-    // Check for persistent DangerousDriving (10 seconds)
-    if (currentDangerousStates.dangerous && dangerousStateStart.dangerous) {
-      const stateDuration = now - dangerousStateStart.dangerous;
-      
-      if (stateDuration >= persistenceTime && !alertSentForState.dangerous) {
-        const lastAlertTime = telegramService.lastAlertTimes['dangerousDriving'] || 0;
-        const timeSinceLastAlert = now - lastAlertTime;
-        
-        if (timeSinceLastAlert >= alertCooldown) {
-          
-          try {
-            const additionalData = {
-              detectionCounts: detectionCounts,
-              timestamp: new Date().toISOString(),
-              stateDuration: Math.round(stateDuration/1000)
-            };
-            
-            // Send text-only alert
-            await telegramService.sendAlert('dangerousDriving', '⚠️ Persistent dangerous driving detected! Please drive safely immediately.', null, additionalData);
-            
-            setAlertStatus(prev => ({
-              ...prev,
-              lastDangerousAlert: new Date().toISOString()
-            }));
-            
-            // Mark alert as sent for this state
-            setAlertSentForState(prev => ({ ...prev, dangerous: true }));
-          } catch (error) {
-            console.error('❌ Failed to send dangerous driving alert:', error);
-          }
-        }
-      }
-    }
+    const additionalData = {
+      concentration: concentration,
+      detectionCounts: detectionCounts,
+      timestamp: new Date().toISOString()
+    };
 
-    // Check for persistent Drinking (10 seconds)
-    if (currentDangerousStates.drinking && dangerousStateStart.drinking) {
-      const stateDuration = now - dangerousStateStart.drinking;
-      
-      if (stateDuration >= persistenceTime && !alertSentForState.drinking) {
-        const lastAlertTime = telegramService.lastAlertTimes['drinking'] || 0;
-        if (now - lastAlertTime >= alertCooldown) {
-          
-          try {
-            const additionalData = {
-              detectionCounts: detectionCounts,
-              timestamp: new Date().toISOString(),
-              stateDuration: Math.round(stateDuration/1000)
-            };
-            
-            // Send text-only alert
-            await telegramService.sendAlert('drinking', '🍺 Persistent drinking while driving detected! This is extremely dangerous.', null, additionalData);
-            
-            setAlertStatus(prev => ({
-              ...prev,
-              lastDrinkingAlert: new Date().toISOString()
-            }));
-            
-            // Mark alert as sent for this state
-            setAlertSentForState(prev => ({ ...prev, drinking: true }));
-          } catch (error) {
-            console.error('❌ Failed to send drinking alert:', error);
-          }
-        }
-      }
-    }
+    captureSnapshots()
+      .then(snapshots => telegramService.sendAlert(alert.alertType, alert.message, snapshots, additionalData))
+      .then(() => {
+        setAlertStatus(prev => ({
+          ...prev,
+          lastConcentrationAlert: new Date().toISOString()
+        }));
+      })
+      .catch(error => {
+        console.error('❌ Failed to send low concentration alert:', error);
+      });
+  }, [concentration, isEnabled, detectionCounts, captureSnapshots]);
 
+  // Monitor PERCLOS for drowsiness alerts
+  useEffect(() => {
+    if (!isEnabled) {
+      return;
+    }
 
-    // Update last detection counts for comparison
-    setLastDetectionCounts(detectionCounts);
-  }, [isEnabled, dangerousStateStart, alertSentForState, concentration]);
+    const due = rulesRef.current.checkPerclos(perclos, Date.now());
+    if (!due) return;
 
-  // Check for dangerous driving
-  const checkDangerousDriving = useCallback(async (detectionCounts) => {
-    if (!isEnabled || !detectionCounts.DangerousDriving || detectionCounts.DangerousDriving === 0) return;
+    console.log(`😴 PERCLOS ${due.level} alert:`, Math.round(perclos * 100) + '%');
 
-    console.log('🚨 Dangerous driving detected');
-    
-    const detectionInfo = {
-      confidence: 'High',
-      count: detectionCounts.DangerousDriving
+    const additionalData = {
+      perclos,
+      level: due.level,
+      timestamp: new Date().toISOString()
     };
 
-    const success = await telegramService.sendDangerousDrivingAlert(imageData, detectionInfo);
-    
-    if (success) {
-      setAlertStatus(prev => ({
-        ...prev,
-        lastDangerousDrivingAlert: new Date().toISOString()
-      }));
+    captureSnapshots()
+      .then(snapshots => telegramService.sendAlert(due.alertType, due.message, snapshots, additionalData))
+      .then(() => {
+        setAlertStatus(prev => ({
+          ...prev,
+          lastPerclosAlert: new Date().toISOString()
+        }));
+      })
+      .catch(error => {
+        console.error('❌ Failed to send PERCLOS alert:', error);
+      });
+  }, [perclos, isEnabled, captureSnapshots]);
+
+  // Alert on a microsleep as soon as it is detected: unlike behaviours,
+  // microsleeps do not need to persist for 10 seconds
+  useEffect(() => {
+    if (!isEnabled || !microsleep) {
+      return;
     }
-  }, [isEnabled]);
 
-  // Check for drinking
-  const checkDrinking = useCallback(async (detectionCounts) => {
-    if (!isEnabled || !detectionCounts.Drinking || detectionCounts.Drinking === 0) return;
+    const alert = rulesRef.current.checkMicrosleep(microsleep, Date.now());
+    if (!alert) return;
+    const { alertType, message } = alert;
+    console.log('😴 Microsleep alert:', Math.round(microsleep.duration) + 'ms');
 
-    console.log('🍺 Drinking detected');
-    
-    const detectionInfo = {
-      confidence: 'High',
-      count: detectionCounts.Drinking
+    const additionalData = {
+      closureMs: Math.round(microsleep.duration),
+      minEar: Math.round(microsleep.minEar * 1000) / 1000,
+      timestamp: new Date().toISOString()
     };
 
-    const success = await telegramService.sendDrinkingAlert(imageData, detectionInfo);
-    
-    if (success) {
-      setAlertStatus(prev => ({
-        ...prev,
-        lastDrinkingAlert: new Date().toISOString()
-      }));
-    }
-  }, [isEnabled]);
+    captureSnapshots()
+      .then(snapshots => telegramService.sendAlert(alertType, message, snapshots, additionalData))
+      .then(() => {
+        setAlertStatus(prev => ({
+          ...prev,
+          lastMicrosleepAlert: new Date().toISOString()
+        }));
+      })
+      .catch(error => {
+        console.error('❌ Failed to send microsleep alert:', error);
+      });
+  }, [microsleep, isEnabled, captureSnapshots]);
 
-  // Monitor detection data for alerts
+  // Monitor head pose for looking away, looking down and nodding off
   useEffect(() => {
-    if (!detectionData || !Array.isArray(detectionData)) {
+    if (!isEnabled) {
       return;
     }
-    
-    // Check for sleep detection
-    checkSleepDetection(detectionData);
-  }, [detectionData, checkSleepDetection]);
 
-  // Monitor detection counts for dangerous behaviors
+    const due = rulesRef.current.checkHeadPose(headPose, Date.now());
+    if (!due) return;
+
+    console.log(`🧭 Head pose alert (${due.alertType})`);
+
+    const additionalData = {
+      yaw: headPose.pose?.yaw,
+      pitch: headPose.pose?.pitch,
+      nods: headPose.nods,
+      level: due.level,
+      timestamp: new Date().toISOString()
+    };
+
+    captureSnapshots()
+      .then(snapshots => telegramService.sendAlert(due.alertType, due.message, snapshots, additionalData))
+      .then(() => {
+        setAlertStatus(prev => ({
+          ...prev,
+          lastHeadPoseAlert: new Date().toISOString()
+        }));
+      })
+      .catch(error => {
+        console.error('❌ Failed to send head pose alert:', error);
+      });
+  }, [headPose, isEnabled, captureSnapshots]);
+
+  // Alert on the presence escalation steps that call for one (driver absent, multiple faces)
   useEffect(() => {
-    if (!detectionCounts || typeof detectionCounts !== 'object') {
+    if (!isEnabled || !presence?.escalation) {
       return;
     }
 
-    if (!isEnabled) {
-      return;
-    }
+    const alert = rulesRef.current.checkPresence(presence, Date.now());
+    if (!alert) return;
 
-    checkDangerousBehaviors(detectionCounts);
-  }, [detectionCounts, isEnabled, checkDangerousBehaviors]);
+    console.log(`🚫 Driver presence alert (${alert.alertType})`);
 
-  // Monitor concentration for low concentration alerts
+    const additionalData = {
+      state: presence.state,
+      durationSeconds: Math.round(presence.escalation.duration / 1000),
+      faces: presence.faces,
+      level: alert.level,
+      timestamp: new Date().toISOString()
+    };
+
+    captureSnapshots()
+      .then(snapshots => telegramService.sendAlert(alert.alertType, alert.message, snapshots, additionalData))
+      .then(() => {
+        setAlertStatus(prev => ({
+          ...prev,
+          lastPresenceAlert: new Date().toISOString()
+        }));
+      })
+      .catch(error => {
+        console.error('❌ Failed to send presence alert:', error);
+      });
+  }, [presence, isEnabled, captureSnapshots]);
+
+  // Alert on camera tampering and faults, once per event
   useEffect(() => {
-    if (!isEnabled) {
+    if (!isEnabled || !cameraEvent) {
       return;
     }
 
-    if (concentration !== undefined && concentration !== null && concentration <= 25) {
-      console.log('🚨 Low concentration detected:', concentration + '%');
-      
-      const lastAlertTime = telegramService.lastAlertTimes['lowConcentration'] || 0;
-      const alertCooldown = 30000; // 30 seconds between concentration alerts
-      
-      if (Date.now() - lastAlertTime >= alertCooldown) {
-        console.log('🚨 Sending low concentration alert:', concentration + '%');
-        
-        const additionalData = {
-          concentration: concentration,
-          detectionCounts: detectionCounts,
-          timestamp: new Date().toISOString()
-        };
-        
-        // Send text-only alert
-        telegramService.sendAlert('lowConcentration', `⚠️ Low concentration detected: ${concentration}%! Please focus on driving safely.`, null, additionalData)
-          .then(() => {
-            setAlertStatus(prev => ({
-              ...prev,
-              lastConcentrationAlert: new Date().toISOString()
-            }));
-          })
-          .catch(error => {
-            console.error('❌ Failed to send low concentration alert:', error);
-          });
-      } else {
-        console.log('⏰ Low concentration alert on cooldown');
-      }
-    }
-  }, [concentration, isEnabled, detectionCounts]);
-
-  // Monitor detection counts for dangerous behaviors
-  useEffect(() => {
-    if (!detectionData || !Array.isArray(detectionData)) return;
+    const alert = rulesRef.current.checkCameraEvent(cameraEvent, CAMERA_ROLES[cameraEvent.cameraId]?.label ?? cameraEvent.cameraId, Date.now());
+    if (!alert) return;
+    console.log(`📷 Camera health alert (${alert.alertType})`);
 
-    // Get current detection counts from storage
-    const storageData = JSON.parse(localStorage.getItem('detectionData') || '{}');
-    const detectionCounts = storageData.detectionCounts || {};
+    const additionalData = {
+      camera: cameraEvent.cameraId,
+      issues: cameraEvent.issues.join(', '),
+      durationSeconds: Math.round(cameraEvent.duration / 1000),
+      level: alert.level,
+      timestamp: new Date().toISOString()
+    };
 
-    // Check for dangerous driving
-    checkDangerousDriving(detectionCounts);
-    
-    // Check for drinking
-    checkDrinking(detectionCounts);
-  }, [detectionData, checkDangerousDriving, checkDrinking]);
+    captureSnapshots()
+      .then(snapshots => telegramService.sendAlert(alert.alertType, alert.message, snapshots, additionalData))
+      .then(() => {
+        setAlertStatus(prev => ({
+          ...prev,
+          lastCameraHealthAlert: new Date().toISOString()
+        }));
+      })
+      .catch(error => {
+        console.error('❌ Failed to send camera health alert:', error);
+      });
+  }, [cameraEvent, isEnabled, captureSnapshots]);
 
   // Toggle alerts on/off
   const toggleAlerts = useCallback((enabled) => {
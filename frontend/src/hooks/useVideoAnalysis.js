@@ -0,0 +1,168 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { VideoFileAnalyzer } from '@/services/videoAnalysis';
+import { SessionReplay } from '@/services/sessionReplay';
+import { getAnalysisConfig } from '@/config/analysis';
+import {
+  getAnalysisSessions,
+  getAnalysisSession,
+  saveAnalysisSession,
+  deleteAnalysisSession
+} from '@/utils/analysisSessions';
+
+const REPLAY_TICK_MS = 100; // Clock step of paced replays
+
+/**
+ * Offline analysis of recorded video files and session recordings
+ * Runs one analysis at a time and keeps the stored analysis sessions in sync
+ */
+export const useVideoAnalysis = () => {
+  const [status, setStatus] = useState('idle'); // idle | analyzing | done | cancelled | error
+  const [progress, setProgress] = useState(null);
+  const [session, setSession] = useState(null);
+  const [sessions, setSessions] = useState(() => getAnalysisSessions());
+  const [error, setError] = useState(null);
+
+  const abortRef = useRef(null);
+
+  // Stay in sync with sessions saved elsewhere
+  useEffect(() => {
+    const handleUpdate = (event) => setSessions(event.detail);
+    window.addEventListener('analysisSessionsUpdated', handleUpdate);
+    return () => window.removeEventListener('analysisSessionsUpdated', handleUpdate);
+  }, []);
+
+  // Cancel a running analysis when the page is left
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  /**
+   * Analyze a video file and store the result as its own session
+   */
+  const analyzeFile = useCallback(async (file, mode) => {
+    if (!file || abortRef.current) return null;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('analyzing');
+    setProgress({ progress: 0, videoTime: 0, framesAnalyzed: 0 });
+    setSession(null);
+    setError(null);
+
+    try {
+      const analyzer = new VideoFileAnalyzer();
+      const result = await analyzer.analyze(file, {
+        mode,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+
+      if (!result) {
+        setStatus('cancelled');
+        return null;
+      }
+
+      saveAnalysisSession(result);
+      setSession(result);
+      setStatus('done');
+      console.log(`✅ Analyzed ${file.name} at ${result.speedFactor}x real time`);
+      return result;
+    } catch (err) {
+      console.error('❌ Video analysis failed:', err);
+      setError(err.message);
+      setStatus('error');
+      return null;
+    } finally {
+      abortRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Replay a session recording through the processing and alert pipeline
+   * @param {File} file - Recording saved from the dashboard (.json)
+   * @param {string} speedKey - Key of the replay speeds; paced replays follow the wall clock
+   */
+  const replayFile = useCallback(async (file, speedKey) => {
+    if (!file || abortRef.current) return null;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('analyzing');
+    setProgress({ progress: 0, videoTime: 0, framesAnalyzed: 0 });
+    setSession(null);
+    setError(null);
+
+    try {
+      const { replaySpeeds, defaultReplaySpeed } = getAnalysisConfig();
+      const { speed } = replaySpeeds[speedKey] ?? replaySpeeds[defaultReplaySpeed];
+      const replay = new SessionReplay(JSON.parse(await file.text()));
+
+      if (speed > 0) {
+        const startedAt = performance.now();
+        while (!replay.isDone) {
+          if (controller.signal.aborted) {
+            setStatus('cancelled');
+            return null;
+          }
+          await new Promise(resolve => setTimeout(resolve, REPLAY_TICK_MS));
+          replay.advanceTo((performance.now() - startedAt) * speed);
+          setProgress({
+            progress: replay.duration > 0 ? Math.min(1, replay.clock.now() / replay.duration) : 1,
+            videoTime: replay.clock.now(),
+            framesAnalyzed: replay.framesApplied
+          });
+        }
+      }
+
+      const result = replay.finish({ name: file.name });
+      saveAnalysisSession(result);
+      setSession(result);
+      setStatus('done');
+      console.log(`✅ Replayed ${file.name}: ${result.summary.alerts} alerts`);
+      return result;
+    } catch (err) {
+      console.error('❌ Session replay failed:', err);
+      setError(err.message);
+      setStatus('error');
+      return null;
+    } finally {
+      abortRef.current = null;
+    }
+  }, []);
+
+  const cancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const openSession = useCallback((id) => {
+    setSession(getAnalysisSession(id));
+  }, []);
+
+  const removeSession = useCallback((id) => {
+    deleteAnalysisSession(id);
+    setSession(current => (current?.id === id ? null : current));
+  }, []);
+
+  return {
+    // State
+    status,
+    progress,
+    session,
+    sessions,
+    error,
+    isAnalyzing: status === 'analyzing',
+    
+    // Actions
+    analyzeFile,
+    replayFile,
+    cancelAnalysis,
+    openSession,
+    removeSession,
+    
+    // Configuration
+    modes: getAnalysisConfig().modes,
+    defaultMode: getAnalysisConfig().defaultMode,
+    replaySpeeds: getAnalysisConfig().replaySpeeds,
+    defaultReplaySpeed: getAnalysisConfig().defaultReplaySpeed
+  };
+};
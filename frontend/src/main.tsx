@@ -1,6 +1,7 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { registerModelCache } from "./utils/modelCache";
 
 // Suppress TensorFlow.js warnings globally
 const originalWarn = console.warn;
@@ -17,4 +18,7 @@ console.warn = (...args) => {
   originalWarn.apply(console, args);
 };
 
+// Keep bundled model assets available offline
+registerModelCache();
+
 createRoot(document.getElementById("root")!).render(<App />);
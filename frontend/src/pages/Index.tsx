@@ -9,28 +9,71 @@ import { EyeMetrics } from "@/components/Dashboard/EyeMetrics";
 import { DistractionPieChart } from "@/components/Dashboard/DistractionPieChart";
 import { ConcentrationGauge } from "@/components/Dashboard/ConcentrationGauge";
 import { TelegramAlerts } from "@/components/Dashboard/TelegramAlerts";
+import { HeadPoseGauge } from "@/components/Dashboard/HeadPoseGauge";
+import { GazePanel } from "@/components/Dashboard/GazePanel";
+import { CameraHealthPanel } from "@/components/Dashboard/CameraHealthPanel";
+import { PreprocessingView } from "@/components/Dashboard/PreprocessingView";
+import { SessionTimeline } from "@/components/Dashboard/SessionTimeline";
+import { EventClips } from "@/components/Dashboard/EventClips";
+import { SessionRecording } from "@/components/Dashboard/SessionRecording";
+import { SimulationBanner } from "@/components/Dashboard/SimulationBanner";
+import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useInference } from "@/hooks/useInference";
-import { Eye, AlertTriangle, Activity, Zap, Brain, Wifi } from "lucide-react";
+import { useEyeMetrics } from "@/hooks/useEyeMetrics";
+import { useCameraHealth } from "@/hooks/useCameraHealth";
+import { scenarioPlayer } from "@/services/scenarioSimulator";
+import { getVehicleConfig } from "@/config/vehicle";
+import { getDriverConfig } from "@/config/driver";
+import { CAMERA_ROLES } from "@/config/camera";
+import { getCameraHealthConfig } from "@/config/cameraHealth";
+import { calculateConcentration } from "@/utils/concentration";
+import { Eye, AlertTriangle, Activity, Zap, Brain, Wifi, Plus } from "lucide-react";
+
+const VEHICLE = getVehicleConfig();
+const DRIVER = getDriverConfig();
+const CAMERA_ISSUE_LABELS: Record<string, string> = getCameraHealthConfig().labels;
+const EXTRA_CAMERA_ROLES = Object.keys(CAMERA_ROLES).filter(role => !CAMERA_ROLES[role].primary);
 
 const Index = () => {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
   const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  // Cameras attached next to the driver camera (cabin, road)
+  const [extraCameras, setExtraCameras] = useState<string[]>([]);
   const { toast } = useToast();
   
-  // Initialize inference hook for real-time detection
+  // Shared inference engine for real-time detection
   const {
     isInitialized: isInferenceInitialized,
-    isLoading: isInferenceLoading,
     error: inferenceError,
     detections,
     detectionCounts,
-    initializeModel,
+    detectionEvents,
+    detectionsByCamera,
+    isSimulating,
     startInference,
-    stopInference
+    stopInference,
+    getClassConfig
   } = useInference();
 
+  // Eye metrics feed both the charts and the drowsiness alerts
+  const eyeMetrics = useEyeMetrics();
+
+  // Picture quality of the attached cameras
+  const cameraHealth = useCameraHealth();
+
+  // Notify when a camera is tampered with or fails
+  useEffect(() => {
+    const event = cameraHealth.lastEvent;
+    if (!event) return;
+    toast({
+      title: event.type === 'cameraTamper' ? "Possible camera tampering" : "Camera fault",
+      description: `${CAMERA_ROLES[event.cameraId]?.label ?? event.cameraId}: ${event.issues.map(issue => CAMERA_ISSUE_LABELS[issue] ?? issue).join(', ')}. Detections are unreliable.`,
+      variant: "destructive"
+    });
+  }, [cameraHealth.lastEvent, toast]);
+
   const mockBehaviorData = [
     { time: "07:20 AM", speed: 40, events: [] },
     { time: "07:40 AM", speed: 85, events: ["speeding"] },
@@ -51,21 +94,14 @@ const Index = () => {
   // Removed driver details section
 
 
-  // Initialize inference model on component mount
-  useEffect(() => {
-    if (!isInferenceInitialized && !isInferenceLoading) {
-      initializeModel();
-    }
-  }, [isInferenceInitialized, isInferenceLoading, initializeModel]);
-
   // Start/stop inference when camera is activated/deactivated
   useEffect(() => {
     if (isCameraActive && isInferenceInitialized && videoElement) {
       startInference(videoElement);
-    } else if (!isCameraActive) {
+    } else if (!isCameraActive && !isSimulating) {
       stopInference();
     }
-  }, [isCameraActive, isInferenceInitialized, videoElement, startInference, stopInference]);
+  }, [isCameraActive, isInferenceInitialized, isSimulating, videoElement, startInference, stopInference]);
 
 
   // Distraction analysis data - use real-time detection counts
@@ -103,21 +139,11 @@ const Index = () => {
   ];
 
   // Calculate concentration based on detection counts
-  const calculateConcentration = () => {
-    const totalDetections = Object.values(detectionCounts).reduce((sum, count) => sum + count, 0);
-    if (totalDetections === 0) return 100; // Default to 100% if no detections
-    
-    const safeDrivingCount = detectionCounts.SafeDriving || 0;
-    const concentration = Math.round((safeDrivingCount / totalDetections) * 100);
-    
-    // Ensure concentration is between 0 and 100
-    return Math.max(0, Math.min(100, concentration));
-  };
-
-  const concentration = calculateConcentration();
+  const concentration = calculateConcentration(detectionCounts, eyeMetrics.yawnCount);
 
   const handleStartCamera = () => {
     console.log('handleStartCamera called in Index component');
+    scenarioPlayer.stop(); // The camera replaces a running simulation
     setIsCameraActive(true);
     setIsMonitoring(true);
     
@@ -144,9 +170,9 @@ const Index = () => {
       
       <div className="ml-16">
         <TopBar
-          driverName="Reynald Carbonara"
-          driverId="002837407"
-          vehicleInfo="Mitsubishi Fuso - XY9980AB"
+          driverName={DRIVER.name}
+          driverId={DRIVER.id}
+          vehicleInfo={`${VEHICLE.name} - ${VEHICLE.id}`}
           date="Wed, 1 March 2025"
         />
 
@@ -154,6 +180,8 @@ const Index = () => {
           <div className="grid grid-cols-12 gap-6">
             {/* Main Content */}
             <div className="col-span-8 space-y-6">
+              <SimulationBanner />
+
               {/* Video Feed with Camera Controls */}
               <VideoFeed 
                 isActive={isCameraActive}
@@ -161,13 +189,43 @@ const Index = () => {
                 onStopCamera={handleStopCamera}
                 isConnected={true}
                 onVideoElement={setVideoElement}
+                presence={eyeMetrics.presence}
               />
 
+              {/* Additional cameras share the session clock with the driver camera */}
+              {extraCameras.map(role => (
+                <VideoFeed
+                  key={role}
+                  cameraId={role}
+                  isActive={isCameraActive}
+                  onRemove={() => setExtraCameras(prev => prev.filter(camera => camera !== role))}
+                />
+              ))}
+              {extraCameras.length < EXTRA_CAMERA_ROLES.length && (
+                <div className="flex items-center gap-2">
+                  {EXTRA_CAMERA_ROLES.filter(role => !extraCameras.includes(role)).map(role => (
+                    <Button
+                      key={role}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setExtraCameras(prev => [...prev, role])}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Add {CAMERA_ROLES[role].label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
               {/* Real-time Eye Metrics */}
               <EyeMetrics 
                 isActive={isCameraActive}
                 videoElement={videoElement}
+                metrics={eyeMetrics}
               />
+
+              {/* Low-light / IR enhancement of the driver camera, with a debug view */}
+              <PreprocessingView />
             </div>
 
             {/* Right Sidebar */}
@@ -178,12 +236,41 @@ const Index = () => {
                 detectionCounts={detectionCounts}
                 concentration={concentration}
                 videoElement={videoElement}
+                detectionsByCamera={detectionsByCamera}
+                perclos={eyeMetrics.perclos}
+                microsleep={eyeMetrics.microsleep}
+                headPose={eyeMetrics.headPose}
+                presence={eyeMetrics.presence}
+                cameraEvent={cameraHealth.lastEvent}
               />
+
+              {/* Picture quality of every camera */}
+              {cameraHealth.isEnabled && (
+                <CameraHealthPanel health={cameraHealth.health} events={cameraHealth.events} />
+              )}
+              
+              {/* Driver head pose */}
+              <HeadPoseGauge headPose={eyeMetrics.headPose} events={eyeMetrics.headEvents} />
+
+              {/* Driver gaze, with refined (iris) landmarks */}
+              {eyeMetrics.gazeEnabled && (
+                <GazePanel gaze={eyeMetrics.gaze} longGlances={eyeMetrics.longGlances} />
+              )}
+
+              {/* Events of all cameras on one session timeline */}
+              <SessionTimeline events={detectionEvents} getClassConfig={getClassConfig} />
+              
+              {/* Clips recorded around confirmed events */}
+              <EventClips getClassConfig={getClassConfig} />
+              
+              {/* Raw analyzer output for replay */}
+              <SessionRecording />
               
               {/* Driver Concentration Gauge */}
               <ConcentrationGauge 
                 detectionCounts={detectionCounts}
                 totalDetections={Object.values(detectionCounts).reduce((sum, count) => sum + count, 0)}
+                yawnCount={eyeMetrics.yawnCount}
               />
               
               {/* Distraction Analysis Pie Chart */}
@@ -0,0 +1,227 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Sidebar } from "@/components/Dashboard/Sidebar";
+import { ScenarioEditor, type Scenario } from "@/components/Simulator/ScenarioEditor";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useScenarioPlayer } from "@/hooks/useScenarioPlayer";
+import { createSegment } from "@/services/scenarioSimulator";
+import { formatVideoTime } from "@/utils/timeFormat";
+import { Download, FlaskConical, Library, Play, Plus, Save, Square, Trash2, Upload } from "lucide-react";
+
+const copyScenario = (scenario: Scenario): Scenario => ({
+  ...scenario,
+  segments: scenario.segments.map(segment => ({ ...segment }))
+});
+
+const Simulator = () => {
+  const navigate = useNavigate();
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const {
+    scenarios,
+    status,
+    error,
+    startScenario,
+    stopScenario,
+    saveScenario,
+    deleteScenario,
+    downloadScenario,
+    uploadScenario,
+    speeds
+  } = useScenarioPlayer();
+  const [draft, setDraft] = useState<Scenario>(() => copyScenario(scenarios[0]));
+  const [speed, setSpeed] = useState("1");
+  const [loop, setLoop] = useState(false);
+
+  const isPlayingDraft = status.isRunning && status.scenarioId === draft.id;
+
+  const handleNew = () => {
+    setDraft({ id: `scenario_${Date.now()}`, name: "New scenario", segments: [createSegment({ label: "Safe" })] });
+  };
+
+  // Built-in scenarios are saved as a copy
+  const handleSave = () => {
+    const scenario = draft.builtIn
+      ? { ...draft, id: `scenario_${Date.now()}`, name: `${draft.name} (copy)`, builtIn: false }
+      : draft;
+    if (saveScenario(scenario)) {
+      setDraft(scenario);
+      toast({ title: "Scenario saved", description: scenario.name });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const scenario = await uploadScenario(file);
+    if (scenario) {
+      setDraft(copyScenario(scenario));
+      toast({ title: "Scenario imported", description: scenario.name });
+    }
+  };
+
+  // The dashboard shows the simulated session and runs the alert flow
+  const handleStart = () => {
+    if (startScenario(draft, { speed: Number(speed), loop })) {
+      navigate("/");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <Sidebar />
+
+      <div className="ml-16">
+        <div className="bg-white border-b border-border px-8 py-4">
+          <h1 className="text-2xl font-bold mb-1">Scenario Simulator</h1>
+          <p className="text-sm text-muted-foreground">
+            Drive the dashboard and alerts with scripted detections and eye metrics, without a camera or model
+          </p>
+        </div>
+
+        <div className="p-8">
+          <div className="grid grid-cols-12 gap-6">
+            <div className="col-span-8 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FlaskConical className="w-5 h-5 text-primary" />
+                    Scenario
+                    {draft.builtIn && <Badge variant="outline">Built-in</Badge>}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center gap-3">
+                    <Input
+                      value={draft.name}
+                      onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                      disabled={isPlayingDraft}
+                      className="w-72"
+                    />
+                    <Button variant="outline" onClick={handleSave} disabled={isPlayingDraft}>
+                      <Save className="w-4 h-4 mr-2" />
+                      Save
+                    </Button>
+                    <Button variant="outline" onClick={() => downloadScenario(draft)}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Export
+                    </Button>
+                  </div>
+
+                  <div className="flex items-center gap-3">
+                    <Select value={speed} onValueChange={setSpeed} disabled={status.isRunning}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {speeds.map((option: number) => (
+                          <SelectItem key={option} value={String(option)}>{option}x speed</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox checked={loop} onCheckedChange={(checked) => setLoop(checked === true)} disabled={status.isRunning} />
+                      Loop
+                    </label>
+                    {status.isRunning ? (
+                      <Button variant="destructive" onClick={stopScenario}>
+                        <Square className="w-4 h-4 mr-2" />
+                        Stop Simulation
+                      </Button>
+                    ) : (
+                      <Button onClick={handleStart}>
+                        <Play className="w-4 h-4 mr-2" />
+                        Run on Dashboard
+                      </Button>
+                    )}
+                  </div>
+
+                  {status.isRunning && (
+                    <div className="space-y-1">
+                      <Progress value={(status.time / status.duration) * 100} />
+                      <p className="text-xs text-muted-foreground">
+                        {status.name} • {formatVideoTime(status.time)} / {formatVideoTime(status.duration)} • {status.speed}x
+                      </p>
+                    </div>
+                  )}
+                  {error && <p className="text-sm text-red-600">{error}</p>}
+                </CardContent>
+              </Card>
+
+              <ScenarioEditor
+                segments={draft.segments}
+                onChange={(segments) => setDraft({ ...draft, segments })}
+                activeIndex={isPlayingDraft ? status.segmentIndex : null}
+                disabled={isPlayingDraft}
+              />
+            </div>
+
+            <div className="col-span-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Library className="w-5 h-5 text-primary" />
+                    Scenarios
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={handleNew}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      New
+                    </Button>
+                    <input
+                      ref={importInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={handleImport}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import
+                    </Button>
+                  </div>
+
+                  <ul className="space-y-2">
+                    {scenarios.map((scenario: Scenario) => (
+                      <li
+                        key={scenario.id}
+                        className={`flex items-center gap-2 rounded-lg p-2 text-sm ${scenario.id === draft.id ? 'bg-muted' : ''}`}
+                      >
+                        <button className="flex-1 text-left" onClick={() => setDraft(copyScenario(scenario))}>
+                          <p className="font-medium truncate">{scenario.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {scenario.segments.length} segments • {formatVideoTime(scenario.segments.reduce((sum, segment) => sum + segment.durationMs, 0))}
+                          </p>
+                        </button>
+                        {scenario.builtIn ? (
+                          <Badge variant="outline">Built-in</Badge>
+                        ) : (
+                          <Button variant="ghost" size="icon" onClick={() => deleteScenario(scenario.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Simulator;
@@ -0,0 +1,243 @@
+import { useRef, useState } from "react";
+import { Sidebar } from "@/components/Dashboard/Sidebar";
+import { AnalysisTimeline } from "@/components/Analysis/AnalysisTimeline";
+import { AnalysisSummary, type AnalysisSession } from "@/components/Analysis/AnalysisSummary";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useVideoAnalysis } from "@/hooks/useVideoAnalysis";
+import { FileVideo, FileJson, Upload, Square, Trash2, History } from "lucide-react";
+
+const VideoAnalysis = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const {
+    status,
+    progress,
+    session,
+    sessions,
+    error,
+    isAnalyzing,
+    analyzeFile,
+    replayFile,
+    cancelAnalysis,
+    openSession,
+    removeSession,
+    modes,
+    defaultMode,
+    replaySpeeds,
+    defaultReplaySpeed
+  } = useVideoAnalysis();
+  const [mode, setMode] = useState<string>(defaultMode);
+  const [replaySpeed, setReplaySpeed] = useState<string>(defaultReplaySpeed);
+  const [activeSource, setActiveSource] = useState<'video' | 'recording'>('video');
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setActiveSource('video');
+    const result = await analyzeFile(file, mode);
+    if (result) {
+      toast({
+        title: "Analysis complete",
+        description: `${file.name}: ${result.timeline.length} events, ${result.summary.alerts} alerts`,
+      });
+    }
+  };
+
+  const handleRecording = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setActiveSource('recording');
+    const result = await replayFile(file, replaySpeed);
+    if (result) {
+      toast({
+        title: "Replay complete",
+        description: `${file.name}: ${result.timeline.length} events, ${result.summary.alerts} alerts`,
+      });
+    }
+  };
+
+  const renderStatus = (source: 'video' | 'recording') => {
+    if (activeSource !== source) return null;
+    return (
+      <>
+        {isAnalyzing && progress && (
+          <div className="space-y-1">
+            <Progress value={progress.progress * 100} />
+            <p className="text-xs text-muted-foreground">
+              {Math.round(progress.progress * 100)}% • {progress.framesAnalyzed} frames {source === 'video' ? 'analyzed' : 'replayed'}
+            </p>
+          </div>
+        )}
+        {status === 'cancelled' && (
+          <p className="text-sm text-muted-foreground">{source === 'video' ? 'Analysis' : 'Replay'} cancelled.</p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <Sidebar />
+
+      <div className="ml-16">
+        <div className="bg-white border-b border-border px-8 py-4">
+          <h1 className="text-2xl font-bold mb-1">Video Analysis</h1>
+          <p className="text-sm text-muted-foreground">
+            Run detection, eye metrics and alert rules on recorded footage and session recordings
+          </p>
+        </div>
+
+        <div className="p-8">
+          <div className="grid grid-cols-12 gap-6">
+            <div className="col-span-8 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileVideo className="w-5 h-5 text-primary" />
+                    Analyze a Video File
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center gap-3">
+                    <Select value={mode} onValueChange={setMode} disabled={isAnalyzing}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(modes as Record<string, { label: string }>).map(([key, option]) => (
+                          <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="video/*"
+                      className="hidden"
+                      onChange={handleFile}
+                    />
+                    {isAnalyzing && activeSource === 'video' ? (
+                      <Button variant="destructive" onClick={cancelAnalysis}>
+                        <Square className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button onClick={() => fileInputRef.current?.click()} disabled={isAnalyzing}>
+                        <Upload className="w-4 h-4 mr-2" />
+                        Choose Video
+                      </Button>
+                    )}
+                  </div>
+
+                  {renderStatus('video')}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileJson className="w-5 h-5 text-primary" />
+                    Replay a Session Recording
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    Recordings saved from the dashboard run through the current smoothing, eye metrics and alert rules.
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <Select value={replaySpeed} onValueChange={setReplaySpeed} disabled={isAnalyzing}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(replaySpeeds as Record<string, { label: string }>).map(([key, option]) => (
+                          <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    <input
+                      ref={recordingInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={handleRecording}
+                    />
+                    {isAnalyzing && activeSource === 'recording' ? (
+                      <Button variant="destructive" onClick={cancelAnalysis}>
+                        <Square className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button onClick={() => recordingInputRef.current?.click()} disabled={isAnalyzing}>
+                        <Upload className="w-4 h-4 mr-2" />
+                        Choose Recording
+                      </Button>
+                    )}
+                  </div>
+
+                  {renderStatus('recording')}
+                </CardContent>
+              </Card>
+
+              {session && (
+                <>
+                  <AnalysisSummary session={session as AnalysisSession} />
+                  <AnalysisTimeline timeline={session.timeline} />
+                </>
+              )}
+            </div>
+
+            <div className="col-span-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <History className="w-5 h-5 text-primary" />
+                    Analysis Sessions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {sessions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No analyzed videos yet.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {sessions.map((stored: AnalysisSession) => (
+                        <li
+                          key={stored.id}
+                          className={`flex items-center gap-2 rounded-lg p-2 text-sm ${stored.id === session?.id ? 'bg-muted' : ''}`}
+                        >
+                          <button className="flex-1 text-left" onClick={() => openSession(stored.id)}>
+                            <p className="font-medium truncate">{stored.source.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(stored.createdAt).toLocaleString()} • {stored.summary.alerts} alerts
+                            </p>
+                          </button>
+                          <Button variant="ghost" size="icon" onClick={() => removeSession(stored.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoAnalysis;
@@ -0,0 +1,338 @@
+/**
+ * Alert Rules
+ * Decides when a tracked behaviour deserves an alert. Kept free of side
+ * effects so live monitoring and offline analysis apply the same rules.
+ */
+
+import { getCameraHealthConfig } from '@/config/cameraHealth';
+import { getDrowsinessConfig } from '@/config/drowsiness';
+import { getHeadPoseConfig } from '@/config/headPose';
+
+export const PERSISTENCE_TIME_MS = 10000; // 10 seconds to confirm dangerous state
+export const ALERT_COOLDOWN_MS = 30000; // 30 seconds between alerts of one type
+
+// Behaviours that alert once they persist
+export const PERSISTENT_BEHAVIORS = [
+  {
+    className: 'SleepyDriving',
+    alertType: 'sleepAlert',
+    statusKey: 'lastSleepAlert',
+    message: '😴 Persistent sleepy driving detected! Please take a break immediately.'
+  },
+  {
+    className: 'DangerousDriving',
+    alertType: 'dangerousDriving',
+    statusKey: 'lastDangerousAlert',
+    message: '⚠️ Persistent dangerous driving detected! Please drive safely immediately.'
+  },
+  {
+    className: 'Drinking',
+    alertType: 'drinking',
+    statusKey: 'lastDrinkingAlert',
+    message: '🍺 Persistent drinking while driving detected! This is extremely dangerous.'
+  }
+];
+
+/**
+ * Persistent behaviours that should alert now
+ * A behaviour is persistent once its smoothed state has been active for
+ * PERSISTENCE_TIME_MS. The state bridges missed frames and new track ids, so
+ * one broken track does not restart the count. Each state alerts at most
+ * once and each alert type respects its cooldown.
+ * @param {Array} detections - Stable detections from the detection pipeline
+ *   (each carries its behaviour state's `since` and the frame `timestamp`)
+ * @param {Set<string>} alertedStates - Keys of the states that already alerted
+ * @param {Object<string, number>} lastAlertTimes - Last alert time per alert type
+ * @param {number} now - Current time, on the same clock as lastAlertTimes
+ * @returns {Array<{ behavior: Object, track: Object, stateKey: string, duration: number }>}
+ */
+export const findPersistentBehaviors = (detections, alertedStates, lastAlertTimes, now) => {
+  if (!detections || !Array.isArray(detections)) return [];
+
+  return PERSISTENT_BEHAVIORS.flatMap(behavior => {
+    // Any detection of the behaviour carries its state; take the most confident one
+    const track = detections
+      .filter(candidate => candidate.class === behavior.className && candidate.since !== undefined)
+      .sort((a, b) => (b.confidence || 0) - (a.confidence || 0))[0];
+    if (!track) return [];
+
+    const stateKey = `${behavior.className}_${track.since}`;
+    const duration = (track.timestamp ?? now) - track.since;
+    if (duration < PERSISTENCE_TIME_MS || alertedStates.has(stateKey)) {
+      return [];
+    }
+
+    // Session clocks may start at 0, so "never alerted" must not look like an alert at 0
+    const lastAlertTime = lastAlertTimes[behavior.alertType];
+    if (lastAlertTime !== undefined && now - lastAlertTime < ALERT_COOLDOWN_MS) {
+      return [];
+    }
+
+    return [{ behavior, track, stateKey, duration }];
+  });
+};
+
+export const LOW_CONCENTRATION_THRESHOLD = 25; // Percent
+export const LOW_CONCENTRATION_COOLDOWN_MS = 30000; // 30 seconds between concentration alerts
+
+/**
+ * Whether a low-concentration alert should fire now
+ * @param {number | null} concentration - Percent
+ * @param {number | undefined} lastAlertTime - Last low-concentration alert (undefined if none)
+ * @param {number} now - Current time, on the same clock as lastAlertTime
+ */
+export const isLowConcentrationDue = (concentration, lastAlertTime, now) => {
+  if (concentration === undefined || concentration === null) return false;
+  if (concentration > LOW_CONCENTRATION_THRESHOLD) return false;
+  return lastAlertTime === undefined || now - lastAlertTime >= LOW_CONCENTRATION_COOLDOWN_MS;
+};
+
+/**
+ * Alert for a microsleep, raised the moment a closure becomes one
+ * Microsleeps do not wait for a behaviour to persist: each one alerts at once.
+ * @param {{ duration: number, minEar: number }} closure
+ * @returns {{ level: string, alertType: string, message: string }}
+ */
+export const createMicrosleepAlert = (closure) => ({
+  level: 'critical',
+  alertType: 'microsleep',
+  message: `😴 Microsleep: eyes closed for ${(closure.duration / 1000).toFixed(1)}s. Pull over and rest now!`
+});
+
+const PERCLOS_ALERTS = getDrowsinessConfig().alerts;
+
+// PERCLOS alert levels, most severe first
+export const PERCLOS_ALERT_LEVELS = [
+  { level: 'critical', alertType: 'perclosCritical', ...PERCLOS_ALERTS.critical },
+  { level: 'warning', alertType: 'perclosWarning', ...PERCLOS_ALERTS.warning }
+];
+
+/**
+ * PERCLOS alert that should fire now
+ * A level is silent during its own cooldown and the cooldown of any more
+ * severe level, so a critical alert is never followed by a warning.
+ * @param {number | null} perclos - 0 to 1
+ * @param {Object<string, number>} lastAlertTimes - Last alert time per alert type
+ * @param {number} now - Current time, on the same clock as lastAlertTimes
+ * @returns {{ level: string, alertType: string, message: string } | null}
+ */
+export const findDuePerclosAlert = (perclos, lastAlertTimes, now) => {
+  if (perclos === undefined || perclos === null) return null;
+
+  const index = PERCLOS_ALERT_LEVELS.findIndex(level => perclos >= level.perclos);
+  if (index === -1) return null;
+
+  const { level, alertType, cooldownMs } = PERCLOS_ALERT_LEVELS[index];
+  const cooling = PERCLOS_ALERT_LEVELS.slice(0, index + 1).some(({ alertType: type }) => {
+    const lastAlertTime = lastAlertTimes[type];
+    return lastAlertTime !== undefined && now - lastAlertTime < cooldownMs;
+  });
+  if (cooling) return null;
+
+  const percent = Math.round(perclos * 100);
+  return {
+    level,
+    alertType,
+    message: level === 'critical'
+      ? `😴 Severe drowsiness: eyes closed ${percent}% of the time (PERCLOS). Stop and rest now!`
+      : `😴 Drowsiness building up: eyes closed ${percent}% of the time (PERCLOS). Plan a break.`
+  };
+};
+
+const HEAD_POSE = getHeadPoseConfig();
+
+/**
+ * Head pose alert that should fire now
+ * Looking away or down alerts once it has lasted its minimum time; nodding
+ * alerts on the nod that makes enough nods in the nod window.
+ * @param {import('@/services/headPoseAnalyzer').HeadPoseSample | null} sample
+ * @param {Object<string, number>} lastAlertTimes - Last alert time per alert type
+ * @param {number} now - Current time, on the same clock as lastAlertTimes
+ * @returns {{ level: string, alertType: string, message: string } | null}
+ */
+export const findDueHeadPoseAlert = (sample, lastAlertTimes, now) => {
+  if (!sample) return null;
+
+  let alert = null;
+  if (sample.event?.type === 'nod' && sample.nods >= HEAD_POSE.nod.count) {
+    alert = {
+      level: 'critical',
+      alertType: 'nodding',
+      message: `😴 Nodding off: ${sample.nods} head nods in the last ${Math.round(HEAD_POSE.nod.windowMs / 1000)}s. Pull over and rest now!`
+    };
+  } else if (sample.onset?.type === 'lookingAway') {
+    alert = {
+      level: 'warning',
+      alertType: 'lookingAway',
+      message: `👀 Eyes off the road: looking ${sample.onset.direction} for more than ${Math.round(sample.onset.duration / 1000)}s.`
+    };
+  } else if (sample.onset?.type === 'lookingDown') {
+    alert = {
+      level: 'warning',
+      alertType: 'lookingDown',
+      message: `📱 Looking down for more than ${Math.round(sample.onset.duration / 1000)}s. Keep your eyes on the road.`
+    };
+  }
+  if (!alert) return null;
+
+  const lastAlertTime = lastAlertTimes[alert.alertType];
+  if (lastAlertTime !== undefined && now - lastAlertTime < HEAD_POSE.alerts[alert.alertType].cooldownMs) {
+    return null;
+  }
+  return alert;
+};
+
+const PRESENCE_ALERTS = {
+  absent: { alertType: 'driverAbsent', message: (seconds) => `🚫 No driver detected for ${seconds}s. The driver left the seat, turned fully away or the camera is covered.` },
+  partial: { alertType: 'driverPartial', message: (seconds) => `⚠️ Driver only partially visible for ${seconds}s. Check the camera position.` },
+  multiple: { alertType: 'multipleFaces', message: (seconds) => `👥 Several faces in front of the driver camera for ${seconds}s.` }
+};
+
+/**
+ * Alert for a presence escalation step that sends one
+ * @param {import('@/services/presenceMonitor').PresenceEscalation | null} escalation
+ * @returns {{ level: string, alertType: string, message: string } | null}
+ */
+export const createPresenceAlert = (escalation) => {
+  if (!escalation?.alert) return null;
+  const { alertType, message } = PRESENCE_ALERTS[escalation.state];
+  return { level: escalation.level, alertType, message: message(Math.round(escalation.duration / 1000)) };
+};
+
+/**
+ * Alert for a camera problem that lasted long enough to raise an event
+ * @param {import('@/services/cameraHealth').CameraHealthEvent} event
+ * @param {string} cameraLabel - Camera name shown in the message
+ * @returns {{ level: string, alertType: string, message: string }}
+ */
+export const createCameraHealthAlert = (event, cameraLabel) => {
+  // Same wording as the camera health panel
+  const { labels } = getCameraHealthConfig();
+  const issues = event.issues.map(issue => (labels[issue] ?? issue).toLowerCase()).join(', ');
+  const seconds = Math.round(event.duration / 1000);
+  return event.type === 'cameraTamper'
+    ? { level: 'critical', alertType: 'cameraTamper', message: `🛑 Possible camera tampering on the ${cameraLabel} (${issues}) for ${seconds}s.` }
+    : { level: 'warning', alertType: 'cameraFault', message: `📷 Camera fault on the ${cameraLabel} (${issues}) for ${seconds}s. Driver monitoring is unreliable.` };
+};
+
+/**
+ * @typedef {Object} Alert
+ * @property {'warning' | 'critical'} level
+ * @property {string} alertType - Telegram alert type, also the cooldown key
+ * @property {string} message
+ */
+
+/**
+ * Alert rule set
+ * Every alert rule together with the state that keeps an alert from
+ * repeating: a behaviour state, a microsleep, a presence step and a camera
+ * event alert once each, the other rules within their cooldowns. An alert
+ * is recorded the moment it is decided, not once it has been sent, so a
+ * slow upload cannot let it fire again. Live monitoring and session
+ * replay each keep one, so both raise the same alerts at the same times.
+ */
+export class AlertRuleSet {
+  constructor() {
+    this.reset();
+  }
+
+  reset() {
+    this.lastAlertTimes = {};
+    this.alertedStates = new Set();
+    this.alertedKeys = new Set();
+  }
+
+  record(alert, now) {
+    this.lastAlertTimes[alert.alertType] = now;
+    return alert;
+  }
+
+  /**
+   * Whether an alert identified by key has not fired yet; marks it as fired
+   */
+  claim(key) {
+    if (this.alertedKeys.has(key)) return false;
+    this.alertedKeys.add(key);
+    return true;
+  }
+
+  /**
+   * Persistent behaviours of the driver camera's stable detections
+   * @returns {Array<Alert & { statusKey: string, track: Object, duration: number }>}
+   */
+  checkDetections(detections, now) {
+    return findPersistentBehaviors(detections, this.alertedStates, this.lastAlertTimes, now)
+      .map(({ behavior, track, stateKey, duration }) => {
+        this.alertedStates.add(stateKey);
+        return this.record({
+          level: 'critical',
+          alertType: behavior.alertType,
+          message: behavior.message,
+          statusKey: behavior.statusKey,
+          track,
+          duration
+        }, now);
+      });
+  }
+
+  /**
+   * @param {number | null} concentration - Percent
+   * @returns {Alert | null}
+   */
+  checkConcentration(concentration, now) {
+    if (!isLowConcentrationDue(concentration, this.lastAlertTimes.lowConcentration, now)) return null;
+    return this.record({
+      level: 'warning',
+      alertType: 'lowConcentration',
+      message: `⚠️ Low concentration detected: ${concentration}%! Please focus on driving safely.`
+    }, now);
+  }
+
+  /**
+   * @param {{ time: number, duration: number, minEar: number } | null} microsleep - Latest microsleep
+   * @returns {Alert | null}
+   */
+  checkMicrosleep(microsleep, now) {
+    if (!microsleep || !this.claim(`microsleep-${microsleep.time}`)) return null;
+    return this.record(createMicrosleepAlert(microsleep), now);
+  }
+
+  /**
+   * @param {number | null} perclos - 0 to 1
+   * @returns {Alert | null}
+   */
+  checkPerclos(perclos, now) {
+    const alert = findDuePerclosAlert(perclos, this.lastAlertTimes, now);
+    return alert ? this.record(alert, now) : null;
+  }
+
+  /**
+   * @param {import('@/services/headPoseAnalyzer').HeadPoseSample | null} sample
+   * @returns {Alert | null}
+   */
+  checkHeadPose(sample, now) {
+    const alert = findDueHeadPoseAlert(sample, this.lastAlertTimes, now);
+    return alert ? this.record(alert, now) : null;
+  }
+
+  /**
+   * @param {import('@/services/presenceMonitor').PresenceSample | null} presence
+   * @returns {Alert | null}
+   */
+  checkPresence(presence, now) {
+    const escalation = presence?.escalation;
+    const alert = createPresenceAlert(escalation);
+    if (!alert || !this.claim(`presence-${escalation.since}-${escalation.level}`)) return null;
+    return this.record(alert, now);
+  }
+
+  /**
+   * @param {import('@/services/cameraHealth').CameraHealthEvent | null} event
+   * @param {string} cameraLabel - Camera name shown in the message
+   * @returns {Alert | null}
+   */
+  checkCameraEvent(event, cameraLabel, now) {
+    if (!event || !this.claim(`camera-${event.cameraId}-${event.time}`)) return null;
+    return this.record(createCameraHealthAlert(event, cameraLabel), now);
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AlertRuleSet,
+  ALERT_COOLDOWN_MS,
+  findDuePerclosAlert,
+  findPersistentBehaviors,
+  isLowConcentrationDue,
+  PERSISTENCE_TIME_MS
+} from '@/services/alertRules';
+
+// Stable detection of a behaviour whose smoothed state started at `since`
+const detection = (className, since, timestamp, confidence = 0.8) => ({
+  id: `trk_${className}`,
+  class: className,
+  confidence,
+  since,
+  timestamp
+});
+
+describe('findPersistentBehaviors', () => {
+  it('alerts once a behaviour state has lasted the persistence time', () => {
+    expect(findPersistentBehaviors([detection('Drinking', 0, PERSISTENCE_TIME_MS - 1)], new Set(), {}, PERSISTENCE_TIME_MS - 1)).toEqual([]);
+
+    const [due] = findPersistentBehaviors([detection('Drinking', 0, PERSISTENCE_TIME_MS)], new Set(), {}, PERSISTENCE_TIME_MS);
+    expect(due.behavior.alertType).toBe('drinking');
+    expect(due.stateKey).toBe('Drinking_0');
+    expect(due.duration).toBe(PERSISTENCE_TIME_MS);
+  });
+
+  it('skips states that already alerted and alert types in their cooldown', () => {
+    const detections = [detection('Drinking', 0, 12000)];
+
+    expect(findPersistentBehaviors(detections, new Set(['Drinking_0']), {}, 12000)).toEqual([]);
+    expect(findPersistentBehaviors(detections, new Set(), { drinking: 12000 - ALERT_COOLDOWN_MS + 1 }, 12000)).toEqual([]);
+  });
+
+  it('treats an alert at time 0 as an alert', () => {
+    expect(findPersistentBehaviors([detection('Drinking', 5000, 15000)], new Set(), { drinking: 0 }, 15000)).toEqual([]);
+  });
+
+  it('ignores classes that do not persist into alerts', () => {
+    expect(findPersistentBehaviors([detection('Yawn', 0, 20000)], new Set(), {}, 20000)).toEqual([]);
+  });
+});
+
+describe('isLowConcentrationDue', () => {
+  it('fires at or below the threshold outside its cooldown', () => {
+    expect(isLowConcentrationDue(null, undefined, 0)).toBe(false);
+    expect(isLowConcentrationDue(26, undefined, 0)).toBe(false);
+    expect(isLowConcentrationDue(25, undefined, 0)).toBe(true);
+    expect(isLowConcentrationDue(10, 0, 29999)).toBe(false);
+    expect(isLowConcentrationDue(10, 0, 30000)).toBe(true);
+  });
+});
+
+describe('findDuePerclosAlert', () => {
+  it('picks the level the PERCLOS reached', () => {
+    expect(findDuePerclosAlert(0.1, {}, 0)).toBeNull();
+    expect(findDuePerclosAlert(0.2, {}, 0).alertType).toBe('perclosWarning');
+    expect(findDuePerclosAlert(0.35, {}, 0).alertType).toBe('perclosCritical');
+  });
+
+  it('does not follow a critical alert with a warning during the warning cooldown', () => {
+    expect(findDuePerclosAlert(0.2, { perclosCritical: 0 }, 119999)).toBeNull();
+    expect(findDuePerclosAlert(0.2, { perclosCritical: 0 }, 120000).alertType).toBe('perclosWarning');
+  });
+});
+
+describe('AlertRuleSet', () => {
+  it('alerts on a persistent behaviour state once', () => {
+    const rules = new AlertRuleSet();
+    const [alert] = rules.checkDetections([detection('Drinking', 1000, 11000)], 11000);
+
+    expect(alert).toMatchObject({ level: 'critical', alertType: 'drinking', statusKey: 'lastDrinkingAlert', duration: 10000 });
+    expect(rules.checkDetections([detection('Drinking', 1000, 11500)], 11500)).toEqual([]);
+  });
+
+  it('starts cooldowns when an alert is decided', () => {
+    const rules = new AlertRuleSet();
+
+    expect(rules.checkConcentration(20, 0)).toMatchObject({ alertType: 'lowConcentration' });
+    expect(rules.checkConcentration(20, 1000)).toBeNull();
+    expect(rules.checkConcentration(20, 30000)).not.toBeNull();
+  });
+
+  it('alerts once per microsleep, presence step and camera event', () => {
+    const rules = new AlertRuleSet();
+    const microsleep = { time: 5000, duration: 1200, minEar: 0.1 };
+    const presence = { escalation: { state: 'absent', level: 'critical', since: 2000, duration: 10000, alert: true } };
+    const event = { type: 'cameraTamper', cameraId: 'road', time: 3000, duration: 3000, issues: ['occlusion'] };
+
+    expect(rules.checkMicrosleep(microsleep, 6200)).toMatchObject({ alertType: 'microsleep' });
+    expect(rules.checkMicrosleep(microsleep, 6400)).toBeNull();
+    expect(rules.checkPresence(presence, 12000)).toMatchObject({ alertType: 'driverAbsent', level: 'critical' });
+    expect(rules.checkPresence(presence, 12500)).toBeNull();
+    expect(rules.checkCameraEvent(event, 'Road Cam', 6000).message).toContain('Road Cam (covered)');
+    expect(rules.checkCameraEvent(event, 'Road Cam', 6500)).toBeNull();
+  });
+
+  it('ignores presence steps that do not alert', () => {
+    const rules = new AlertRuleSet();
+
+    expect(rules.checkPresence({ escalation: { state: 'absent', level: 'warning', since: 0, duration: 3000 } }, 3000)).toBeNull();
+    expect(rules.checkPresence({ escalation: null }, 3000)).toBeNull();
+  });
+
+  it('forgets what alerted on reset', () => {
+    const rules = new AlertRuleSet();
+    rules.checkConcentration(20, 0);
+    rules.reset();
+
+    expect(rules.checkConcentration(20, 1000)).not.toBeNull();
+  });
+});
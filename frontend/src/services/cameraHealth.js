@@ -0,0 +1,207 @@
+import { getCameraHealthConfig } from '@/config/cameraHealth';
+import { framePreprocessor } from '@/services/framePreprocessor';
+import { findImageIssues, measureImageQuality, toGrayscale } from '@/utils/imageQuality';
+
+/**
+ * @typedef {Object} CameraHealthEvent
+ * @property {'cameraTamper' | 'cameraFault'} type
+ * @property {string} cameraId
+ * @property {number} time - When the problem started
+ * @property {number} duration - Milliseconds, up to the sample for an ongoing problem
+ * @property {string[]} issues - Checks failed during the problem
+ */
+
+/**
+ * @typedef {Object} CameraHealthSample
+ * @property {string} cameraId
+ * @property {'ok' | 'degraded' | 'tamper' | 'fault'} status - degraded: failing, but not yet for sustainMs
+ * @property {string[]} issues - Checks failed by this frame
+ * @property {boolean} reliable - Whether detections on this camera can be trusted
+ * @property {import('@/utils/imageQuality').ImageQuality | null} quality - null when the camera stalled
+ * @property {number} timestamp
+ * @property {CameraHealthEvent | null} onset - Problem that just lasted long enough to raise an event
+ * @property {CameraHealthEvent | null} ended - Problem that ended on this sample
+ */
+
+/**
+ * Camera health monitor
+ * Picture quality of one camera on sampled frames. Any failed check makes
+ * the camera unreliable straight away; once failures have lasted sustainMs
+ * they become a tamper event (covered or darkened lens) or a fault event
+ * (glare, blur, frozen picture) until a frame passes every check again.
+ */
+export class CameraHealthMonitor {
+  constructor(cameraId, config = getCameraHealthConfig()) {
+    this.cameraId = cameraId;
+    this.config = config;
+    this.canvas = null;
+    this.reset();
+  }
+
+  reset() {
+    this.previous = null;
+    this.failingSince = null;
+    this.problem = null;
+    this.lastSampleAt = null;
+    this.lastSample = null;
+  }
+
+  /**
+   * Grayscale pixels of a frame, scaled down to sampleWidth
+   * @param {import('@/services/frameScheduler').ScheduledFrame} frame
+   */
+  measure(frame) {
+    const width = Math.min(this.config.sampleWidth, frame.width);
+    const height = Math.max(1, Math.round(frame.height * width / frame.width));
+    if (!this.canvas || this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas = new OffscreenCanvas(width, height);
+    }
+
+    const context = this.canvas.getContext('2d', { willReadFrequently: true });
+    context.drawImage(frame.bitmap, 0, 0, width, height);
+    return { gray: toGrayscale(context.getImageData(0, 0, width, height).data), width, height };
+  }
+
+  /**
+   * Health of one scheduled frame
+   * @returns {CameraHealthSample}
+   */
+  process(frame) {
+    const { gray, width, height } = this.measure(frame);
+    const quality = measureImageQuality(gray, width, height, this.previous, this.config);
+    this.previous = gray;
+    this.lastSampleAt = frame.capturedAt;
+    return this.update(quality, frame.capturedAt, framePreprocessor.getState(frame.cameraId)?.active ?? false);
+  }
+
+  /**
+   * A camera whose frames stopped arriving is frozen
+   * @returns {CameraHealthSample | null} null while frames arrive
+   */
+  checkStall(timestamp) {
+    if (this.lastSampleAt === null || timestamp - this.lastSampleAt < this.config.checks.frozen.stallMs) return null;
+    return this.update(null, timestamp);
+  }
+
+  /**
+   * @param {import('@/utils/imageQuality').ImageQuality | null} quality - null when no frame arrived
+   * @param {number} timestamp - Milliseconds
+   * @param {boolean} [enhanced] - The models see preprocessed frames, so a dark raw picture is not a problem
+   * @returns {CameraHealthSample}
+   */
+  update(quality, timestamp, enhanced = false) {
+    const issues = quality
+      ? findImageIssues(quality, this.config.checks).filter(issue => !(enhanced && issue === 'dark'))
+      : ['frozen'];
+    let onset = null;
+    let ended = null;
+
+    if (issues.length === 0) {
+      if (this.problem) {
+        ended = { ...this.problem, duration: timestamp - this.problem.time };
+        console.log(`📷 Camera ${this.cameraId} recovered after ${Math.round(ended.duration / 1000)}s`);
+      }
+      this.failingSince = null;
+      this.problem = null;
+    } else {
+      this.failingSince ??= timestamp;
+      if (this.problem) {
+        this.problem.issues = Array.from(new Set([...this.problem.issues, ...issues]));
+      } else if (timestamp - this.failingSince >= this.config.sustainMs) {
+        const tamper = issues.some(issue => this.config.kinds[issue] === 'tamper');
+        this.problem = {
+          type: tamper ? 'cameraTamper' : 'cameraFault',
+          cameraId: this.cameraId,
+          time: this.failingSince,
+          issues
+        };
+        onset = { ...this.problem, duration: timestamp - this.failingSince };
+        console.warn(`📷 Camera ${tamper ? 'tamper' : 'fault'} on ${this.cameraId}: ${issues.join(', ')}`);
+      }
+    }
+
+    const status = this.problem
+      ? (this.problem.type === 'cameraTamper' ? 'tamper' : 'fault')
+      : (issues.length > 0 ? 'degraded' : 'ok');
+
+    this.lastSample = {
+      cameraId: this.cameraId,
+      status,
+      issues,
+      reliable: issues.length === 0,
+      quality,
+      timestamp,
+      onset,
+      ended
+    };
+    return this.lastSample;
+  }
+}
+
+/**
+ * Camera health
+ * One monitor per attached camera. Fed by the frame schedulers, read by the
+ * detector to mark detections on unusable frames and by the status panel.
+ */
+export class CameraHealth {
+  constructor(config = getCameraHealthConfig()) {
+    this.config = config;
+    this.monitors = new Map();
+    this.listeners = new Set();
+  }
+
+  getMonitor(cameraId) {
+    if (!this.monitors.has(cameraId)) {
+      this.monitors.set(cameraId, new CameraHealthMonitor(cameraId, this.config));
+    }
+    return this.monitors.get(cameraId);
+  }
+
+  /**
+   * Check a scheduled frame of any camera
+   */
+  process(frame) {
+    this.publish(this.getMonitor(frame.cameraId).process(frame));
+  }
+
+  /**
+   * Flag cameras whose frames stopped arriving
+   */
+  checkStalls(timestamp) {
+    this.monitors.forEach(monitor => {
+      const sample = monitor.checkStall(timestamp);
+      if (sample) this.publish(sample);
+    });
+  }
+
+  /**
+   * Whether the latest frame of a camera passed every check (true before the first check)
+   */
+  isReliable(cameraId) {
+    return this.monitors.get(cameraId)?.lastSample?.reliable ?? true;
+  }
+
+  /**
+   * Forget a detached camera
+   */
+  remove(cameraId) {
+    this.monitors.delete(cameraId);
+  }
+
+  publish(sample) {
+    this.listeners.forEach(listener => listener(sample));
+  }
+
+  /**
+   * @param {(sample: CameraHealthSample) => void} listener - Called for every checked frame
+   * @returns {() => void} unsubscribe function
+   */
+  subscribe(listener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+// Shared by the frame schedulers of every camera
+export const cameraHealth = new CameraHealth();
+export default cameraHealth;
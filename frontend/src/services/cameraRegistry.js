@@ -0,0 +1,103 @@
+import { CAMERA_ROLES } from '@/config/camera';
+import { getSchedulerConfig } from '@/config/scheduler';
+import { FrameScheduler, frameScheduler } from '@/services/frameScheduler';
+import { sessionClock } from '@/services/sessionClock';
+
+/**
+ * @typedef {Object} AttachedCamera
+ * @property {string} cameraId - Camera role (driver, cabin, road)
+ * @property {string} label - Device label shown to the user
+ * @property {HTMLVideoElement} video
+ * @property {FrameScheduler} scheduler
+ */
+
+/**
+ * Camera registry
+ * Tracks the cameras attached to the monitoring session, gives each its own
+ * frame scheduler (the driver camera uses the shared frameScheduler) and
+ * starts the session clock with the first camera.
+ */
+export class CameraRegistry {
+  constructor() {
+    this.cameras = new Map();
+    this.schedulers = new Map([['driver', frameScheduler]]);
+    this.listeners = new Set();
+  }
+
+  /**
+   * Frame scheduler of a camera, created on first use
+   */
+  getScheduler(cameraId) {
+    if (!this.schedulers.has(cameraId)) {
+      this.schedulers.set(cameraId, new FrameScheduler(getSchedulerConfig(), cameraId));
+    }
+    return this.schedulers.get(cameraId);
+  }
+
+  /**
+   * Attach a playing camera to the session and start its frame loop
+   * @param {string} cameraId - Key of CAMERA_ROLES
+   * @param {{ video: HTMLVideoElement, label?: string }} camera
+   */
+  attach(cameraId, { video, label }) {
+    if (!CAMERA_ROLES[cameraId]) {
+      throw new Error(`Unknown camera role: ${cameraId}`);
+    }
+
+    sessionClock.start();
+    const scheduler = this.getScheduler(cameraId);
+    scheduler.start(video);
+    this.cameras.set(cameraId, {
+      cameraId,
+      label: label || CAMERA_ROLES[cameraId].label,
+      video,
+      scheduler
+    });
+
+    console.log(`📷 Camera attached: ${cameraId}`);
+    this.notify();
+    return scheduler;
+  }
+
+  /**
+   * Detach a camera; the session ends with the last camera
+   */
+  detach(cameraId) {
+    const camera = this.cameras.get(cameraId);
+    if (!camera) return;
+
+    camera.scheduler.stop();
+    this.cameras.delete(cameraId);
+    if (this.cameras.size === 0) {
+      sessionClock.reset();
+    }
+
+    console.log(`📷 Camera detached: ${cameraId}`);
+    this.notify();
+  }
+
+  /**
+   * Cameras currently attached
+   * @returns {AttachedCamera[]}
+   */
+  getCameras() {
+    return Array.from(this.cameras.values());
+  }
+
+  /**
+   * Listen for cameras being attached or detached; returns an unsubscribe function
+   */
+  subscribe(listener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  notify() {
+    const cameras = this.getCameras();
+    this.listeners.forEach(listener => listener(cameras));
+  }
+}
+
+// Export singleton instance
+export const cameraRegistry = new CameraRegistry();
+export default cameraRegistry;
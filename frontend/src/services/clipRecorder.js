@@ -0,0 +1,342 @@
+import { getRecordingConfig } from '@/config/recording';
+import { ROBOFLOW_CONFIG } from '@/config/roboflow';
+import { cameraRegistry } from '@/services/cameraRegistry';
+import { sessionClock } from '@/services/sessionClock';
+import { yawnFusion } from '@/services/yawnFusion';
+import { saveClip } from '@/utils/clipStore';
+import { drawDetections } from '@/utils/drawDetections';
+
+const getClassConfig = (className) => ROBOFLOW_CONFIG.classes[className] || { color: '#808080', label: className };
+
+/**
+ * Pick the first recording format the browser supports
+ */
+const pickMimeType = (candidates) => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+};
+
+/**
+ * Rolling recorder of one camera
+ * A single MediaRecorder runs for as long as the camera is attached. Its
+ * first chunk (the container header) is kept for good, later chunks only
+ * while they are inside the pre/post event window. A clip is the header
+ * followed by the chunks covering the window, which players decode from
+ * the first key frame on (key frames are requested once per chunk).
+ */
+export class RollingRecorder {
+  constructor(cameraId, config = getRecordingConfig()) {
+    this.cameraId = cameraId;
+    this.config = config;
+    this.recorder = null;
+    this.mimeType = null;
+    this.header = null;
+    this.chunks = [];
+    this.pending = [];
+    this.detections = [];
+    this.overlayTimer = null;
+  }
+
+  get isRecording() {
+    return this.recorder?.state === 'recording';
+  }
+
+  /**
+   * Start recording a playing video element
+   * @returns {boolean} Whether recording started
+   */
+  start(video) {
+    if (this.recorder) return true;
+
+    this.mimeType = pickMimeType(this.config.mimeTypes);
+    if (this.mimeType === null) {
+      console.warn('🎬 MediaRecorder not available - event clips disabled');
+      return false;
+    }
+
+    const stream = this.config.burnInOverlay ? this.createOverlayStream(video) : video.srcObject;
+    if (!(stream instanceof MediaStream)) {
+      console.warn(`🎬 [${this.cameraId}] No camera stream to record`);
+      return false;
+    }
+
+    const recorder = new MediaRecorder(stream, {
+      ...(this.mimeType ? { mimeType: this.mimeType } : {}),
+      videoBitsPerSecond: this.config.videoBitsPerSecond,
+      videoKeyFrameIntervalDuration: this.config.timesliceMs
+    });
+    this.mimeType = recorder.mimeType || this.mimeType;
+
+    recorder.ondataavailable = (event) => this.handleChunk(event.data);
+    // Flush straight away so the header chunk holds almost no video
+    recorder.onstart = () => recorder.requestData();
+    recorder.onstop = () => this.flushPending();
+    recorder.onerror = (event) => console.error(`🎬 [${this.cameraId}] Recorder error:`, event.error);
+
+    this.recorder = recorder;
+    recorder.start(this.config.timesliceMs);
+    console.log(`🎬 [${this.cameraId}] Rolling recorder started (${this.mimeType || 'default format'}, ${this.config.preEventSeconds}s buffer)`);
+    return true;
+  }
+
+  /**
+   * Stop recording; clips still waiting for post-event video are saved with what was recorded
+   */
+  stop() {
+    if (this.overlayTimer) {
+      clearInterval(this.overlayTimer);
+      this.overlayTimer = null;
+    }
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    } else {
+      this.flushPending();
+    }
+    this.recorder = null;
+  }
+
+  /**
+   * Draw the camera and its detection boxes on a canvas and record that instead
+   */
+  createOverlayStream(video) {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth || 640;
+    canvas.height = video.videoHeight || 480;
+    const ctx = canvas.getContext('2d');
+
+    this.overlayTimer = setInterval(() => {
+      if (video.readyState < 2) return; // HAVE_CURRENT_DATA
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      drawDetections(ctx, this.detections, {
+        getClassConfig,
+        scaleX: canvas.width / (video.videoWidth || canvas.width),
+        scaleY: canvas.height / (video.videoHeight || canvas.height)
+      });
+    }, 1000 / this.config.overlayFrameRate);
+
+    return canvas.captureStream(this.config.overlayFrameRate);
+  }
+
+  /**
+   * Latest stable detections, drawn when the overlay is burned in
+   */
+  setDetections(detections) {
+    this.detections = detections;
+  }
+
+  handleChunk(data) {
+    if (!data || data.size === 0) return;
+    const receivedAt = Date.now();
+
+    if (!this.header) {
+      this.header = data;
+      return;
+    }
+    this.chunks.push({ data, receivedAt });
+
+    // Drop chunks no pending or future clip can reach
+    const windowMs = (this.config.preEventSeconds + this.config.postEventSeconds) * 1000 + this.config.timesliceMs * 2;
+    while (this.chunks.length > 0 && this.chunks[0].receivedAt < receivedAt - windowMs) {
+      this.chunks.shift();
+    }
+
+    const ready = this.pending.filter(clip => receivedAt >= clip.until);
+    ready.forEach(clip => this.finishClip(clip));
+  }
+
+  /**
+   * Record a clip around an event
+   * Resolves once the post-event video has been recorded, or when the
+   * recorder stops, whichever comes first.
+   * @param {number} eventTime - Epoch milliseconds
+   * @returns {Promise<{ blob: Blob, startedAt: number, endedAt: number, mimeType: string } | null>}
+   */
+  captureClip(eventTime) {
+    if (!this.recorder) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      this.pending.push({
+        from: eventTime - this.config.preEventSeconds * 1000,
+        until: eventTime + this.config.postEventSeconds * 1000,
+        resolve
+      });
+    });
+  }
+
+  finishClip(clip) {
+    this.pending = this.pending.filter(other => other !== clip);
+
+    // A chunk covers the timeslice before it was received
+    const covered = this.chunks.filter(({ receivedAt }) =>
+      receivedAt > clip.from && receivedAt - this.config.timesliceMs <= clip.until
+    );
+    if (!this.header || covered.length === 0) {
+      clip.resolve(null);
+      return;
+    }
+
+    clip.resolve({
+      blob: new Blob([this.header, ...covered.map(chunk => chunk.data)], { type: this.mimeType || 'video/webm' }),
+      startedAt: covered[0].receivedAt - this.config.timesliceMs,
+      endedAt: covered[covered.length - 1].receivedAt,
+      mimeType: this.mimeType || 'video/webm'
+    });
+  }
+
+  flushPending() {
+    [...this.pending].forEach(clip => this.finishClip(clip));
+    this.header = null;
+    this.chunks = [];
+  }
+}
+
+/**
+ * Event clip recorder
+ * Keeps a rolling recorder on every attached camera and saves a clip when
+ * a confirmed behaviour of one of the trigger classes starts, or when a
+ * yawn is confirmed. The detector's Yawn class alone does not trigger
+ * clips, as it also fires when drivers talk or sing.
+ */
+export class ClipRecorder {
+  constructor(config = getRecordingConfig()) {
+    this.config = config;
+    this.recorders = new Map();
+    this.lastClipTimes = new Map();
+    this.unsubscribe = null;
+    this.unsubscribeYawns = null;
+  }
+
+  /**
+   * Follow the camera registry, starting and stopping recorders with the cameras
+   */
+  start() {
+    if (!this.config.enabled || this.unsubscribe) return;
+    this.unsubscribe = cameraRegistry.subscribe(cameras => this.syncCameras(cameras));
+    if (this.config.yawnClips) {
+      this.unsubscribeYawns = yawnFusion.subscribe(yawn => this.handleYawn(yawn));
+    }
+    this.syncCameras(cameraRegistry.getCameras());
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.unsubscribeYawns?.();
+    this.unsubscribeYawns = null;
+    this.syncCameras([]);
+  }
+
+  syncCameras(cameras) {
+    const attached = new Set(cameras.map(camera => camera.cameraId));
+
+    this.recorders.forEach((recorder, cameraId) => {
+      if (!attached.has(cameraId)) {
+        recorder.stop();
+        this.recorders.delete(cameraId);
+      }
+    });
+
+    cameras.forEach(({ cameraId, video }) => {
+      if (this.recorders.has(cameraId)) return;
+      const recorder = new RollingRecorder(cameraId, this.config);
+      if (recorder.start(video)) {
+        this.recorders.set(cameraId, recorder);
+      }
+    });
+  }
+
+  /**
+   * Pass the latest detections of a camera to its recorder (for the burned-in overlay)
+   */
+  setDetections(cameraId, detections) {
+    this.recorders.get(cameraId)?.setDetections(detections);
+  }
+
+  /**
+   * Save clips for the confirmed behaviour starts among a batch of detection events
+   * @param {Array} events - Smoothed events with cameraId and sessionTime
+   */
+  handleEvents(events) {
+    events
+      .filter(event => event.type === 'started' && this.config.triggerClasses.includes(event.class))
+      .forEach(event => this.trigger(event));
+  }
+
+  /**
+   * Save a driver camera clip from the start of a confirmed yawn
+   * @param {import('@/services/yawnFusion').YawnEvent} yawn
+   */
+  handleYawn(yawn) {
+    this.trigger({
+      type: 'yawn',
+      class: 'Yawn',
+      cameraId: 'driver',
+      timestamp: yawn.time,
+      confidence: yawn.confidence
+    });
+  }
+
+  trigger(event) {
+    const key = `${event.cameraId}:${event.class}`;
+    const lastTime = this.lastClipTimes.get(key);
+    if (lastTime && event.timestamp - lastTime < this.config.minClipGapMs) return;
+
+    this.lastClipTimes.set(key, event.timestamp);
+    this.saveEventClips(event);
+  }
+
+  /**
+   * Record and store clips around an event
+   * @returns {Promise<Array>} Metadata of the saved clips
+   */
+  async saveEventClips(event) {
+    const cameraIds = this.config.allCameras
+      ? Array.from(this.recorders.keys())
+      : [event.cameraId].filter(cameraId => this.recorders.has(cameraId));
+    const labels = new Map(cameraRegistry.getCameras().map(camera => [camera.cameraId, camera.label]));
+
+    const saved = await Promise.all(cameraIds.map(async (cameraId) => {
+      const recording = await this.recorders.get(cameraId).captureClip(event.timestamp);
+      if (!recording) return null;
+
+      const clip = {
+        id: `clip_${event.timestamp}_${cameraId}_${event.class}`,
+        cameraId,
+        cameraLabel: labels.get(cameraId) || cameraId,
+        event: {
+          class: event.class,
+          type: event.type,
+          timestamp: event.timestamp,
+          confidence: event.confidence,
+          cameraId: event.cameraId,
+          sessionTime: event.sessionTime ?? sessionClock.elapsed(event.timestamp)
+        },
+        startedAt: recording.startedAt,
+        endedAt: recording.endedAt,
+        duration: recording.endedAt - recording.startedAt,
+        mimeType: recording.mimeType,
+        size: recording.blob.size,
+        overlay: this.config.burnInOverlay,
+        createdAt: Date.now()
+      };
+      return (await saveClip(clip, recording.blob)) ? clip : null;
+    }));
+
+    return saved.filter(Boolean);
+  }
+
+  getStatus() {
+    return {
+      enabled: this.config.enabled,
+      recording: Array.from(this.recorders.entries())
+        .filter(([, recorder]) => recorder.isRecording)
+        .map(([cameraId]) => cameraId),
+      preEventSeconds: this.config.preEventSeconds,
+      postEventSeconds: this.config.postEventSeconds
+    };
+  }
+}
+
+// Export singleton instance
+export const clipRecorder = new ClipRecorder();
+export default clipRecorder;
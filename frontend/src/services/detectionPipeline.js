@@ -0,0 +1,83 @@
+import { ObjectTracker } from '@/services/objectTracker';
+import { TemporalSmoother } from '@/services/temporalSmoothing';
+
+/**
+ * Detection pipeline
+ * Turns one frame of raw detector output into tracked, smoothed detections:
+ * tracker first (stable ids, gap bridging), then per-class temporal smoothing.
+ * Shared by live inference and offline video analysis.
+ */
+export class DetectionPipeline {
+  constructor({ tracker = new ObjectTracker(), smoother = new TemporalSmoother() } = {}) {
+    this.tracker = tracker;
+    this.smoother = smoother;
+  }
+
+  /**
+   * @param {Array} predictions - Normalized detections of a single frame
+   * @param {{ id: number, capturedAt: number } | null} frame - Source frame (null for push backends)
+   * @returns {{ detections: Array, events: Array, ended: Array }} Stable detections,
+   *   behaviour start/end events and tracks dropped this frame
+   */
+  process(predictions, frame = null) {
+    const frameId = frame?.id ?? null;
+    const processedDetections = predictions.map(prediction => ({
+      ...prediction,
+      frameId,
+      capturedAt: frame?.capturedAt ?? prediction.timestamp
+    }));
+
+    // Associate detections with tracks; tracks bridge short gaps
+    const timestamp = frame?.capturedAt ?? Date.now();
+    const { tracks, ended } = this.tracker.update(processedDetections, timestamp);
+
+    // Smooth per class and collect state transitions
+    const { active, events } = this.smoother.update(tracks, timestamp);
+
+    // Report the tracks of every active behaviour
+    const detections = active.flatMap(state => {
+      const classTracks = tracks.filter(track => track.class === state.class);
+      if (classTracks.length === 0) {
+        // State still held by smoothing after its track expired
+        return [{
+          id: `stable_${state.class}_${state.since}`,
+          class: state.class,
+          confidence: state.confidence,
+          bbox: state.bbox,
+          timestamp,
+          since: state.since,
+          frameId,
+          isStable: true
+        }];
+      }
+      return classTracks.map(track => ({
+        ...track,
+        timestamp,
+        since: state.since,
+        frameId,
+        isStable: true
+      }));
+    });
+
+    return { detections, events, ended };
+  }
+
+  /**
+   * Live tracks, including those bridging a gap
+   */
+  getTracks(timestamp) {
+    return this.tracker.getTracks(timestamp);
+  }
+
+  /**
+   * Behaviour states currently in progress
+   */
+  getActiveStates() {
+    return this.smoother.getActiveStates();
+  }
+
+  reset() {
+    this.tracker.reset();
+    this.smoother.reset();
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Detector Backend Interface
+ * Common contract for every source of driver behaviour detections
+ */
+
+/**
+ * @typedef {Object} BoundingBox
+ * @property {number} x - Left edge in source frame pixels
+ * @property {number} y - Top edge in source frame pixels
+ * @property {number} width
+ * @property {number} height
+ */
+
+/**
+ * @typedef {Object} DetectionEvent
+ * @property {string} class - Model class name (e.g. 'Distracted')
+ * @property {number} confidence - Score between 0 and 1
+ * @property {BoundingBox} bbox
+ * @property {number} timestamp - Epoch milliseconds when the detection was produced
+ */
+
+/**
+ * Convert a Roboflow-style prediction (center based box) into a DetectionEvent
+ */
+export const normalizePrediction = (prediction, timestamp = Date.now()) => {
+  const box = prediction.bbox || prediction;
+  const width = box.width || 0;
+  const height = box.height || 0;
+
+  return {
+    class: prediction.class,
+    confidence: prediction.confidence ?? 0,
+    bbox: {
+      x: (box.x || 0) - width / 2,
+      y: (box.y || 0) - height / 2,
+      width,
+      height
+    },
+    timestamp
+  };
+};
+
+/**
+ * Base class for detector backends.
+ *
+ * Pull backends ('pull' mode) run on frames handed to them through detect().
+ * Push backends ('push' mode) produce detections on their own schedule and
+ * deliver them to subscribers between start() and stop().
+ */
+export class DetectorBackend {
+  constructor(config = {}) {
+    this.config = config;
+    this.listeners = new Set();
+    this.isLoaded = false;
+  }
+
+  /**
+   * 'pull' when the engine must feed frames, 'push' when the backend emits on its own
+   */
+  get mode() {
+    return 'pull';
+  }
+
+  /**
+   * Human readable name shown in the dashboard
+   */
+  get label() {
+    return this.constructor.name;
+  }
+
+  /**
+   * Load model weights or open connections
+   */
+  async load() {
+    this.isLoaded = true;
+  }
+
+  /**
+   * Run detection on a single frame (pull backends only)
+   * @returns {Promise<DetectionEvent[]>}
+   */
+  async detect(source) {
+    throw new Error(`${this.label} does not support frame-by-frame detection`);
+  }
+
+  /**
+   * Begin emitting detections (push backends only)
+   */
+  start() {}
+
+  /**
+   * Stop emitting detections (push backends only)
+   */
+  stop() {}
+
+  /**
+   * Listen for detections emitted by push backends
+   * @param {(detections: DetectionEvent[]) => void} listener
+   * @returns {() => void} unsubscribe function
+   */
+  subscribe(listener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Deliver detections to all subscribers
+   */
+  emit(detections) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(detections);
+      } catch (err) {
+        console.error(`❌ ${this.label} listener error:`, err);
+      }
+    });
+  }
+
+  /**
+   * Release model memory, workers and connections
+   */
+  async dispose() {
+    this.stop();
+    this.listeners.clear();
+    this.isLoaded = false;
+  }
+}
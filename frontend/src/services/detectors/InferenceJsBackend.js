@@ -0,0 +1,77 @@
+import { DetectorBackend, normalizePrediction } from './DetectorBackend';
+import { prepareTensorflow } from './tensorflow';
+import { validateConfig } from '@/config/roboflow';
+
+/**
+ * Roboflow inferencejs worker backend
+ * Weights are fetched from the Roboflow API by the inferencejs worker
+ */
+export class InferenceJsBackend extends DetectorBackend {
+  constructor(config) {
+    super(config);
+    this.engine = null;
+    this.workerId = null;
+    this.CVImage = null;
+  }
+
+  get label() {
+    return `${this.config.modelId}/${this.config.modelVersion}`;
+  }
+
+  async load() {
+    // Validate configuration first
+    const validation = validateConfig(this.config);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(', '));
+    }
+
+    await prepareTensorflow('cpu');
+
+    // Dynamic import to avoid SSR issues
+    const inferenceModule = await import('inferencejs');
+
+    // Handle different export formats
+    let Inference;
+    if (inferenceModule.InferenceEngine) {
+      Inference = inferenceModule.InferenceEngine;
+    } else if (inferenceModule.default) {
+      Inference = inferenceModule.default;
+    } else if (inferenceModule.Inference) {
+      Inference = inferenceModule.Inference;
+    } else if (typeof inferenceModule === 'function') {
+      Inference = inferenceModule;
+    } else {
+      console.error('❌ Available exports:', Object.keys(inferenceModule));
+      throw new Error('Could not find Inference class in inferencejs module');
+    }
+
+    this.CVImage = inferenceModule.CVImage;
+    this.engine = new Inference();
+
+    // Start the worker with the model
+    this.workerId = await this.engine.startWorker(
+      this.config.modelId,
+      this.config.modelVersion,
+      this.config.apiKey
+    );
+
+    this.isLoaded = true;
+  }
+
+  async detect(source) {
+    const cvImage = new this.CVImage(source);
+    const predictions = await this.engine.infer(this.workerId, cvImage);
+    const timestamp = Date.now();
+
+    return predictions.map(prediction => normalizePrediction(prediction, timestamp));
+  }
+
+  async dispose() {
+    await super.dispose();
+    if (this.engine && this.workerId) {
+      await this.engine.stopWorker(this.workerId);
+    }
+    this.engine = null;
+    this.workerId = null;
+  }
+}
@@ -0,0 +1,84 @@
+import { DetectorBackend } from './DetectorBackend';
+import { RECORDING_FORMAT } from '@/services/sessionRecorder';
+
+/**
+ * Detector frames of a session recording made on the dashboard
+ * (driver camera only; landmarks are not replayed through a detector)
+ */
+const framesFromSessionRecording = (recording) => recording.frames
+  .filter(entry => entry.kind === 'detections' && entry.cameraId === 'driver')
+  .map(entry => ({ timestamp: entry.t, detections: entry.predictions }));
+
+/**
+ * File-based replay backend
+ * Plays back a recorded JSON file of the form
+ * { frames: [{ timestamp, detections: DetectionEvent[] }] }, or a session
+ * recording, in real time
+ */
+export class ReplayBackend extends DetectorBackend {
+  constructor(config) {
+    super(config);
+    this.frames = [];
+    this.frameIndex = 0;
+    this.timeout = null;
+  }
+
+  get mode() {
+    return 'push';
+  }
+
+  get label() {
+    return `Replay (${this.config.url})`;
+  }
+
+  async load() {
+    const response = await fetch(this.config.url);
+    if (!response.ok) {
+      throw new Error(`Failed to load replay file ${this.config.url}: ${response.status} (set VITE_REPLAY_URL)`);
+    }
+
+    const recording = await response.json();
+    const frames = recording.format === RECORDING_FORMAT
+      ? framesFromSessionRecording(recording)
+      : recording.frames;
+    if (!Array.isArray(frames) || frames.length === 0) {
+      throw new Error('Replay file contains no frames');
+    }
+
+    this.frames = frames;
+    this.isLoaded = true;
+  }
+
+  start() {
+    this.stop();
+    this.frameIndex = 0;
+    this.scheduleNext();
+  }
+
+  stop() {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+
+  scheduleNext() {
+    if (this.frameIndex >= this.frames.length) {
+      if (!this.config.loop) return;
+      this.frameIndex = 0;
+    }
+
+    const frame = this.frames[this.frameIndex];
+    const previous = this.frames[this.frameIndex - 1];
+    const gap = previous ? frame.timestamp - previous.timestamp : 0;
+    const delay = Math.max(0, gap / (this.config.playbackRate || 1));
+
+    this.timeout = setTimeout(() => {
+      // Re-stamp detections so downstream timing matches playback time
+      const now = Date.now();
+      this.emit(frame.detections.map(detection => ({ ...detection, timestamp: now })));
+      this.frameIndex++;
+      this.scheduleNext();
+    }, delay);
+  }
+}
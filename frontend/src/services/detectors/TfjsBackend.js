@@ -0,0 +1,90 @@
+import { DetectorBackend } from './DetectorBackend';
+import { prepareTensorflow } from './tensorflow';
+
+/**
+ * Local TensorFlow.js graph model backend
+ * Runs a YOLOv8 export of the driver behaviour model bundled with the app
+ */
+export class TfjsBackend extends DetectorBackend {
+  constructor(config) {
+    super(config);
+    this.tf = null;
+    this.model = null;
+  }
+
+  get label() {
+    return `Local TFJS (${this.config.modelUrl})`;
+  }
+
+  async load() {
+    this.tf = await prepareTensorflow(this.config.tfBackend);
+    this.model = await this.tf.loadGraphModel(this.config.modelUrl);
+
+    // Warm up so the first real frame is not slow
+    const warmup = this.tf.zeros([1, this.config.inputSize, this.config.inputSize, 3]);
+    const output = await this.model.executeAsync(warmup);
+    this.tf.dispose([warmup, output]);
+
+    this.isLoaded = true;
+  }
+
+  async detect(source) {
+    const tf = this.tf;
+    const { inputSize, classNames, confidence, threshold, maxDetections } = this.config;
+    const sourceWidth = source.videoWidth || source.width;
+    const sourceHeight = source.videoHeight || source.height;
+    const scaleX = sourceWidth / inputSize;
+    const scaleY = sourceHeight / inputSize;
+
+    const input = tf.tidy(() => tf.browser.fromPixels(source)
+      .resizeBilinear([inputSize, inputSize])
+      .div(255)
+      .expandDims(0));
+
+    const output = await this.model.executeAsync(input);
+    const prediction = Array.isArray(output) ? output[0] : output;
+
+    // YOLOv8 output is [1, 4 + classes, anchors] with center based boxes
+    const [boxes, scores, classes] = tf.tidy(() => {
+      const rows = prediction.squeeze([0]).transpose();
+      const [cx, cy, w, h] = tf.split(rows.slice([0, 0], [-1, 4]), 4, 1);
+      const classScores = rows.slice([0, 4], [-1, -1]);
+      const corners = tf.concat([
+        cy.sub(h.div(2)), cx.sub(w.div(2)),
+        cy.add(h.div(2)), cx.add(w.div(2))
+      ], 1);
+      return [corners, classScores.max(1), classScores.argMax(1)];
+    });
+
+    const keep = await tf.image.nonMaxSuppressionAsync(
+      boxes, scores, maxDetections, threshold, confidence
+    );
+
+    const [boxData, scoreData, classData, keepData] = await Promise.all([
+      boxes.array(), scores.data(), classes.data(), keep.data()
+    ]);
+    tf.dispose([input, output, boxes, scores, classes, keep]);
+
+    const timestamp = Date.now();
+    return Array.from(keepData).map(index => {
+      const [y1, x1, y2, x2] = boxData[index];
+      return {
+        class: classNames[classData[index]] || `class_${classData[index]}`,
+        confidence: scoreData[index],
+        bbox: {
+          x: x1 * scaleX,
+          y: y1 * scaleY,
+          width: (x2 - x1) * scaleX,
+          height: (y2 - y1) * scaleY
+        },
+        timestamp
+      };
+    });
+  }
+
+  async dispose() {
+    await super.dispose();
+    this.model?.dispose();
+    this.model = null;
+  }
+}
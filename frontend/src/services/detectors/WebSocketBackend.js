@@ -0,0 +1,100 @@
+import { DetectorBackend } from './DetectorBackend';
+
+/**
+ * Convert a server detection (bbox as [x1, y1, x2, y2]) into a DetectionEvent
+ */
+const fromServerDetection = (detection, timestamp) => {
+  const [x1, y1, x2, y2] = detection.bbox;
+  return {
+    class: detection.class,
+    confidence: detection.confidence,
+    bbox: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 },
+    timestamp
+  };
+};
+
+/**
+ * Prediction stream from the Python inference server
+ * Uses the same 'prediction' message format as useWebSocket
+ */
+export class WebSocketBackend extends DetectorBackend {
+  constructor(config) {
+    super(config);
+    this.socket = null;
+    this.reconnectTimeout = null;
+    this.reconnectAttempts = 0;
+    this.isRunning = false;
+  }
+
+  get mode() {
+    return 'push';
+  }
+
+  get label() {
+    return `WebSocket (${this.config.url})`;
+  }
+
+  start() {
+    this.isRunning = true;
+    this.connect();
+  }
+
+  stop() {
+    this.isRunning = false;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.socket) {
+      this.socket.close(1000);
+      this.socket = null;
+    }
+  }
+
+  connect() {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      return;
+    }
+
+    const ws = new WebSocket(this.config.url);
+
+    ws.onopen = () => {
+      console.log('🔌 Detector WebSocket connected');
+      this.reconnectAttempts = 0;
+      ws.send(JSON.stringify({ type: 'ping' }));
+    };
+
+    ws.onclose = (event) => {
+      // Attempt to reconnect if not a clean close
+      if (this.isRunning && event.code !== 1000 && this.reconnectAttempts < this.config.maxReconnectAttempts) {
+        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 10000);
+        console.log(`🔌 Detector WebSocket reconnecting in ${delay}ms`);
+        this.reconnectTimeout = setTimeout(() => {
+          this.reconnectAttempts++;
+          this.connect();
+        }, delay);
+      }
+    };
+
+    ws.onerror = (error) => {
+      console.error('❌ Detector WebSocket error:', error);
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type !== 'prediction' || !message.data || !('detections' in message.data)) {
+          return;
+        }
+
+        // Server timestamps are in seconds and from another clock, stamp on receipt
+        const timestamp = Date.now();
+        this.emit(message.data.detections.map(detection => fromServerDetection(detection, timestamp)));
+      } catch (err) {
+        console.error('❌ Failed to parse detector WebSocket message:', err);
+      }
+    };
+
+    this.socket = ws;
+  }
+}
@@ -0,0 +1,51 @@
+import { DetectorBackend } from './DetectorBackend';
+import { WorkerClient } from '@/workers/workerClient';
+
+/**
+ * Runs a pull backend inside a dedicated worker.
+ * Frames are transferred as ImageBitmaps and detections posted back,
+ * so model inference never blocks the UI thread.
+ */
+export class WorkerBackend extends DetectorBackend {
+  constructor(backendName, config) {
+    super(config);
+    this.backendName = backendName;
+    this.client = null;
+    this.innerLabel = backendName;
+  }
+
+  get label() {
+    return `${this.innerLabel}, worker`;
+  }
+
+  async load() {
+    const worker = new Worker(
+      new URL('../../workers/detector.worker.js', import.meta.url),
+      { type: 'module' }
+    );
+    this.client = new WorkerClient(worker, 'Detector worker');
+
+    const { label } = await this.client.request('init', {
+      backend: this.backendName,
+      config: this.config
+    });
+    this.innerLabel = label;
+    this.isLoaded = true;
+  }
+
+  /**
+   * @param {ImageBitmap} bitmap - transferred to the worker (unusable afterwards)
+   */
+  async detect(bitmap) {
+    return this.client.request('detect', { bitmap }, [bitmap]);
+  }
+
+  async dispose() {
+    await super.dispose();
+    if (this.client) {
+      await this.client.request('dispose').catch(() => {});
+      this.client.terminate();
+      this.client = null;
+    }
+  }
+}
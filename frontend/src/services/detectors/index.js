@@ -0,0 +1,37 @@
+import { BACKENDS } from './registry';
+import { WorkerBackend } from './WorkerBackend';
+import { supportsFrameWorkers } from '@/workers/workerClient';
+
+export { DetectorBackend, normalizePrediction } from './DetectorBackend';
+
+/**
+ * Create the detector backend selected in the detector configuration
+ * @param {object} detectorConfig - Result of getDetectorConfig()
+ * @param {object} roboflowConfig - Result of getRoboflowConfig()
+ * @param {object} manifest - Model manifest (see config/models.js)
+ */
+export const createDetectorBackend = (detectorConfig, roboflowConfig, manifest) => {
+  const Backend = BACKENDS[detectorConfig.backend];
+  if (!Backend) {
+    throw new Error(`Unknown detector backend: ${detectorConfig.backend}`);
+  }
+
+  const backendConfig = detectorConfig[detectorConfig.backend];
+
+  // Shared model thresholds, manifest model version, then the backend specific section
+  const config = {
+    ...roboflowConfig,
+    modelVersion: manifest.detector.version,
+    ...backendConfig,
+    modelUrl: backendConfig.modelUrl || manifest.detector.modelUrl
+  };
+
+  const backend = new Backend(config);
+
+  // Frame based backends run in a worker when the browser allows it
+  if (backend.mode === 'pull' && detectorConfig.useWorker && supportsFrameWorkers()) {
+    return new WorkerBackend(detectorConfig.backend, config);
+  }
+
+  return backend;
+};
@@ -0,0 +1,14 @@
+import { InferenceJsBackend } from './InferenceJsBackend';
+import { TfjsBackend } from './TfjsBackend';
+import { WebSocketBackend } from './WebSocketBackend';
+import { ReplayBackend } from './ReplayBackend';
+
+/**
+ * Backend implementations by configuration name
+ */
+export const BACKENDS = {
+  inferencejs: InferenceJsBackend,
+  tfjs: TfjsBackend,
+  websocket: WebSocketBackend,
+  replay: ReplayBackend
+};
@@ -0,0 +1,21 @@
+/**
+ * Shared TensorFlow.js setup for detector backends
+ */
+export const prepareTensorflow = async (backend = 'cpu') => {
+  const tf = await import('@tensorflow/tfjs');
+
+  if (backend === 'cpu') {
+    // Force CPU backend and disable WebGL with aggressive optimizations
+    tf.env().set('WEBGL_VERSION', 0);
+    tf.env().set('WEBGL_CPU_FORWARD', true);
+    tf.env().set('WEBGL_PACK', false); // Disable packing for better performance
+    tf.env().set('WEBGL_FORCE_F16_TEXTURES', false); // Use FP32 for better accuracy
+    tf.env().set('WEBGL_DELETE_TEXTURE_THRESHOLD', 0);
+  }
+
+  await tf.setBackend(backend);
+  await tf.ready();
+
+  console.log(`🔧 TensorFlow backend ready: ${tf.getBackend()}`);
+  return tf;
+};
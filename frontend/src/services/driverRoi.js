@@ -0,0 +1,169 @@
+import { getRoiConfig } from '@/config/roi';
+
+/**
+ * @typedef {Object} Region
+ * @property {number} x - Left edge in frame pixels
+ * @property {number} y - Top edge in frame pixels
+ * @property {number} width
+ * @property {number} height
+ */
+
+/**
+ * @typedef {Object} CropTransform
+ * @property {Region} region - Crop in frame pixels
+ * @property {number} scaleX - Frame pixels per crop pixel
+ * @property {number} scaleY
+ */
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+/**
+ * Driver region of interest
+ * Follows the face found by FaceMesh and tells the detector which part of
+ * the frame to look at. Shared by the eye metrics (writer) and the detector
+ * (reader), like the frame scheduler.
+ */
+export class DriverRoi {
+  constructor(config = getRoiConfig()) {
+    this.config = config;
+    this.region = null;
+    this.updatedAt = 0;
+  }
+
+  /**
+   * Update the region from normalized FaceMesh landmarks
+   * @param {Array<{x: number, y: number}>} landmarks
+   * @param {{ width: number, height: number, capturedAt: number }} frame
+   */
+  updateFromLandmarks(landmarks, frame) {
+    if (!landmarks || landmarks.length === 0) return;
+
+    let minX = 1, minY = 1, maxX = 0, maxY = 0;
+    landmarks.forEach(point => {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    });
+
+    const faceWidth = (maxX - minX) * frame.width;
+    const faceHeight = (maxY - minY) * frame.height;
+    const { padding, minSize, smoothing } = this.config;
+
+    let x = minX * frame.width - faceWidth * padding.left;
+    let y = minY * frame.height - faceHeight * padding.top;
+    let width = faceWidth * (1 + padding.left + padding.right);
+    let height = faceHeight * (1 + padding.top + padding.bottom);
+
+    // Grow small regions around their centre
+    const minWidth = frame.width * minSize;
+    const minHeight = frame.height * minSize;
+    if (width < minWidth) {
+      x -= (minWidth - width) / 2;
+      width = minWidth;
+    }
+    if (height < minHeight) {
+      y -= (minHeight - height) / 2;
+      height = minHeight;
+    }
+
+    const next = this.clampToFrame({ x, y, width, height }, frame);
+
+    this.region = this.region && frame.capturedAt - this.updatedAt <= this.config.maxAgeMs
+      ? this.clampToFrame({
+        x: this.region.x + (next.x - this.region.x) * smoothing,
+        y: this.region.y + (next.y - this.region.y) * smoothing,
+        width: this.region.width + (next.width - this.region.width) * smoothing,
+        height: this.region.height + (next.height - this.region.height) * smoothing
+      }, frame)
+      : next;
+    this.updatedAt = frame.capturedAt;
+  }
+
+  clampToFrame(region, frame) {
+    const width = Math.min(region.width, frame.width);
+    const height = Math.min(region.height, frame.height);
+    return {
+      x: clamp(region.x, 0, frame.width - width),
+      y: clamp(region.y, 0, frame.height - height),
+      width,
+      height
+    };
+  }
+
+  /**
+   * Current region, or null when disabled or the face has not been seen recently
+   * @param {number} [timestamp]
+   * @returns {Region | null}
+   */
+  getRegion(timestamp = Date.now()) {
+    if (!this.config.enabled || !this.region) return null;
+    if (timestamp - this.updatedAt > this.config.maxAgeMs) return null;
+    return { ...this.region };
+  }
+
+  /**
+   * Crop the frame to the current region and scale it for the detector
+   * Falls back to the full frame when no region is available.
+   * @param {import('./frameScheduler').ScheduledFrame} frame
+   * @returns {Promise<{ bitmap: ImageBitmap, transform: CropTransform | null }>}
+   */
+  async cropFrame(frame) {
+    const region = this.getRegion(frame.capturedAt);
+    if (!region) {
+      return { bitmap: await frame.transferableBitmap(), transform: null };
+    }
+
+    const sx = Math.round(region.x);
+    const sy = Math.round(region.y);
+    const sw = Math.round(region.width);
+    const sh = Math.round(region.height);
+    const scale = Math.min(1, this.config.outputSize / Math.max(sw, sh));
+    const resizeWidth = Math.max(1, Math.round(sw * scale));
+    const resizeHeight = Math.max(1, Math.round(sh * scale));
+
+    const bitmap = await createImageBitmap(await frame.input(), sx, sy, sw, sh, {
+      resizeWidth,
+      resizeHeight,
+      resizeQuality: 'medium'
+    });
+
+    return {
+      bitmap,
+      transform: {
+        region: { x: sx, y: sy, width: sw, height: sh },
+        scaleX: sw / resizeWidth,
+        scaleY: sh / resizeHeight
+      }
+    };
+  }
+
+  reset() {
+    this.region = null;
+    this.updatedAt = 0;
+  }
+}
+
+/**
+ * Map a detection from crop coordinates back to full-frame coordinates
+ * @param {Object} detection - Detection with a top-left bbox in crop pixels
+ * @param {CropTransform | null} transform
+ */
+export const mapDetectionToFrame = (detection, transform) => {
+  if (!transform || !detection.bbox) return detection;
+
+  const { region, scaleX, scaleY } = transform;
+  return {
+    ...detection,
+    bbox: {
+      x: region.x + detection.bbox.x * scaleX,
+      y: region.y + detection.bbox.y * scaleY,
+      width: detection.bbox.width * scaleX,
+      height: detection.bbox.height * scaleY
+    }
+  };
+};
+
+export const driverRoi = new DriverRoi();
+
+export default driverRoi;
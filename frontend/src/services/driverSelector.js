@@ -0,0 +1,209 @@
+import { getDriverSelectionConfig } from '@/config/driverSelection';
+import { getRoiConfig } from '@/config/roi';
+import { getVehicleConfig } from '@/config/vehicle';
+import { getVehicleSettings } from '@/utils/vehicleSettings';
+
+/**
+ * @typedef {Object} FaceBox
+ * @property {number} x - Left edge, 0 to 1 of the frame width
+ * @property {number} y - Top edge, 0 to 1 of the frame height
+ * @property {number} width
+ * @property {number} height
+ */
+
+/**
+ * @typedef {Object} DriverSelection
+ * @property {Array | null} landmarks - Landmarks of the driver's face, null without faces
+ * @property {number} index - Index of the driver's face in the FaceMesh output, -1 without faces
+ * @property {number} faces - Faces found on the frame
+ * @property {boolean} switched - Another face became the driver on this frame
+ */
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+/**
+ * Normalized bounding box of one face's landmarks
+ * @returns {FaceBox}
+ */
+const getFaceBox = (landmarks) => {
+  let minX = 1, minY = 1, maxX = 0, maxY = 0;
+  landmarks.forEach(point => {
+    minX = Math.min(minX, point.x);
+    minY = Math.min(minY, point.y);
+    maxX = Math.max(maxX, point.x);
+    maxY = Math.max(maxY, point.y);
+  });
+  return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+};
+
+const centreOf = (box) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+/**
+ * Keep the detections whose boxes lie enough inside the driver's region
+ * @param {Array} predictions - Detections with top-left bboxes in frame pixels
+ * @param {FaceBox | null} region - Normalized driver region; all detections are kept without one
+ * @param {{ width: number, height: number }} frame
+ * @param {number} minOverlap - Share of a box that must lie inside the region
+ */
+export const filterDetectionsToDriver = (predictions, region, frame, minOverlap) => {
+  if (!region) return predictions;
+
+  const left = region.x * frame.width;
+  const top = region.y * frame.height;
+  const right = left + region.width * frame.width;
+  const bottom = top + region.height * frame.height;
+
+  return predictions.filter(({ bbox }) => {
+    const area = bbox.width * bbox.height;
+    if (area <= 0) return true;
+    const overlapWidth = Math.max(0, Math.min(right, bbox.x + bbox.width) - Math.max(left, bbox.x));
+    const overlapHeight = Math.max(0, Math.min(bottom, bbox.y + bbox.height) - Math.max(top, bbox.y));
+    return (overlapWidth * overlapHeight) / area >= minOverlap;
+  });
+};
+
+/**
+ * Driver selector
+ * Picks the driver among the faces FaceMesh finds. The driver camera faces
+ * the driver and is not mirrored, so the driver's left is the image right:
+ * in a left-hand-drive vehicle the passenger appears on the image left and
+ * the driver is the face furthest right, and the other way round for
+ * right-hand drive. Large faces near the seat side that stay where the
+ * driver was score highest.
+ */
+export class DriverSelector {
+  constructor(config = getDriverSelectionConfig(), seat = getVehicleSettings(getVehicleConfig().id).driverSeat) {
+    this.config = config;
+    this.seat = seat;
+    this.reset();
+  }
+
+  reset() {
+    this.driver = null;
+    this.challenger = null;
+  }
+
+  /**
+   * Change the driver's seat side ('left' or 'right')
+   */
+  setSeat(seat) {
+    if (seat === this.seat) return;
+    this.seat = seat;
+    this.reset();
+    console.log(`🪑 Driver seat: ${seat}-hand drive`);
+  }
+
+  /**
+   * Score of each face as the driver, 0 to 1
+   */
+  scoreFaces(boxes) {
+    const { weights, maxJump } = this.config;
+    const largest = Math.max(...boxes.map(box => box.width * box.height)) || 1;
+
+    return boxes.map(box => {
+      const centre = centreOf(box);
+      const size = (box.width * box.height) / largest;
+      const seat = this.seat === 'right' ? 1 - centre.x : centre.x;
+      const stability = this.driver
+        ? clamp(1 - Math.hypot(centre.x - this.driver.centre.x, centre.y - this.driver.centre.y) / maxJump, 0, 1)
+        : 0;
+      return weights.size * size + weights.seat * seat + weights.stability * stability;
+    });
+  }
+
+  /**
+   * Index of the face nearest to a previous face position, -1 when none is close enough
+   * (FaceMesh does not keep the order of the faces between frames)
+   */
+  findFace(boxes, previous) {
+    if (!previous) return -1;
+    let nearest = -1;
+    let nearestDistance = this.config.maxJump;
+    boxes.forEach((box, index) => {
+      const centre = centreOf(box);
+      const distance = Math.hypot(centre.x - previous.centre.x, centre.y - previous.centre.y);
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Driver among the faces of one frame
+   * @param {Array<Array> | null} multiFaceLandmarks - FaceMesh output
+   * @param {number} timestamp - Milliseconds
+   * @returns {DriverSelection}
+   */
+  select(multiFaceLandmarks, timestamp) {
+    const faces = multiFaceLandmarks ?? [];
+    if (faces.length === 0) {
+      this.challenger = null;
+      return { landmarks: null, index: -1, faces: 0, switched: false };
+    }
+
+    const boxes = faces.map(getFaceBox);
+    const scores = this.scoreFaces(boxes);
+    const best = scores.indexOf(Math.max(...scores));
+    const current = this.findFace(boxes, this.driver);
+
+    let index = current;
+    if (current === -1) {
+      // No driver yet, or the driver face was lost: take the best face
+      index = best;
+      this.challenger = null;
+    } else if (best !== current && scores[best] - scores[current] >= this.config.switchMargin) {
+      if (this.findFace([boxes[best]], this.challenger) === -1) {
+        this.challenger = { since: timestamp };
+      }
+      this.challenger.centre = centreOf(boxes[best]);
+      if (timestamp - this.challenger.since >= this.config.switchMs) {
+        index = best;
+        this.challenger = null;
+      }
+    } else {
+      this.challenger = null;
+    }
+
+    const switched = this.driver !== null && index !== current;
+    if (switched) {
+      console.log(`🪑 Driver face changed (${faces.length} faces in view)`);
+    }
+    this.driver = { box: boxes[index], centre: centreOf(boxes[index]), seenAt: timestamp };
+
+    return { landmarks: faces[index], index, faces: faces.length, switched };
+  }
+
+  /**
+   * Normalized region around the driver's face where the driver's hands,
+   * cups and phones are, padded like the detector crop; null when the
+   * driver has not been seen recently
+   * @returns {FaceBox | null}
+   */
+  getRegion(timestamp) {
+    if (!this.driver || timestamp - this.driver.seenAt > this.config.maxAgeMs) return null;
+
+    const { padding } = getRoiConfig();
+    const { box } = this.driver;
+    const left = clamp(box.x - box.width * padding.left, 0, 1);
+    const top = clamp(box.y - box.height * padding.top, 0, 1);
+    const right = clamp(box.x + box.width * (1 + padding.right), 0, 1);
+    const bottom = clamp(box.y + box.height * (1 + padding.bottom), 0, 1);
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * Detections of a frame that belong to the driver
+   * @param {Array} predictions - Detections with top-left bboxes in frame pixels
+   * @param {{ width: number, height: number, capturedAt: number }} frame
+   */
+  filterDetections(predictions, frame) {
+    if (!this.config.filterDetections) return predictions;
+    return filterDetectionsToDriver(predictions, this.getRegion(frame.capturedAt), frame, this.config.minOverlap);
+  }
+}
+
+// Live instance: the eye metrics select the driver, the detector keeps their detections
+export const driverSelector = new DriverSelector();
+export default driverSelector;
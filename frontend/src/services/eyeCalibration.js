@@ -0,0 +1,104 @@
+import { getDriverConfig } from '@/config/driver';
+import { getDrowsinessConfig } from '@/config/drowsiness';
+import { classifyClosure, getEyeThresholds } from '@/utils/eyeMetrics';
+
+const CLOSURE_THRESHOLDS = getDrowsinessConfig().closures;
+
+/**
+ * @typedef {Object} EyeCalibrationProfile
+ * @property {number} baselineEar - Open-eye EAR of the driver
+ * @property {number} blinksPerMinute - Blink rate while calibrating
+ * @property {number | null} avgBlinkMs - Typical blink duration
+ * @property {number} samples - Face samples the profile is based on
+ * @property {string} calibratedAt - ISO date
+ */
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Eye calibration
+ * Learns a driver's open-eye EAR and blink profile from the first seconds of
+ * a trip. Blinks take only a few percent of the time, so the median EAR is the
+ * open-eye baseline; blinks are then counted against that baseline.
+ */
+export class EyeCalibration {
+  constructor(config = getDriverConfig().eyeCalibration) {
+    this.config = config;
+    this.reset();
+  }
+
+  reset() {
+    this.samples = [];
+    this.startedAt = null;
+  }
+
+  /**
+   * Progress from 0 to 1
+   */
+  getProgress(timestamp) {
+    if (this.startedAt === null) return 0;
+    return Math.min(1, (timestamp - this.startedAt) / this.config.durationMs);
+  }
+
+  /**
+   * Add the EAR of one frame
+   * @returns {EyeCalibrationProfile | null} The profile once calibration completes
+   */
+  add(ear, timestamp) {
+    if (this.startedAt === null) {
+      this.startedAt = timestamp;
+    }
+    this.samples.push({ ear, timestamp });
+
+    if (timestamp - this.startedAt < this.config.durationMs) return null;
+
+    const profile = this.buildProfile();
+    if (!profile) {
+      // Too few faces or implausible eyes: start over
+      console.warn('⚠️ Eye calibration rejected, restarting');
+      this.reset();
+      return null;
+    }
+    return profile;
+  }
+
+  /**
+   * @returns {EyeCalibrationProfile | null}
+   */
+  buildProfile() {
+    const { minSamples, minBaselineEar, maxBaselineEar } = this.config;
+    if (this.samples.length < minSamples) return null;
+
+    const baselineEar = median(this.samples.map(sample => sample.ear));
+    if (baselineEar < minBaselineEar || baselineEar > maxBaselineEar) return null;
+
+    // Blinks against the new baseline
+    const { closedEar } = getEyeThresholds({ baselineEar });
+    const blinkDurations = [];
+    let closedSince = null;
+    this.samples.forEach(({ ear, timestamp }) => {
+      if (ear < closedEar) {
+        if (closedSince === null) closedSince = timestamp;
+      } else if (closedSince !== null) {
+        const duration = timestamp - closedSince;
+        if (classifyClosure(duration, CLOSURE_THRESHOLDS) === 'blink') blinkDurations.push(duration);
+        closedSince = null;
+      }
+    });
+
+    const minutes = (this.samples[this.samples.length - 1].timestamp - this.startedAt) / 60000;
+    return {
+      baselineEar: Math.round(baselineEar * 1000) / 1000,
+      blinksPerMinute: Math.round((blinkDurations.length / minutes) * 10) / 10,
+      avgBlinkMs: blinkDurations.length > 0
+        ? Math.round(blinkDurations.reduce((sum, duration) => sum + duration, 0) / blinkDurations.length)
+        : null,
+      samples: this.samples.length,
+      calibratedAt: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,313 @@
+import { calculateEAR, classifyClosure, DEFAULT_EYE_PROFILE, getEyeOpenness, getEyeThresholds } from '@/utils/eyeMetrics';
+import { EyeCalibration } from '@/services/eyeCalibration';
+import { PerclosMeter } from '@/services/perclos';
+import { getDrowsinessConfig } from '@/config/drowsiness';
+
+const PERCLOS_LEVELS = getDrowsinessConfig().perclos.levels;
+const CLOSURE_THRESHOLDS = getDrowsinessConfig().closures;
+const YAWN_LEVELS = getDrowsinessConfig().yawns;
+const DROWSINESS_LEVELS = ['normal', 'mild', 'moderate', 'severe'];
+
+const BLINK_MIN_GAP_MS = 200; // Minimum time between blinks (prevent double counting)
+const MIN_PROFILE_BLINK_RATE = 6; // Calibrated blink rates below this are not used for scoring
+const BLINK_FREQUENCY_WINDOW = 60000; // 1 minute window
+const EAR_SMOOTHING_FACTOR = 0.7; // For smoothing EAR values
+const EAR_HISTORY_MS = 30000; // Window of the average EAR used for drowsiness
+
+/**
+ * @typedef {Object} EyeClosure
+ * @property {'blink' | 'longBlink' | 'microsleep'} type
+ * @property {number} time - When the eyes closed
+ * @property {number} duration - Milliseconds
+ * @property {number} minEar - Lowest EAR during the closure
+ */
+
+/**
+ * @typedef {Object} EyeMetricsSample
+ * @property {number} ear - EAR of this frame
+ * @property {number} smoothedEar
+ * @property {boolean} blinkDetected - A blink started on this frame
+ * @property {number} blinkCount - Blinks in the last minute
+ * @property {number} blinkFrequency - Blinks per minute
+ * @property {number} openness - Eyelid openness, 0 (shut) to 1 (baseline)
+ * @property {number | null} perclos - Share of the PERCLOS window with the eyes mostly closed (null while warming up)
+ * @property {'normal' | 'mild' | 'moderate' | 'severe'} drowsinessLevel - From PERCLOS once available, raised by frequent yawning
+ * @property {number} closedMs - How long the eyes have been closed (0 when open)
+ * @property {EyeClosure | null} closure - Closure that ended on this frame
+ * @property {EyeClosure | null} microsleep - Closure that became a microsleep on this frame (eyes still closed)
+ * @property {number | null} calibrationProgress - 0 to 1 while calibrating, null otherwise
+ * @property {import('@/services/eyeCalibration').EyeCalibrationProfile | null} calibrated - Profile learned on this frame
+ */
+
+/**
+ * Eye metrics analyzer
+ * Blink detection, blink frequency, eye closures, PERCLOS and drowsiness
+ * scoring on FaceMesh landmarks, with the yawn rate as a further fatigue signal. Every update carries its own timestamp, so live
+ * monitoring, offline analysis and session replay get identical results.
+ * Thresholds follow the driver's open-eye profile; with calibrate set, the
+ * profile is learned again at the start of every session.
+ */
+export class EyeMetricsAnalyzer {
+  /**
+   * @param {{ profile?: Object, calibrate?: boolean }} [options]
+   */
+  constructor({ profile = DEFAULT_EYE_PROFILE, calibrate = false } = {}) {
+    this.calibration = calibrate ? new EyeCalibration() : null;
+    this.perclosMeter = new PerclosMeter();
+    this.setProfile(profile);
+    this.reset();
+  }
+
+  /**
+   * Use a driver's open-eye profile for the thresholds
+   */
+  setProfile(profile) {
+    this.profile = profile;
+    const { closedEar, blinkDrop } = getEyeThresholds(profile);
+    this.threshold = closedEar;
+    this.blinkDrop = blinkDrop;
+  }
+
+  /**
+   * Analyze the landmarks of one frame
+   * @param {Array<{x: number, y: number, z?: number}>} landmarks - FaceMesh landmarks of the driver
+   * @param {number} timestamp - Milliseconds
+   * @returns {EyeMetricsSample}
+   */
+  update(landmarks, timestamp) {
+    return this.updateEar(calculateEAR(landmarks), timestamp);
+  }
+
+  /**
+   * Analyze the EAR of one frame
+   * Entry point for EAR that does not come from landmarks (scenario simulator)
+   * @param {number} ear
+   * @param {number} timestamp - Milliseconds
+   * @returns {EyeMetricsSample}
+   */
+  updateEar(ear, timestamp) {
+    const blinkDetected = this.detectBlink(ear, timestamp);
+    const { closure, microsleep } = this.trackClosure(ear, timestamp);
+
+    // A long closure is not a blink, even though it started like one
+    if (closure && closure.type !== 'blink') {
+      this.blinkHistory = this.blinkHistory.filter(time => time < closure.time);
+    }
+    const calibrated = this.calibrate(ear, timestamp);
+    const openness = getEyeOpenness(ear, this.profile);
+    const perclos = this.perclosMeter.add(openness, timestamp);
+
+    // Blinks of the last minute
+    this.blinkHistory = this.blinkHistory.filter(time => time > timestamp - BLINK_FREQUENCY_WINDOW);
+    const frequency = (this.blinkHistory.length / BLINK_FREQUENCY_WINDOW) * 60000;
+    const blinkFrequency = Math.round(Math.max(0, Math.min(60, frequency)) * 10) / 10;
+
+    this.earHistory = this.earHistory.filter(entry => entry.timestamp > timestamp - EAR_HISTORY_MS);
+    this.earHistory.push({ ear, timestamp });
+
+    return {
+      ear,
+      smoothedEar: this.smoothedEar,
+      blinkDetected,
+      blinkCount: this.blinkHistory.length,
+      blinkFrequency,
+      openness,
+      perclos,
+      drowsinessLevel: this.raiseForYawns(perclos !== null ? this.levelFromPerclos(perclos) : this.scoreDrowsiness(ear, blinkFrequency)),
+      closedMs: this.closedSince === null ? 0 : timestamp - this.closedSince,
+      closure,
+      microsleep,
+      calibrationProgress: this.isCalibrating ? this.calibration.getProgress(timestamp) : null,
+      calibrated
+    };
+  }
+
+  get isCalibrating() {
+    return this.calibration !== null && !this.calibrationDone;
+  }
+
+  /**
+   * Feed the calibration; adopts the learned profile when it completes
+   */
+  calibrate(ear, timestamp) {
+    if (!this.isCalibrating) return null;
+
+    const profile = this.calibration.add(ear, timestamp);
+    if (!profile) return null;
+
+    this.calibrationDone = true;
+    this.setProfile(profile);
+    console.log('👁️ Eye calibration complete:', profile);
+    return profile;
+  }
+
+  /**
+   * Learn the profile again from the next frames
+   */
+  recalibrate() {
+    this.calibration?.reset();
+    this.calibrationDone = false;
+  }
+
+  /**
+   * Blink detection on the smoothed EAR
+   * Implements the algorithm from "Real-Time Eye Blink Detection using Facial Landmarks"
+   */
+  detectBlink(ear, timestamp) {
+    const wasBlinking = this.smoothedEar < this.threshold;
+    const isBlinking = ear < this.threshold;
+    let blinkDetected = false;
+
+    if (isBlinking && !wasBlinking) {
+      const lastBlink = this.blinkHistory[this.blinkHistory.length - 1];
+      const earDrop = this.smoothedEar - ear;
+      if ((!lastBlink || timestamp - lastBlink > BLINK_MIN_GAP_MS) && earDrop > this.blinkDrop) {
+        this.blinkHistory.push(timestamp);
+        blinkDetected = true;
+      }
+    }
+
+    // Adaptive smoothing: follow large jumps faster
+    const smoothingFactor = Math.abs(ear - this.smoothedEar) > 0.1 ? 0.3 : EAR_SMOOTHING_FACTOR;
+    this.smoothedEar = (ear * smoothingFactor) + (this.smoothedEar * (1 - smoothingFactor));
+    return blinkDetected;
+  }
+
+  /**
+   * Closure tracking on the raw EAR
+   * Reports a closure when the eyes reopen, and a microsleep as soon as a
+   * closure lasts long enough, without waiting for the eyes to reopen.
+   * @returns {{ closure: EyeClosure | null, microsleep: EyeClosure | null }}
+   */
+  trackClosure(ear, timestamp) {
+    if (ear < this.threshold) {
+      if (this.closedSince === null) {
+        this.closedSince = timestamp;
+        this.closureMinEar = ear;
+        this.microsleepReported = false;
+      }
+      this.closureMinEar = Math.min(this.closureMinEar, ear);
+      this.lastClosedAt = timestamp;
+
+      const duration = timestamp - this.closedSince;
+      if (!this.microsleepReported && classifyClosure(duration, CLOSURE_THRESHOLDS) === 'microsleep') {
+        this.microsleepReported = true;
+        return {
+          closure: null,
+          microsleep: { type: 'microsleep', time: this.closedSince, duration, minEar: this.closureMinEar }
+        };
+      }
+      return { closure: null, microsleep: null };
+    }
+
+    if (this.closedSince === null) return { closure: null, microsleep: null };
+
+    const duration = timestamp - this.closedSince;
+    const closure = {
+      type: classifyClosure(duration, CLOSURE_THRESHOLDS),
+      time: this.closedSince,
+      duration,
+      minEar: this.closureMinEar
+    };
+    this.closedSince = null;
+    return { closure, microsleep: null };
+  }
+
+  /**
+   * End a pending closure when FaceMesh loses the face
+   * The eyes cannot be seen without a face, so that time is not counted as
+   * closed: the closure ends at the last frame that showed the eyes closed.
+   * The time without a face is the presence monitor's to report.
+   * @returns {EyeClosure | null} The closure that ended, null when the eyes were open
+   */
+  handleNoFace() {
+    if (this.closedSince === null) return null;
+
+    const duration = this.lastClosedAt - this.closedSince;
+    const closure = {
+      type: classifyClosure(duration, CLOSURE_THRESHOLDS),
+      time: this.closedSince,
+      duration,
+      minEar: this.closureMinEar
+    };
+    this.closedSince = null;
+    return closure;
+  }
+
+  /**
+   * Confirmed yawns in the last 10 minutes, used from the next frame on
+   * @param {number} yawnsPer10Min
+   */
+  setYawnRate(yawnsPer10Min) {
+    this.yawnRate = yawnsPer10Min;
+  }
+
+  /**
+   * Drowsiness level raised to what the yawn rate alone indicates
+   */
+  raiseForYawns(level) {
+    let yawnLevel = 'normal';
+    if (this.yawnRate >= YAWN_LEVELS.moderate) yawnLevel = 'moderate';
+    else if (this.yawnRate >= YAWN_LEVELS.mild) yawnLevel = 'mild';
+    return DROWSINESS_LEVELS.indexOf(yawnLevel) > DROWSINESS_LEVELS.indexOf(level) ? yawnLevel : level;
+  }
+
+  /**
+   * Drowsiness level from PERCLOS
+   */
+  levelFromPerclos(perclos) {
+    if (perclos >= PERCLOS_LEVELS.severe) return 'severe';
+    if (perclos >= PERCLOS_LEVELS.moderate) return 'moderate';
+    if (perclos >= PERCLOS_LEVELS.mild) return 'mild';
+    return 'normal';
+  }
+
+  /**
+   * Drowsiness level from the average EAR, blink frequency and current EAR,
+   * each relative to the driver's profile; used until the PERCLOS window has
+   * enough face time
+   * Based on research: "Driver Drowsiness Detection using Eye Aspect Ratio"
+   */
+  scoreDrowsiness(ear, blinkFrequency) {
+    const avgEAR = this.earHistory.reduce((sum, entry) => sum + entry.ear, 0) / this.earHistory.length;
+    const { baselineEar } = this.profile;
+    const blinkRate = this.profile.blinksPerMinute >= MIN_PROFILE_BLINK_RATE
+      ? this.profile.blinksPerMinute
+      : DEFAULT_EYE_PROFILE.blinksPerMinute;
+    let drowsinessScore = 0;
+
+    // 1. Low average EAR (eyes closing)
+    const avgRatio = avgEAR / baselineEar;
+    if (avgRatio < 0.67) drowsinessScore += 3;
+    else if (avgRatio < 0.83) drowsinessScore += 2;
+    else if (avgRatio < 0.93) drowsinessScore += 1;
+
+    // 2. Low blink frequency (drowsy people blink less)
+    const blinkRatio = blinkFrequency / blinkRate;
+    if (blinkRatio < 0.6) drowsinessScore += 2;
+    else if (blinkRatio < 0.9) drowsinessScore += 1;
+
+    // 3. Current EAR very low (eyes closing)
+    const earRatio = ear / baselineEar;
+    if (earRatio < 0.5) drowsinessScore += 2;
+    else if (earRatio < 0.67) drowsinessScore += 1;
+
+    if (drowsinessScore >= 5) return 'severe';
+    if (drowsinessScore >= 3) return 'moderate';
+    if (drowsinessScore >= 1) return 'mild';
+    return 'normal';
+  }
+
+  reset() {
+    this.smoothedEar = 0;
+    this.yawnRate = 0;
+    this.blinkHistory = [];
+    this.earHistory = [];
+    this.closedSince = null;
+    this.lastClosedAt = null;
+    this.closureMinEar = null;
+    this.microsleepReported = false;
+    this.perclosMeter.reset();
+    this.recalibrate();
+  }
+}
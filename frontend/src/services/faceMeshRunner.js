@@ -0,0 +1,94 @@
+import { FACE_MESH_WORKER_URL } from '@/config/models';
+import { WorkerClient, supportsFrameWorkers } from '@/workers/workerClient';
+import { getFaceMeshAssetUrl } from '@/utils/modelCache';
+
+/**
+ * FaceMesh running in a dedicated worker (preferred)
+ */
+class WorkerFaceMeshRunner {
+  constructor() {
+    this.client = null;
+    this.inWorker = true;
+  }
+
+  async initialize(manifest, options) {
+    this.client = new WorkerClient(new Worker(FACE_MESH_WORKER_URL), 'FaceMesh worker');
+    await this.client.request('init', { baseUrl: manifest.faceMesh.baseUrl, options });
+  }
+
+  /**
+   * @param {ImageBitmap} bitmap - transferred to the worker (unusable afterwards)
+   * @returns {Promise<{ multiFaceLandmarks: Array }>}
+   */
+  async process(bitmap) {
+    return this.client.request('process', { bitmap }, [bitmap]);
+  }
+
+  async close() {
+    if (!this.client) return;
+    await this.client.request('close').catch(() => {});
+    this.client.terminate();
+    this.client = null;
+  }
+}
+
+/**
+ * FaceMesh on the main thread, for browsers without OffscreenCanvas
+ */
+class MainThreadFaceMeshRunner {
+  constructor() {
+    this.faceMesh = null;
+    this.latestLandmarks = [];
+    this.inWorker = false;
+  }
+
+  async initialize(manifest, options) {
+    const { FaceMesh } = await import('@mediapipe/face_mesh');
+
+    this.faceMesh = new FaceMesh({
+      locateFile: (file) => getFaceMeshAssetUrl(manifest, file)
+    });
+    this.faceMesh.setOptions(options);
+    this.faceMesh.onResults((results) => {
+      this.latestLandmarks = results.multiFaceLandmarks || [];
+    });
+    await this.faceMesh.initialize();
+  }
+
+  async process(bitmap) {
+    this.latestLandmarks = [];
+    try {
+      await this.faceMesh.send({ image: bitmap });
+    } finally {
+      bitmap.close();
+    }
+    return { multiFaceLandmarks: this.latestLandmarks };
+  }
+
+  async close() {
+    await this.faceMesh?.close();
+    this.faceMesh = null;
+  }
+}
+
+/**
+ * Create a FaceMesh runner, off the main thread when the browser allows it
+ * @param {object} manifest - Model manifest (see config/models.js)
+ * @param {object} options - FaceMesh options passed to setOptions()
+ */
+export const createFaceMeshRunner = async (manifest, options) => {
+  if (supportsFrameWorkers()) {
+    const runner = new WorkerFaceMeshRunner();
+    try {
+      await runner.initialize(manifest, options);
+      return runner;
+    } catch (err) {
+      console.warn('⚠️ FaceMesh worker unavailable, using main thread:', err.message);
+      await runner.close();
+    }
+  }
+
+  const runner = new MainThreadFaceMeshRunner();
+  await runner.initialize(manifest, options);
+  return runner;
+};
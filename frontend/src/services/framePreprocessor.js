@@ -0,0 +1,168 @@
+import { getPreprocessingConfig } from '@/config/preprocessing';
+import { applyTileCurves, buildTileCurves, buildToneCurve, measureSample } from '@/utils/imageEnhancement';
+
+/**
+ * @typedef {Object} PreprocessingState
+ * @property {string} cameraId
+ * @property {boolean} active - The camera's frames are enhanced
+ * @property {boolean} lowLight - Scene brightness is below the switch-on level
+ * @property {boolean} ir - The camera delivers IR (colourless) frames
+ * @property {number} brightness - Smoothed mean brightness of the raw frames (0-255)
+ * @property {number | null} gamma - Gamma of the last enhanced frame
+ */
+
+/**
+ * @typedef {Object} PreprocessedFrame
+ * @property {string} cameraId
+ * @property {ImageBitmap} bitmap - Frame as the models see it; only valid during the listener call
+ * @property {PreprocessingState} state
+ */
+
+/**
+ * Frame preprocessor
+ * Enhances dark and IR frames before the models see them. Each frame is
+ * measured on a small copy; in auto mode the enhancement switches on when
+ * the smoothed scene brightness drops below a level (and off again above a
+ * higher one) or when the frames are colourless IR frames.
+ */
+export class FramePreprocessor {
+  constructor(config = getPreprocessingConfig()) {
+    this.config = config;
+    this.cameras = new Map();
+    this.listeners = new Set();
+  }
+
+  getCamera(cameraId) {
+    if (!this.cameras.has(cameraId)) {
+      this.cameras.set(cameraId, {
+        sampleCanvas: null,
+        canvas: null,
+        lastDebugAt: 0,
+        state: { cameraId, active: this.config.mode === 'on', lowLight: false, ir: false, brightness: null, gamma: null }
+      });
+    }
+    return this.cameras.get(cameraId);
+  }
+
+  /**
+   * Current state of a camera, null before its first frame
+   * @returns {PreprocessingState | null}
+   */
+  getState(cameraId) {
+    return this.cameras.get(cameraId)?.state ?? null;
+  }
+
+  /**
+   * Bitmap the models should see for a frame
+   * @param {{ cameraId: string, capturedAt: number, width: number, height: number, bitmap: ImageBitmap }} frame
+   * @returns {Promise<ImageBitmap>} An enhanced copy (hand it to release() afterwards), or frame.bitmap itself
+   */
+  async process(frame) {
+    const camera = this.getCamera(frame.cameraId);
+    if (this.config.mode === 'off') {
+      this.publish(camera, frame.bitmap, frame.capturedAt);
+      return frame.bitmap;
+    }
+
+    const sample = this.measure(camera, frame);
+    this.updateState(camera, sample);
+
+    const bitmap = camera.state.active ? await this.enhance(camera, frame, sample) : frame.bitmap;
+    this.publish(camera, bitmap, frame.capturedAt);
+    return bitmap;
+  }
+
+  /**
+   * Close the enhanced copy of a frame once every analyzer is done with it
+   * @param {Promise<ImageBitmap> | null} input - What process() returned for the frame
+   * @param {{ bitmap: ImageBitmap }} frame
+   */
+  release(input, frame) {
+    input?.then(bitmap => {
+      if (bitmap !== frame.bitmap) bitmap.close();
+    }, () => {});
+  }
+
+  measure(camera, frame) {
+    const width = Math.min(this.config.sampleWidth, frame.width);
+    const height = Math.max(1, Math.round(frame.height * width / frame.width));
+    if (!camera.sampleCanvas || camera.sampleCanvas.width !== width || camera.sampleCanvas.height !== height) {
+      camera.sampleCanvas = new OffscreenCanvas(width, height);
+    }
+
+    const context = camera.sampleCanvas.getContext('2d', { willReadFrequently: true });
+    context.drawImage(frame.bitmap, 0, 0, width, height);
+    return { ...measureSample(context.getImageData(0, 0, width, height).data), width, height };
+  }
+
+  updateState(camera, sample) {
+    const { mode, auto, ir } = this.config;
+    const state = camera.state;
+    const brightness = state.brightness === null
+      ? sample.brightness
+      : state.brightness + (sample.brightness - state.brightness) * auto.smoothing;
+
+    const lowLight = state.lowLight ? brightness < auto.offBrightness : brightness < auto.onBrightness;
+    const isIr = sample.saturation <= ir.maxSaturation;
+    const active = mode === 'on' || lowLight || isIr;
+
+    if (active !== state.active) {
+      const reason = isIr ? 'IR frames' : 'low light';
+      console.log(active
+        ? `🌙 Preprocessing on for ${state.cameraId} (${reason}, brightness ${Math.round(brightness)})`
+        : `☀️ Preprocessing off for ${state.cameraId} (brightness ${Math.round(brightness)})`);
+    }
+    camera.state = { ...state, active, lowLight, ir: isIr, brightness };
+  }
+
+  async enhance(camera, frame, sample) {
+    const { equalization, denoise } = this.config;
+    const { curve, gamma } = buildToneCurve(sample.histogram, this.config);
+    const curves = equalization.enabled
+      ? buildTileCurves(sample.luminance, sample.width, sample.height, curve, equalization)
+      : curve;
+    const tiles = equalization.enabled ? equalization.tiles : 1;
+
+    if (!camera.canvas || camera.canvas.width !== frame.width || camera.canvas.height !== frame.height) {
+      camera.canvas = new OffscreenCanvas(frame.width, frame.height);
+    }
+    const context = camera.canvas.getContext('2d', { willReadFrequently: true });
+    context.filter = denoise.blurPx > 0 ? `blur(${denoise.blurPx}px)` : 'none';
+    context.drawImage(frame.bitmap, 0, 0);
+    context.filter = 'none';
+
+    const image = context.getImageData(0, 0, frame.width, frame.height);
+    applyTileCurves(image.data, frame.width, frame.height, curves, tiles, camera.state.ir);
+    context.putImageData(image, 0, 0);
+
+    camera.state = { ...camera.state, gamma: Math.round(gamma * 100) / 100 };
+    return createImageBitmap(camera.canvas);
+  }
+
+  /**
+   * Hand the frame the models see to the debug view, at most every debugIntervalMs
+   */
+  publish(camera, bitmap, timestamp) {
+    if (this.listeners.size === 0 || timestamp - camera.lastDebugAt < this.config.debugIntervalMs) return;
+    camera.lastDebugAt = timestamp;
+    const frame = { cameraId: camera.state.cameraId, bitmap, state: camera.state };
+    this.listeners.forEach(listener => listener(frame));
+  }
+
+  /**
+   * @param {(frame: PreprocessedFrame) => void} listener - Must draw the bitmap straight away
+   * @returns {() => void} unsubscribe function
+   */
+  subscribe(listener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  reset() {
+    this.cameras.clear();
+  }
+}
+
+// Shared by the frame schedulers of every camera
+export const framePreprocessor = new FramePreprocessor();
+export default framePreprocessor;
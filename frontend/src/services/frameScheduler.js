@@ -0,0 +1,246 @@
+import { getSchedulerConfig } from '@/config/scheduler';
+import { sessionClock } from '@/services/sessionClock';
+import { framePreprocessor } from '@/services/framePreprocessor';
+
+/**
+ * @typedef {Object} ScheduledFrame
+ * @property {number} id - Frame number, increasing for the lifetime of the scheduler
+ * @property {string} cameraId - Camera the frame comes from
+ * @property {number} capturedAt - Epoch milliseconds when the frame was grabbed
+ * @property {number} sessionTime - Milliseconds since the session started (shared by all cameras)
+ * @property {number} mediaTime - Video presentation time in seconds
+ * @property {number} width
+ * @property {number} height
+ * @property {ImageBitmap} bitmap - Raw frame, shared by all analyzers; never close or transfer it
+ * @property {() => Promise<ImageBitmap>} input - Frame for the models: enhanced in low light or IR, else bitmap; shared, never close or transfer it
+ * @property {() => Promise<ImageBitmap>} transferableBitmap - Private copy of input that may be transferred to a worker
+ */
+
+/**
+ * @typedef {Object} AnalyzerOptions
+ * @property {(frame: ScheduledFrame) => Promise<void>} process
+ * @property {number} [priority] - Higher runs first when frames are contended
+ * @property {number} intervalMs - Preferred time between frames
+ * @property {number} [minIntervalMs] - Fastest rate while processing stays well under budget
+ * @property {number} [maxIntervalMs] - Slowest rate when processing runs over budget
+ * @property {number} [budgetMs] - Processing time that triggers back-off
+ */
+
+const BACKOFF_FACTOR = 1.25;
+const RECOVERY_FACTOR = 0.9;
+
+/**
+ * Unified frame scheduler
+ * Grabs each video frame once, stamps it, and dispatches it to analyzers
+ * (detector, FaceMesh, ...) according to per-analyzer budgets and priorities.
+ */
+export class FrameScheduler {
+  constructor(config = getSchedulerConfig(), cameraId = 'driver') {
+    this.config = config;
+    this.cameraId = cameraId;
+    this.analyzers = new Map();
+    this.video = null;
+    this.frameId = 0;
+    this.callbackId = null;
+    this.inFlight = 0;
+    this.capturing = false;
+  }
+
+  /**
+   * Register an analyzer; returns a function that unregisters it
+   * @param {string} name
+   * @param {AnalyzerOptions} options
+   */
+  register(name, options) {
+    this.analyzers.set(name, {
+      name,
+      priority: 0,
+      maxIntervalMs: options.intervalMs,
+      budgetMs: Infinity,
+      ...options,
+      baseIntervalMs: options.intervalMs,
+      currentIntervalMs: options.intervalMs,
+      lastRunAt: 0,
+      busy: false,
+      runs: 0,
+      avgProcessingMs: 0
+    });
+
+    return () => this.unregister(name);
+  }
+
+  unregister(name) {
+    this.analyzers.delete(name);
+  }
+
+  /**
+   * Change an analyzer's preferred rate (e.g. boost eye metrics when drowsy)
+   */
+  setAnalyzerInterval(name, intervalMs) {
+    const analyzer = this.analyzers.get(name);
+    if (!analyzer || analyzer.baseIntervalMs === intervalMs) return;
+
+    analyzer.baseIntervalMs = intervalMs;
+    analyzer.currentIntervalMs = intervalMs;
+  }
+
+  /**
+   * Attach to a video element and start the frame loop (idempotent)
+   */
+  start(video) {
+    if (!video) return;
+    if (this.video === video && this.callbackId !== null) return;
+
+    this.stop();
+    this.video = video;
+    this.requestNextFrame();
+    console.log(`🎞️ Frame scheduler started (${this.cameraId})`);
+  }
+
+  stop() {
+    if (this.video && this.callbackId !== null) {
+      if (this.video.cancelVideoFrameCallback) {
+        this.video.cancelVideoFrameCallback(this.callbackId);
+      } else {
+        cancelAnimationFrame(this.callbackId);
+      }
+    }
+    this.callbackId = null;
+    this.video = null;
+  }
+
+  get isRunning() {
+    return this.callbackId !== null;
+  }
+
+  requestNextFrame() {
+    const video = this.video;
+    if (!video) return;
+
+    // One callback per decoded video frame when supported, else per display frame
+    if (video.requestVideoFrameCallback) {
+      this.callbackId = video.requestVideoFrameCallback((now, metadata) => this.tick(metadata.mediaTime));
+    } else {
+      this.callbackId = requestAnimationFrame(() => this.tick(video.currentTime));
+    }
+  }
+
+  tick(mediaTime) {
+    const video = this.video;
+    if (!video) return;
+
+    if (video.readyState >= 2 && video.videoWidth && !this.capturing) { // HAVE_CURRENT_DATA
+      const due = this.getDueAnalyzers();
+      if (due.length > 0) {
+        this.dispatch(video, due, mediaTime);
+      }
+    }
+
+    this.requestNextFrame();
+  }
+
+  /**
+   * Idle analyzers whose interval has elapsed, highest priority first,
+   * limited by the number of free processing slots
+   */
+  getDueAnalyzers() {
+    const now = performance.now();
+    const slots = this.config.maxConcurrent - this.inFlight;
+    if (slots <= 0) return [];
+
+    return Array.from(this.analyzers.values())
+      .filter(analyzer => !analyzer.busy && now - analyzer.lastRunAt >= analyzer.currentIntervalMs)
+      .sort((a, b) => b.priority - a.priority)
+      .slice(0, slots);
+  }
+
+  async dispatch(video, analyzers, mediaTime) {
+    this.capturing = true;
+    let bitmap;
+    try {
+      bitmap = await createImageBitmap(video);
+    } catch (err) {
+      console.error('❌ Frame capture failed:', err);
+      return;
+    } finally {
+      this.capturing = false;
+    }
+
+    const capturedAt = Date.now();
+    let input = null;
+
+    /** @type {ScheduledFrame} */
+    const frame = {
+      id: ++this.frameId,
+      cameraId: this.cameraId,
+      capturedAt,
+      sessionTime: sessionClock.elapsed(capturedAt),
+      mediaTime,
+      width: bitmap.width,
+      height: bitmap.height,
+      bitmap,
+      // Preprocessed once, on first use, for every analyzer of the frame
+      input: () => (input ??= framePreprocessor.process(frame)),
+      transferableBitmap: async () => createImageBitmap(await frame.input())
+    };
+
+    await Promise.all(analyzers.map(analyzer => this.runAnalyzer(analyzer, frame)));
+    framePreprocessor.release(input, frame);
+    bitmap.close();
+  }
+
+  async runAnalyzer(analyzer, frame) {
+    analyzer.busy = true;
+    analyzer.lastRunAt = performance.now();
+    this.inFlight++;
+
+    const startTime = performance.now();
+    try {
+      await analyzer.process(frame);
+    } catch (err) {
+      console.error(`❌ Analyzer ${analyzer.name} failed on frame ${frame.id}:`, err);
+    } finally {
+      this.inFlight--;
+      analyzer.busy = false;
+      this.recordProcessingTime(analyzer, performance.now() - startTime);
+    }
+  }
+
+  /**
+   * Back off analyzers that run over budget and recover when they are fast
+   * again, down to minIntervalMs when the device has headroom
+   */
+  recordProcessingTime(analyzer, processingMs) {
+    analyzer.runs++;
+    analyzer.avgProcessingMs = analyzer.runs === 1
+      ? processingMs
+      : analyzer.avgProcessingMs * 0.8 + processingMs * 0.2;
+
+    if (analyzer.avgProcessingMs > analyzer.budgetMs) {
+      analyzer.currentIntervalMs = Math.min(analyzer.currentIntervalMs * BACKOFF_FACTOR, analyzer.maxIntervalMs);
+    } else if (analyzer.avgProcessingMs < analyzer.budgetMs / 2) {
+      const fastestMs = Math.min(analyzer.baseIntervalMs, analyzer.minIntervalMs ?? analyzer.baseIntervalMs);
+      analyzer.currentIntervalMs = Math.max(analyzer.currentIntervalMs * RECOVERY_FACTOR, fastestMs);
+    }
+  }
+
+  /**
+   * Per-analyzer scheduling statistics
+   */
+  getStats() {
+    const stats = {};
+    this.analyzers.forEach((analyzer, name) => {
+      stats[name] = {
+        priority: analyzer.priority,
+        intervalMs: Math.round(analyzer.currentIntervalMs),
+        avgProcessingMs: Math.round(analyzer.avgProcessingMs),
+        runs: analyzer.runs
+      };
+    });
+    return { frameId: this.frameId, analyzers: stats };
+  }
+}
+
+// Export singleton instance (driver camera; other cameras get theirs from the camera registry)
+export const frameScheduler = new FrameScheduler();
+export default frameScheduler;
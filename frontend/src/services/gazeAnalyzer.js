@@ -0,0 +1,184 @@
+import { getGazeConfig } from '@/config/gaze';
+import { getHeadPoseConfig } from '@/config/headPose';
+import { getVehicleConfig } from '@/config/vehicle';
+import { findGazeZone, getIrisOffset, getSeatGazeZones } from '@/utils/gaze';
+import { getVehicleSettings } from '@/utils/vehicleSettings';
+
+/**
+ * @typedef {Object} GlanceEvent
+ * @property {'eyesOffRoad'} type
+ * @property {number} time - When the gaze left the road
+ * @property {number} duration - Milliseconds
+ * @property {string} zone - Zone looked at longest during the glance
+ */
+
+/**
+ * @typedef {Object} GazeSample
+ * @property {{ yaw: number, pitch: number }} gaze - Degrees from the neutral pose
+ * @property {string} zone - Gaze zone id, 'other' outside every zone
+ * @property {number} offRoadMinuteMs - Eyes-off-road time in the last minute
+ * @property {number} offRoadTripMs - Eyes-off-road time since the trip started
+ * @property {number} trackedTripMs - Face time since the trip started
+ * @property {number} glanceMs - Length of the current off-road glance, 0 on the road
+ * @property {GlanceEvent | null} onset - Off-road glance that just became a distraction (still ongoing)
+ * @property {GlanceEvent | null} event - Distracting glance that ended on this frame
+ */
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Gaze analyzer
+ * Gaze direction from the iris position within the eyes added to the head
+ * pose, the gaze zone it falls in, eyes-off-road time per minute and per
+ * trip, and off-road glances long enough to be a distraction. Uses the head
+ * pose's neutral phase to learn the iris position when looking at the road.
+ */
+export class GazeAnalyzer {
+  constructor(config = getGazeConfig(), seat = getVehicleSettings(getVehicleConfig().id).driverSeat) {
+    this.config = config;
+    this.setSeat(seat);
+    this.reset();
+  }
+
+  /**
+   * Change the driver's seat side ('left' or 'right'); the zones mirror for right-hand drive
+   */
+  setSeat(seat) {
+    if (seat === this.seat) return;
+    this.seat = seat;
+    this.zones = getSeatGazeZones(this.config.zones, seat);
+  }
+
+  reset() {
+    this.neutralSamples = [];
+    this.neutral = null;
+    this.gaze = null;
+    this.previous = null;
+    this.intervals = [];
+    this.offRoadMinuteMs = 0;
+    this.offRoadTripMs = 0;
+    this.trackedTripMs = 0;
+    this.glance = null;
+  }
+
+  /**
+   * Gaze of one frame
+   * @param {Array} landmarks - Refined FaceMesh landmarks (with iris points)
+   * @param {import('@/services/headPoseAnalyzer').HeadPoseSample | null} headPose - Head pose of the same frame
+   * @param {number} timestamp - Milliseconds
+   * @param {number} [aspectRatio] - Frame width over height
+   * @returns {GazeSample | null} null without iris landmarks or before the neutral pose is known
+   */
+  update(landmarks, headPose, timestamp, aspectRatio = getHeadPoseConfig().defaultAspectRatio) {
+    const iris = getIrisOffset(landmarks, aspectRatio);
+    if (!iris || !headPose) return null;
+
+    // Learn the iris position on the road while the head pose learns its neutral pose
+    if (!headPose.pose) {
+      this.neutralSamples.push(iris);
+      return null;
+    }
+    if (!this.neutral) {
+      const samples = this.neutralSamples.length > 0 ? this.neutralSamples : [iris];
+      this.neutral = {
+        x: median(samples.map(sample => sample.x)),
+        y: median(samples.map(sample => sample.y))
+      };
+      this.neutralSamples = [];
+    }
+
+    const { eyeYawGain, eyePitchGain, smoothing } = this.config;
+    const current = {
+      yaw: headPose.pose.yaw + (iris.x - this.neutral.x) * eyeYawGain,
+      pitch: headPose.pose.pitch + (iris.y - this.neutral.y) * eyePitchGain
+    };
+    this.gaze = this.gaze
+      ? {
+          yaw: this.gaze.yaw + (current.yaw - this.gaze.yaw) * smoothing,
+          pitch: this.gaze.pitch + (current.pitch - this.gaze.pitch) * smoothing
+        }
+      : current;
+
+    const zone = findGazeZone(this.gaze, this.zones);
+    this.countTime(zone !== 'road', timestamp);
+    const { onset, event } = this.trackGlance(zone, timestamp);
+
+    return {
+      gaze: {
+        yaw: Math.round(this.gaze.yaw * 10) / 10,
+        pitch: Math.round(this.gaze.pitch * 10) / 10
+      },
+      zone,
+      offRoadMinuteMs: Math.round(this.offRoadMinuteMs),
+      offRoadTripMs: Math.round(this.offRoadTripMs),
+      trackedTripMs: Math.round(this.trackedTripMs),
+      glanceMs: this.glance ? timestamp - this.glance.since : 0,
+      onset,
+      event
+    };
+  }
+
+  /**
+   * Eyes-off-road time; each frame counts until the next one, up to maxSampleGapMs
+   */
+  countTime(offRoad, timestamp) {
+    const { maxSampleGapMs, minuteMs } = this.config;
+
+    if (this.previous) {
+      const duration = Math.min(timestamp - this.previous.timestamp, maxSampleGapMs);
+      if (duration > 0) {
+        this.trackedTripMs += duration;
+        if (this.previous.offRoad) {
+          this.intervals.push({ start: this.previous.timestamp, duration });
+          this.offRoadMinuteMs += duration;
+          this.offRoadTripMs += duration;
+        }
+      }
+    }
+    this.previous = { timestamp, offRoad };
+
+    while (this.intervals.length > 0 && this.intervals[0].start < timestamp - minuteMs) {
+      this.offRoadMinuteMs -= this.intervals.shift().duration;
+    }
+  }
+
+  /**
+   * Continuous off-road glances, across any off-road zones
+   * @returns {{ onset: GlanceEvent | null, event: GlanceEvent | null }}
+   */
+  trackGlance(zone, timestamp) {
+    const { longGlanceMs } = this.config;
+
+    if (zone === 'road') {
+      const glance = this.glance;
+      this.glance = null;
+      if (!glance?.distracting) return { onset: null, event: null };
+      return { onset: null, event: this.toEvent(glance, timestamp) };
+    }
+
+    if (!this.glance) {
+      this.glance = { since: timestamp, last: timestamp, zones: {}, distracting: false };
+    }
+    const glance = this.glance;
+    glance.zones[zone] = (glance.zones[zone] || 0) + (timestamp - glance.last);
+    glance.last = timestamp;
+
+    if (!glance.distracting && timestamp - glance.since >= longGlanceMs) {
+      glance.distracting = true;
+      return { onset: this.toEvent(glance, timestamp), event: null };
+    }
+    return { onset: null, event: null };
+  }
+
+  toEvent(glance, timestamp) {
+    const zones = Object.entries(glance.zones);
+    const zone = zones.length > 0
+      ? zones.reduce((longest, entry) => (entry[1] > longest[1] ? entry : longest))[0]
+      : 'other';
+    return { type: 'eyesOffRoad', time: glance.since, duration: timestamp - glance.since, zone };
+  }
+}
@@ -0,0 +1,221 @@
+import { getHeadPoseConfig } from '@/config/headPose';
+import { estimateHeadPose } from '@/utils/headPose';
+
+const EXIT_RATIO = 0.8; // An episode ends below 80% of its threshold, so it does not flicker
+
+/**
+ * @typedef {Object} HeadPose
+ * @property {number} yaw - Degrees, > 0 turned to the driver's left
+ * @property {number} pitch - Degrees, > 0 tilted down
+ * @property {number} roll - Degrees, > 0 tilted clockwise in the image
+ */
+
+/**
+ * @typedef {Object} HeadPoseEvent
+ * @property {'lookingAway' | 'lookingDown' | 'nod'} type
+ * @property {number} time - When the head left the neutral pose
+ * @property {number} duration - Milliseconds
+ * @property {number} peak - Largest yaw (looking away) or pitch (looking down, nod) in degrees
+ * @property {'left' | 'right'} [direction] - Side the driver looked to ('lookingAway')
+ */
+
+/**
+ * @typedef {Object} HeadPoseSample
+ * @property {HeadPose | null} pose - Smoothed pose relative to the neutral pose
+ * @property {number | null} neutralProgress - 0 to 1 while the neutral pose is learned, null once known
+ * @property {'road' | 'lookingAway' | 'lookingDown'} state
+ * @property {HeadPoseEvent | null} onset - Looking away or down that just became sustained (still ongoing)
+ * @property {HeadPoseEvent | null} event - Looking away or down that ended on this frame, or a nod
+ * @property {number} nods - Nods in the nod window
+ */
+
+const median = (values) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Head pose analyzer
+ * Head pose, sustained looking away or down, and nodding from FaceMesh
+ * landmarks. The driver's neutral pose (looking at the road) is learned from
+ * the first seconds of face time; all angles are measured from it. Frames
+ * without a face leave an episode open: a driver turned far enough away is
+ * often not found at all.
+ */
+export class HeadPoseAnalyzer {
+  constructor(config = getHeadPoseConfig()) {
+    this.config = config;
+    this.reset();
+  }
+
+  reset() {
+    this.neutralSamples = [];
+    this.neutralStartedAt = null;
+    this.neutral = null;
+    this.pose = null;
+    this.episode = null;
+    this.excursion = null;
+    this.nodTimes = [];
+  }
+
+  /**
+   * Head pose of one frame
+   * @param {Array} landmarks - FaceMesh landmarks
+   * @param {number} timestamp - Milliseconds
+   * @param {number} [aspectRatio] - Frame width over height
+   * @returns {HeadPoseSample | null} null when no pose could be estimated
+   */
+  update(landmarks, timestamp, aspectRatio = this.config.defaultAspectRatio) {
+    const raw = estimateHeadPose(landmarks, aspectRatio);
+    if (!raw) return null;
+
+    if (!this.neutral) {
+      const neutralProgress = this.learnNeutral(raw, timestamp);
+      if (neutralProgress < 1) {
+        return { pose: null, neutralProgress, state: 'road', onset: null, event: null, nods: 0 };
+      }
+    }
+
+    const relative = {
+      yaw: raw.yaw - this.neutral.yaw,
+      pitch: raw.pitch - this.neutral.pitch,
+      roll: raw.roll - this.neutral.roll
+    };
+    const { smoothing } = this.config;
+    this.pose = this.pose
+      ? {
+          yaw: this.pose.yaw + (relative.yaw - this.pose.yaw) * smoothing,
+          pitch: this.pose.pitch + (relative.pitch - this.pose.pitch) * smoothing,
+          roll: this.pose.roll + (relative.roll - this.pose.roll) * smoothing
+        }
+      : relative;
+
+    const { onset, event: episodeEvent } = this.trackEpisode(this.pose, timestamp);
+    const nod = this.trackNod(this.pose, timestamp);
+
+    this.nodTimes = this.nodTimes.filter(time => timestamp - time <= this.config.nod.windowMs);
+
+    return {
+      pose: {
+        yaw: Math.round(this.pose.yaw * 10) / 10,
+        pitch: Math.round(this.pose.pitch * 10) / 10,
+        roll: Math.round(this.pose.roll * 10) / 10
+      },
+      neutralProgress: null,
+      state: this.episode?.sustained ? this.episode.type : 'road',
+      onset,
+      event: episodeEvent ?? nod,
+      nods: this.nodTimes.length
+    };
+  }
+
+  /**
+   * Collect frames for the neutral pose
+   * @returns {number} Progress from 0 to 1
+   */
+  learnNeutral(raw, timestamp) {
+    if (this.neutralStartedAt === null) {
+      this.neutralStartedAt = timestamp;
+    }
+    if (Math.abs(raw.yaw) <= this.config.maxNeutralYaw) {
+      this.neutralSamples.push(raw);
+    }
+
+    const progress = Math.min(1, (timestamp - this.neutralStartedAt) / this.config.neutralMs);
+    if (progress < 1) return progress;
+
+    if (this.neutralSamples.length === 0) {
+      // Never faced the camera: start over
+      this.neutralStartedAt = null;
+      return 0;
+    }
+
+    this.neutral = {
+      yaw: median(this.neutralSamples.map(sample => sample.yaw)),
+      pitch: median(this.neutralSamples.map(sample => sample.pitch)),
+      roll: median(this.neutralSamples.map(sample => sample.roll))
+    };
+    this.neutralSamples = [];
+    console.log('🧭 Neutral head pose learned:', this.neutral);
+    return 1;
+  }
+
+  /**
+   * Sustained looking away or down
+   * @returns {{ onset: HeadPoseEvent | null, event: HeadPoseEvent | null }}
+   */
+  trackEpisode(pose, timestamp) {
+    const { lookingAway, lookingDown } = this.config;
+    const exit = this.episode ? EXIT_RATIO : 1;
+
+    let type = null;
+    if (Math.abs(pose.yaw) >= lookingAway.yaw * (this.episode?.type === 'lookingAway' ? exit : 1)) {
+      type = 'lookingAway';
+    } else if (pose.pitch >= lookingDown.pitch * (this.episode?.type === 'lookingDown' ? exit : 1)) {
+      type = 'lookingDown';
+    }
+
+    let event = null;
+    if (this.episode && this.episode.type !== type) {
+      if (this.episode.sustained) {
+        event = this.toEvent(this.episode, timestamp);
+      }
+      this.episode = null;
+    }
+
+    if (!type) return { onset: null, event };
+
+    if (!this.episode) {
+      this.episode = { type, since: timestamp, peak: 0, sustained: false };
+    }
+    const angle = type === 'lookingAway' ? pose.yaw : pose.pitch;
+    if (Math.abs(angle) > Math.abs(this.episode.peak)) {
+      this.episode.peak = angle;
+    }
+
+    const minMs = type === 'lookingAway' ? lookingAway.minMs : lookingDown.minMs;
+    if (!this.episode.sustained && timestamp - this.episode.since >= minMs) {
+      this.episode.sustained = true;
+      return { onset: this.toEvent(this.episode, timestamp), event };
+    }
+    return { onset: null, event };
+  }
+
+  /**
+   * Quick pitch drop and recovery
+   * @returns {HeadPoseEvent | null}
+   */
+  trackNod(pose, timestamp) {
+    const { drop, recover, maxMs } = this.config.nod;
+
+    if (pose.pitch >= recover) {
+      if (!this.excursion) {
+        this.excursion = { since: timestamp, peak: pose.pitch };
+      }
+      this.excursion.peak = Math.max(this.excursion.peak, pose.pitch);
+      return null;
+    }
+
+    if (!this.excursion) return null;
+
+    const { since, peak } = this.excursion;
+    this.excursion = null;
+    const duration = timestamp - since;
+    if (peak < drop || duration > maxMs) return null;
+
+    this.nodTimes.push(timestamp);
+    return { type: 'nod', time: since, duration, peak: Math.round(peak * 10) / 10 };
+  }
+
+  toEvent(episode, timestamp) {
+    return {
+      type: episode.type,
+      time: episode.since,
+      duration: timestamp - episode.since,
+      peak: Math.round(episode.peak * 10) / 10,
+      // A raw (unmirrored) camera facing the driver shows the driver's left on the image's right
+      ...(episode.type === 'lookingAway' ? { direction: episode.peak > 0 ? 'left' : 'right' } : {})
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import { TRACKER_CONFIG } from '@/config/tracker';
+
+/**
+ * @typedef {Object} Track
+ * @property {string} id - Stable id, kept for the lifetime of the track
+ * @property {string} class
+ * @property {number} confidence - Latest confidence
+ * @property {{x: number, y: number, width: number, height: number}} bbox
+ * @property {number} firstSeen - Epoch ms of the first matched detection
+ * @property {number} lastSeen - Epoch ms of the last matched detection
+ * @property {number} age - Milliseconds since firstSeen
+ * @property {number} hits - Number of frames the track was matched
+ * @property {boolean} confirmed - Matched at least minHits times
+ * @property {boolean} visible - Matched in the latest frame (false while bridging a gap)
+ * @property {Array<{timestamp: number, confidence: number}>} confidenceHistory
+ */
+
+const intersectionOverUnion = (a, b) => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const centroidDistance = (a, b) => {
+  const dx = (a.x + a.width / 2) - (b.x + b.width / 2);
+  const dy = (a.y + a.height / 2) - (b.y + b.height / 2);
+  const diagonal = Math.hypot(Math.max(a.width, b.width), Math.max(a.height, b.height));
+  return diagonal > 0 ? Math.hypot(dx, dy) / diagonal : Infinity;
+};
+
+const blendBox = (previous, next, weight) => ({
+  x: previous.x + (next.x - previous.x) * weight,
+  y: previous.y + (next.y - previous.y) * weight,
+  width: previous.width + (next.width - previous.width) * weight,
+  height: previous.height + (next.height - previous.height) * weight
+});
+
+/**
+ * IoU / centroid multi-object tracker
+ * Gives detections stable ids across frames and bridges short gaps
+ * caused by skipped or missed frames.
+ */
+export class ObjectTracker {
+  constructor(config = TRACKER_CONFIG) {
+    this.config = { ...TRACKER_CONFIG, ...config };
+    this.tracks = new Map();
+    this.nextId = 1;
+  }
+
+  /**
+   * Score a track/detection pair; higher is better, null means no match
+   */
+  matchScore(track, detection) {
+    if (track.class !== detection.class || !track.bbox || !detection.bbox) {
+      return null;
+    }
+
+    const iou = intersectionOverUnion(track.bbox, detection.bbox);
+    if (iou >= this.config.iouThreshold) {
+      return 1 + iou;
+    }
+
+    const distance = centroidDistance(track.bbox, detection.bbox);
+    if (distance <= this.config.maxCentroidDistance) {
+      return 1 - distance;
+    }
+    return null;
+  }
+
+  /**
+   * Associate one frame of detections with existing tracks
+   * @param {Array} detections - Detections of a single frame
+   * @param {number} timestamp - Frame time in epoch milliseconds
+   * @returns {{ tracks: Track[], ended: Track[] }} Live tracks and tracks dropped this frame
+   */
+  update(detections, timestamp = Date.now()) {
+    const candidates = [];
+    this.tracks.forEach(track => {
+      detections.forEach((detection, index) => {
+        const score = this.matchScore(track, detection);
+        if (score !== null) {
+          candidates.push({ track, index, score });
+        }
+      });
+    });
+
+    // Greedy assignment, best pairs first
+    candidates.sort((a, b) => b.score - a.score);
+    const matchedTracks = new Set();
+    const matchedDetections = new Set();
+
+    candidates.forEach(({ track, index }) => {
+      if (matchedTracks.has(track.id) || matchedDetections.has(index)) {
+        return;
+      }
+      matchedTracks.add(track.id);
+      matchedDetections.add(index);
+      this.updateTrack(track, detections[index], timestamp);
+    });
+
+    detections.forEach((detection, index) => {
+      if (!matchedDetections.has(index)) {
+        const track = this.createTrack(detection, timestamp);
+        matchedTracks.add(track.id);
+      }
+    });
+
+    // Unmatched tracks coast until the gap gets too long
+    const ended = [];
+    this.tracks.forEach(track => {
+      if (matchedTracks.has(track.id)) {
+        return;
+      }
+      track.visible = false;
+      if (timestamp - track.lastSeen > this.config.maxGapMs) {
+        this.tracks.delete(track.id);
+        ended.push(this.snapshot(track, timestamp));
+      }
+    });
+
+    return { tracks: this.getTracks(timestamp), ended };
+  }
+
+  createTrack(detection, timestamp) {
+    const track = {
+      id: `trk_${this.nextId++}`,
+      class: detection.class,
+      confidence: detection.confidence,
+      bbox: detection.bbox,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      hits: 1,
+      visible: true,
+      confidenceHistory: [{ timestamp, confidence: detection.confidence }]
+    };
+    this.tracks.set(track.id, track);
+    return track;
+  }
+
+  updateTrack(track, detection, timestamp) {
+    track.bbox = blendBox(track.bbox, detection.bbox, this.config.bboxSmoothing);
+    track.confidence = detection.confidence;
+    track.lastSeen = timestamp;
+    track.hits++;
+    track.visible = true;
+    track.confidenceHistory.push({ timestamp, confidence: detection.confidence });
+    if (track.confidenceHistory.length > this.config.historySize) {
+      track.confidenceHistory.shift();
+    }
+  }
+
+  snapshot(track, timestamp) {
+    return {
+      ...track,
+      bbox: { ...track.bbox },
+      age: timestamp - track.firstSeen,
+      confirmed: track.hits >= this.config.minHits,
+      confidenceHistory: [...track.confidenceHistory]
+    };
+  }
+
+  /**
+   * Live tracks, including those bridging a gap
+   */
+  getTracks(timestamp = Date.now()) {
+    return Array.from(this.tracks.values()).map(track => this.snapshot(track, timestamp));
+  }
+
+  reset() {
+    this.tracks.clear();
+  }
+}
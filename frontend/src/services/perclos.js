@@ -0,0 +1,59 @@
+import { getDrowsinessConfig } from '@/config/drowsiness';
+
+/**
+ * PERCLOS meter
+ * Time-weighted share of a rolling window during which the eyes were more
+ * than closedFraction closed. Each frame counts until the next one, up to
+ * maxSampleGapMs, so frames without a face do not count as open or closed.
+ */
+export class PerclosMeter {
+  constructor(config = getDrowsinessConfig().perclos) {
+    this.config = config;
+    this.reset();
+  }
+
+  reset() {
+    this.intervals = [];
+    this.previous = null;
+    this.closedMs = 0;
+    this.totalMs = 0;
+  }
+
+  /**
+   * Add the eyelid openness of one frame
+   * @param {number} openness - 0 (closed) to 1 (open)
+   * @param {number} timestamp - Milliseconds
+   * @returns {number | null} PERCLOS from 0 to 1, null until the window has enough face time
+   */
+  add(openness, timestamp) {
+    const { windowMs, closedFraction, maxSampleGapMs, minCoverageMs } = this.config;
+
+    if (this.previous) {
+      const duration = Math.min(timestamp - this.previous.timestamp, maxSampleGapMs);
+      if (duration > 0) {
+        this.intervals.push({ start: this.previous.timestamp, duration, closed: this.previous.closed });
+        this.totalMs += duration;
+        if (this.previous.closed) this.closedMs += duration;
+      }
+    }
+    this.previous = { timestamp, closed: openness < 1 - closedFraction };
+
+    // Drop what left the window
+    while (this.intervals.length > 0 && this.intervals[0].start < timestamp - windowMs) {
+      const expired = this.intervals.shift();
+      this.totalMs -= expired.duration;
+      if (expired.closed) this.closedMs -= expired.duration;
+    }
+
+    return this.getValue();
+  }
+
+  /**
+   * @returns {number | null}
+   */
+  getValue() {
+    const { minCoverageMs, windowMs } = this.config;
+    if (this.totalMs < Math.min(minCoverageMs, windowMs / 2)) return null;
+    return Math.round((this.closedMs / this.totalMs) * 1000) / 1000;
+  }
+}
@@ -0,0 +1,129 @@
+import { getPresenceConfig } from '@/config/presence';
+
+/**
+ * @typedef {'present' | 'partial' | 'absent' | 'multiple'} PresenceState
+ */
+
+/**
+ * @typedef {Object} PresenceEscalation
+ * @property {PresenceState} state
+ * @property {'warning' | 'critical'} level
+ * @property {number} since - When the state started
+ * @property {number} duration - Milliseconds in the state when the level was reached
+ * @property {boolean} alert - Whether this step sends an alert
+ */
+
+/**
+ * @typedef {Object} PresenceSample
+ * @property {PresenceState} state - Confirmed state
+ * @property {number} since - When the confirmed state started
+ * @property {number} duration - Milliseconds in the confirmed state
+ * @property {'warning' | 'critical' | null} level - Escalation level reached so far
+ * @property {number} faces - Faces found on this frame
+ * @property {PresenceEscalation | null} escalation - Level reached on this frame
+ * @property {{ state: PresenceState, time: number, duration: number } | null} ended - Non-present state that ended on this frame
+ */
+
+/**
+ * Share of a face's landmarks outside the frame
+ */
+const outsideShare = (landmarks) => {
+  const outside = landmarks.filter(point => point.x < 0 || point.x > 1 || point.y < 0 || point.y > 1).length;
+  return outside / landmarks.length;
+};
+
+/**
+ * Presence monitor
+ * Driver presence state machine on the driver's face per frame. A
+ * frame's raw state only becomes the shown state once it has held for its
+ * confirmation time, so a single missed frame does not flag an absent driver.
+ * The longer a state lasts, the higher its escalation level.
+ */
+export class PresenceMonitor {
+  constructor(config = getPresenceConfig()) {
+    this.config = config;
+    this.reset();
+  }
+
+  reset() {
+    this.state = null;
+    this.since = null;
+    this.level = null;
+    this.candidate = null;
+  }
+
+  /**
+   * Raw presence of one frame, from the driver's face
+   * @returns {PresenceState}
+   */
+  classify(landmarks, faceCount) {
+    if (faceCount === 0) return 'absent';
+    if (faceCount > 1 && this.config.reportMultipleFaces) return 'multiple';
+    return landmarks && outsideShare(landmarks) > this.config.partialOutsideShare ? 'partial' : 'present';
+  }
+
+  /**
+   * Presence of one frame
+   * @param {Array | null} landmarks - Landmarks of the driver's face, null without a face or landmarks
+   * @param {number} faceCount - Faces found on the frame
+   * @param {number} timestamp - Milliseconds
+   * @returns {PresenceSample}
+   */
+  update(landmarks, faceCount, timestamp) {
+    const raw = this.classify(landmarks, faceCount);
+    let ended = null;
+
+    if (this.state === null) {
+      this.state = raw;
+      this.since = timestamp;
+    } else if (raw === this.state) {
+      this.candidate = null;
+    } else {
+      if (this.candidate?.state !== raw) {
+        this.candidate = { state: raw, since: timestamp };
+      }
+      if (timestamp - this.candidate.since >= this.config.confirmMs[raw]) {
+        if (this.state !== 'present') {
+          ended = { state: this.state, time: this.since, duration: this.candidate.since - this.since };
+        }
+        this.state = raw;
+        this.since = this.candidate.since;
+        this.level = null;
+        this.candidate = null;
+      }
+    }
+
+    const duration = timestamp - this.since;
+    const escalation = this.escalate(duration);
+
+    return {
+      state: this.state,
+      since: this.since,
+      duration,
+      level: this.level,
+      faces: faceCount,
+      escalation,
+      ended
+    };
+  }
+
+  /**
+   * Escalation step reached on this frame
+   * @returns {PresenceEscalation | null}
+   */
+  escalate(duration) {
+    const steps = this.config.escalation[this.state] ?? [];
+    const reached = steps.filter(step => duration >= step.afterMs);
+    const step = reached[reached.length - 1];
+    if (!step || step.level === this.level) return null;
+
+    this.level = step.level;
+    return {
+      state: this.state,
+      level: step.level,
+      since: this.since,
+      duration,
+      alert: step.alert === true
+    };
+  }
+}
@@ -0,0 +1,278 @@
+import { getSimulatorConfig } from '@/config/simulator';
+import { cameraRegistry } from '@/services/cameraRegistry';
+import { sessionClock } from '@/services/sessionClock';
+
+export const SCENARIO_FORMAT = 'copag-scenario';
+export const SCENARIO_VERSION = 1;
+
+// Where the simulated driver sits in the simulated frame
+const DRIVER_BOX = { x: 420, y: 80, width: 440, height: 560 };
+
+/**
+ * Deterministic noise in [0, 1) for a number, so a scenario plays the same way every time
+ */
+const noise = (seed) => {
+  const value = Math.sin(seed * 12.9898) * 43758.5453;
+  return value - Math.floor(value);
+};
+
+const clamp = (value, min, max) => Math.max(min, Math.min(max, value));
+
+/**
+ * A new segment with neutral defaults
+ * @returns {import('@/config/simulator').ScenarioSegment}
+ */
+export const createSegment = (overrides = {}) => ({
+  id: `seg_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+  label: '',
+  durationMs: 10000,
+  behavior: 'SafeDriving',
+  confidence: 0.9,
+  face: true,
+  ear: 0.3,
+  earEnd: 0.3,
+  blinksPerMinute: 17,
+  ...overrides
+});
+
+/**
+ * Total scenario length in milliseconds
+ */
+export const getScenarioDuration = (scenario) =>
+  scenario.segments.reduce((sum, segment) => sum + segment.durationMs, 0);
+
+/**
+ * Check a scenario before playing or saving it
+ * @returns {{ isValid: boolean, errors: string[] }}
+ */
+export const validateScenario = (scenario) => {
+  const errors = [];
+  if (!scenario || !Array.isArray(scenario.segments)) {
+    errors.push('Not a scenario');
+  } else {
+    if (scenario.segments.length === 0) {
+      errors.push('Scenario has no segments');
+    }
+    scenario.segments.forEach((segment, index) => {
+      if (!(segment.durationMs > 0)) {
+        errors.push(`Segment ${index + 1} needs a duration`);
+      }
+    });
+  }
+  return { isValid: errors.length === 0, errors };
+};
+
+/**
+ * Segment playing at a scenario time
+ * @returns {{ segment: Object, index: number, offset: number } | null}
+ */
+export const findSegmentAt = (scenario, time) => {
+  let start = 0;
+  for (let index = 0; index < scenario.segments.length; index++) {
+    const segment = scenario.segments[index];
+    if (time < start + segment.durationMs) {
+      return { segment, index, offset: time - start };
+    }
+    start += segment.durationMs;
+  }
+  return null;
+};
+
+/**
+ * Detector output of a scenario at a time
+ * @returns {Array} Detection events in simulated frame pixels
+ */
+export const sampleDetections = (scenario, time, timestamp, config = getSimulatorConfig()) => {
+  const current = findSegmentAt(scenario, time);
+  if (!current?.segment.behavior) return [];
+
+  const { segment } = current;
+  const confidence = clamp(segment.confidence + (noise(time) - 0.5) * 2 * config.confidenceJitter, 0.05, 0.99);
+  return [{
+    class: segment.behavior,
+    confidence: Math.round(confidence * 1000) / 1000,
+    bbox: { ...DRIVER_BOX },
+    timestamp
+  }];
+};
+
+/**
+ * Eye aspect ratio of a scenario at a time
+ * EAR moves linearly from ear to earEnd over the segment, with blinks
+ * spread evenly at the segment's blink rate.
+ * @returns {number | null} null while the face is not visible
+ */
+export const sampleEar = (scenario, time, config = getSimulatorConfig()) => {
+  const current = findSegmentAt(scenario, time);
+  if (!current || !current.segment.face) return null;
+
+  const { segment, index, offset } = current;
+  if (segment.blinksPerMinute > 0) {
+    const period = 60000 / segment.blinksPerMinute;
+    const phase = (offset + noise(index + 1) * period) % period;
+    if (phase < config.blinkDurationMs) {
+      return config.blinkEar;
+    }
+  }
+
+  const progress = offset / segment.durationMs;
+  const ear = segment.ear + (segment.earEnd - segment.ear) * progress;
+  return clamp(ear + (noise(time + 0.5) - 0.5) * 2 * config.earJitter, 0, 0.5);
+};
+
+/**
+ * Scenario player
+ * Plays a scenario in (optionally accelerated) real time and emits the
+ * simulated detector and eye-metric samples to its subscribers, which feed
+ * them into the live pipeline. Sample timestamps are on the scenario clock,
+ * so behaviour durations and alert persistence follow scenario time.
+ */
+export class ScenarioPlayer {
+  constructor(config = getSimulatorConfig()) {
+    this.config = config;
+    this.listeners = new Set();
+    this.statusListeners = new Set();
+    this.reset();
+  }
+
+  reset() {
+    this.scenario = null;
+    this.timer = null;
+    this.speed = 1;
+    this.loop = false;
+    this.startedAt = 0;
+    this.time = 0;
+    this.frameId = 0;
+    this.lastDetectionAt = 0;
+    this.lastEyeAt = 0;
+  }
+
+  get isRunning() {
+    return this.timer !== null;
+  }
+
+  /**
+   * Start playing a scenario (replaces a running one)
+   * @param {Object} scenario
+   * @param {{ speed?: number, loop?: boolean }} [options]
+   */
+  start(scenario, { speed = 1, loop = false } = {}) {
+    const validation = validateScenario(scenario);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(', '));
+    }
+
+    this.stop();
+    this.scenario = scenario;
+    this.speed = speed;
+    this.loop = loop;
+    this.startedAt = Date.now();
+    this.time = 0;
+    sessionClock.start(this.startedAt);
+
+    this.timer = setInterval(() => this.tick(), this.config.tickMs);
+    console.log(`🎭 Scenario started: ${scenario.name} (${Math.round(getScenarioDuration(scenario) / 1000)}s at ${speed}x)`);
+    this.notifyStatus();
+  }
+
+  stop() {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    const name = this.scenario?.name;
+    this.reset();
+    if (cameraRegistry.getCameras().length === 0) {
+      sessionClock.reset();
+    }
+
+    console.log(`🎭 Scenario stopped: ${name}`);
+    this.notifyStatus();
+  }
+
+  tick() {
+    const now = Date.now();
+    const duration = getScenarioDuration(this.scenario);
+    let time = (now - this.startedAt) * this.speed;
+
+    if (time >= duration) {
+      if (!this.loop) {
+        this.stop();
+        return;
+      }
+      // Continue on the same clock so timestamps keep increasing
+      this.startedAt += duration / this.speed;
+      time -= duration;
+    }
+    this.time = time;
+
+    // Sample at the live analyzer rates in wall-clock time
+    const capturedAt = this.startedAt + time;
+    const frame = () => ({
+      id: ++this.frameId,
+      cameraId: 'driver',
+      capturedAt,
+      sessionTime: sessionClock.elapsed(capturedAt),
+      ...this.config.frame,
+      simulated: true
+    });
+
+    if (now - this.lastEyeAt >= this.config.eyeIntervalMs) {
+      this.lastEyeAt = now;
+      this.emit({ kind: 'eyes', frame: frame(), ear: sampleEar(this.scenario, time, this.config) });
+    }
+    if (now - this.lastDetectionAt >= this.config.detectionIntervalMs) {
+      this.lastDetectionAt = now;
+      this.emit({ kind: 'detections', frame: frame(), predictions: sampleDetections(this.scenario, time, capturedAt, this.config) });
+    }
+  }
+
+  /**
+   * Listen for simulated samples: { kind: 'detections', frame, predictions } or { kind: 'eyes', frame, ear }
+   * @returns {() => void} unsubscribe function
+   */
+  subscribe(listener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  emit(sample) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(sample);
+      } catch (err) {
+        console.error('❌ Scenario listener error:', err);
+      }
+    });
+  }
+
+  /**
+   * Listen for the player starting and stopping
+   */
+  subscribeStatus(listener) {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  notifyStatus() {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  getStatus() {
+    const current = this.scenario ? findSegmentAt(this.scenario, this.time) : null;
+    return {
+      isRunning: this.isRunning,
+      scenarioId: this.scenario?.id ?? null,
+      name: this.scenario?.name ?? null,
+      time: this.time,
+      duration: this.scenario ? getScenarioDuration(this.scenario) : 0,
+      segmentIndex: current?.index ?? null,
+      speed: this.speed,
+      loop: this.loop
+    };
+  }
+}
+
+// Export singleton instance
+export const scenarioPlayer = new ScenarioPlayer();
+export default scenarioPlayer;
@@ -0,0 +1,40 @@
+/**
+ * Session clock
+ * One clock for the whole monitoring session, so frames and events from
+ * every camera can be placed on a single timeline.
+ */
+export class SessionClock {
+  constructor() {
+    this.startedAt = null;
+  }
+
+  get isRunning() {
+    return this.startedAt !== null;
+  }
+
+  /**
+   * Start the session (idempotent)
+   */
+  start(now = Date.now()) {
+    if (this.startedAt === null) {
+      this.startedAt = now;
+      console.log('⏱️ Session clock started');
+    }
+    return this.startedAt;
+  }
+
+  reset() {
+    this.startedAt = null;
+  }
+
+  /**
+   * Milliseconds since the session started for an epoch timestamp
+   */
+  elapsed(timestamp = Date.now()) {
+    return this.startedAt === null ? 0 : timestamp - this.startedAt;
+  }
+}
+
+// Export singleton instance
+export const sessionClock = new SessionClock();
+export default sessionClock;
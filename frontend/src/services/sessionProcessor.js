@@ -0,0 +1,315 @@
+import { DetectionPipeline } from '@/services/detectionPipeline';
+import { EyeMetricsAnalyzer } from '@/services/eyeMetricsAnalyzer';
+import { HeadPoseAnalyzer } from '@/services/headPoseAnalyzer';
+import { GazeAnalyzer } from '@/services/gazeAnalyzer';
+import { YawnAnalyzer } from '@/services/yawnAnalyzer';
+import { YawnFusion } from '@/services/yawnFusion';
+import { PresenceMonitor } from '@/services/presenceMonitor';
+import { AlertRuleSet } from '@/services/alertRules';
+import { CAMERA_ROLES } from '@/config/camera';
+import { calculateConcentration } from '@/utils/concentration';
+
+const PRIMARY_CAMERA = 'driver'; // Camera behind the counts, concentration and alerts
+
+/**
+ * @typedef {Object} TimelineEvent
+ * @property {'started' | 'ended' | 'alert' | 'blink' | 'longBlink' | 'microsleep' | 'lookingAway' | 'lookingDown' | 'nod' | 'eyesOffRoad' | 'yawn' | 'presence'} type
+ * @property {number} time - Milliseconds on the session's own clock
+ * @property {string} [class] - Behaviour class
+ * @property {string} [cameraId] - Camera of a behaviour event (other than the driver camera)
+ * @property {number} [duration] - Milliseconds ('ended', eye closures, head pose, gaze, yawn and presence events)
+ * @property {number} [minEar] - Lowest EAR of an eye closure
+ * @property {number} [peak] - Largest angle of a head pose event, in degrees
+ * @property {'left' | 'right'} [direction] - Side of a 'lookingAway' event
+ * @property {string} [zone] - Gaze zone looked at ('eyesOffRoad')
+ * @property {'both' | 'landmarks' | 'detector'} [source] - What confirmed a 'yawn'
+ * @property {'partial' | 'absent' | 'multiple'} [state] - Presence state that ended ('presence')
+ * @property {number} [confidence]
+ * @property {string} [alertType] - Alert rule that fired ('alert')
+ * @property {string} [message] - Alert text ('alert')
+ * @property {string} [trackId]
+ */
+
+/**
+ * Session processor
+ * Runs per-frame detector output and FaceMesh landmarks through tracking,
+ * smoothing, eye metrics, head pose, gaze, yawns, concentration scoring and the alert rules, and
+ * collects the resulting timeline. Time comes only from the frames, never
+ * from the wall clock, so offline analysis and session replay are
+ * deterministic.
+ */
+export class SessionProcessor {
+  constructor() {
+    this.pipelines = new Map();
+    this.eyeMetrics = new EyeMetricsAnalyzer({ calibrate: true });
+    this.headPose = new HeadPoseAnalyzer();
+    this.gaze = new GazeAnalyzer();
+    this.mouth = new YawnAnalyzer();
+    this.yawns = new YawnFusion();
+    this.yawnCount = 0;
+    this.presence = new PresenceMonitor();
+    this.rules = new AlertRuleSet();
+    this.detectionCounts = {};
+    this.timeline = [];
+    this.tracks = [];
+    this.eye = { frames: 0, faces: 0, earSum: 0, blinks: 0, longBlinks: 0, microsleeps: 0, maxPerclos: null };
+    this.head = { lookingAway: 0, lookingDown: 0, nod: 0 };
+    this.eyesOffRoad = { glances: 0, offRoadMs: 0, trackedMs: 0 };
+    this.latest = { detections: [], metrics: null, headPose: null, gaze: null, presence: null, concentration: 100 };
+  }
+
+  getPipeline(cameraId) {
+    if (!this.pipelines.has(cameraId)) {
+      this.pipelines.set(cameraId, new DetectionPipeline());
+    }
+    return this.pipelines.get(cameraId);
+  }
+
+  /**
+   * Driver presence, eye metrics, head pose, gaze and yawns of one frame
+   * @param {Array | null} landmarks - FaceMesh landmarks of the driver, null without a face
+   * @param {number} time
+   * @param {number} [aspectRatio] - Frame width over height, for the head pose
+   * @param {number} [faceCount] - Faces found on the frame, for the driver presence
+   * @returns {{ sample: import('@/services/eyeMetricsAnalyzer').EyeMetricsSample | null, headPose: import('@/services/headPoseAnalyzer').HeadPoseSample | null, gaze: import('@/services/gazeAnalyzer').GazeSample | null, alerts: TimelineEvent[] } | null}
+   */
+  processLandmarks(landmarks, time, aspectRatio, faceCount = landmarks ? 1 : 0) {
+    this.eye.frames++;
+
+    const presence = this.presence.update(landmarks, faceCount, time);
+    this.latest.presence = presence;
+    if (presence.ended) {
+      this.timeline.push({ type: 'presence', ...presence.ended });
+    }
+    const alerts = [];
+    this.pushAlert(alerts, this.rules.checkPresence(presence, time), time);
+    if (!landmarks) {
+      const closure = this.eyeMetrics.handleNoFace();
+      if (closure) {
+        this.eye[`${closure.type}s`]++;
+        this.timeline.push(closure);
+      }
+      this.timeline.push(...alerts);
+      return alerts.length > 0 ? { sample: null, headPose: null, gaze: null, alerts } : null;
+    }
+
+    // Yawns confirmed by the mouth and the detector feed the drowsiness level
+    const mouth = this.mouth.update(landmarks, time, aspectRatio);
+    const yawn = mouth.yawn ? this.yawns.addMouthYawn(mouth.yawn) : null;
+    this.addYawn(yawn);
+    this.eyeMetrics.setYawnRate(this.yawns.getRate(time));
+
+    const sample = this.eyeMetrics.update(landmarks, time);
+    this.eye.faces++;
+    this.eye.earSum += sample.ear;
+    if (sample.closure) {
+      this.eye[`${sample.closure.type}s`]++;
+      this.timeline.push(sample.closure);
+    }
+
+    const headPose = this.headPose.update(landmarks, time, aspectRatio);
+    if (headPose?.event) {
+      this.head[headPose.event.type]++;
+      this.timeline.push(headPose.event);
+    }
+
+    // Gaze needs refined landmarks (iris points), null otherwise
+    const gaze = this.gaze.update(landmarks, headPose, time, aspectRatio);
+    if (gaze) {
+      this.eyesOffRoad.offRoadMs = gaze.offRoadTripMs;
+      this.eyesOffRoad.trackedMs = gaze.trackedTripMs;
+      if (gaze.event) {
+        this.eyesOffRoad.glances++;
+        this.timeline.push(gaze.event);
+      }
+    }
+
+    this.latest.metrics = sample;
+    this.latest.headPose = headPose;
+    this.latest.gaze = gaze;
+    if (sample.perclos !== null) {
+      this.eye.maxPerclos = Math.max(this.eye.maxPerclos, sample.perclos);
+    }
+
+    this.pushAlert(alerts, this.rules.checkMicrosleep(sample.microsleep, time), time);
+    this.pushAlert(alerts, this.rules.checkPerclos(sample.perclos, time), time);
+    this.pushAlert(alerts, this.rules.checkHeadPose(headPose, time), time);
+    this.timeline.push(...alerts);
+    return { sample, headPose, gaze, alerts };
+  }
+
+  /**
+   * Detector output of one frame
+   * @param {Array} predictions - Normalized detections in full-frame coordinates
+   * @param {{ id?: number, cameraId?: string, capturedAt: number }} frame
+   * @returns {{ detections: Array, events: Array, alerts: TimelineEvent[] }}
+   */
+  processDetections(predictions, frame) {
+    const cameraId = frame.cameraId ?? PRIMARY_CAMERA;
+    const time = frame.capturedAt;
+    const { detections, events, ended } = this.getPipeline(cameraId).process(predictions, frame);
+
+    events.forEach(event => {
+      this.timeline.push({
+        type: event.type,
+        time: event.timestamp,
+        class: event.class,
+        ...(cameraId !== PRIMARY_CAMERA ? { cameraId } : {}),
+        duration: event.duration,
+        confidence: event.confidence
+      });
+    });
+    this.tracks.push(...ended.filter(track => track.confirmed));
+
+    // Counts, concentration and alerts describe the driver camera
+    if (cameraId !== PRIMARY_CAMERA) {
+      return { detections, events, alerts: [] };
+    }
+
+    this.addYawn(this.yawns.addDetections(predictions, time));
+
+    this.latest.detections = detections;
+    detections.forEach(detection => {
+      this.detectionCounts[detection.class] = (this.detectionCounts[detection.class] || 0) + 1;
+    });
+
+    const alerts = this.rules.checkDetections(detections, time).map(({ alertType, message, track }) => ({
+      type: 'alert',
+      time,
+      class: track.class,
+      alertType,
+      message,
+      trackId: track.id
+    }));
+
+    const concentration = calculateConcentration(this.detectionCounts, this.yawnCount);
+    this.latest.concentration = concentration;
+    this.pushAlert(alerts, this.rules.checkConcentration(concentration, time), time);
+
+    this.timeline.push(...alerts);
+    return { detections, events, alerts };
+  }
+
+  /**
+   * Camera tamper or fault event, when it was raised
+   * @param {import('@/services/cameraHealth').CameraHealthEvent} event
+   * @param {number} time
+   * @returns {{ alerts: TimelineEvent[] }}
+   */
+  processCameraEvent(event, time) {
+    const alerts = [];
+    this.pushAlert(alerts, this.rules.checkCameraEvent(event, CAMERA_ROLES[event.cameraId]?.label ?? event.cameraId, time), time);
+    this.timeline.push(...alerts);
+    return { alerts };
+  }
+
+  /**
+   * Add a rule's alert, if it fired, as a timeline event
+   */
+  pushAlert(alerts, alert, time) {
+    if (alert) {
+      alerts.push({ type: 'alert', time, alertType: alert.alertType, message: alert.message });
+    }
+  }
+
+  /**
+   * Add a confirmed yawn, if any, to the timeline and the concentration score
+   */
+  addYawn(yawn) {
+    if (!yawn) return;
+    this.timeline.push(yawn);
+    this.yawnCount++;
+  }
+
+  /**
+   * Close behaviours and tracks still in progress when the session ends
+   */
+  finish(endTime) {
+    this.pipelines.forEach((pipeline, cameraId) => {
+      pipeline.getActiveStates().forEach(state => {
+        this.timeline.push({
+          type: 'ended',
+          time: endTime,
+          class: state.class,
+          ...(cameraId !== PRIMARY_CAMERA ? { cameraId } : {}),
+          duration: endTime - state.since,
+          confidence: state.confidence
+        });
+      });
+      this.tracks.push(...pipeline.getTracks(endTime).filter(track => track.confirmed));
+    });
+  }
+
+  /**
+   * Latest driver detections, eye metrics and concentration
+   */
+  getState() {
+    return this.latest;
+  }
+
+  /**
+   * @returns {TimelineEvent[]} In time order
+   */
+  getTimeline() {
+    return [...this.timeline].sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Confirmed tracks that ended so far
+   */
+  getTrackSummaries() {
+    return this.tracks.map(track => ({
+      id: track.id,
+      class: track.class,
+      start: track.firstSeen,
+      end: track.lastSeen,
+      hits: track.hits,
+      maxConfidence: Math.max(...track.confidenceHistory.map(sample => sample.confidence))
+    }));
+  }
+
+  /**
+   * Per-class totals and eye statistics for the whole session
+   * @param {number} durationMs
+   */
+  summarize(durationMs) {
+    const timeline = this.getTimeline();
+    const behaviors = {};
+    timeline
+      .filter(event => event.type === 'ended' && !event.cameraId)
+      .forEach(event => {
+        const entry = behaviors[event.class] || { occurrences: 0, totalMs: 0, longestMs: 0 };
+        entry.occurrences++;
+        entry.totalMs += event.duration;
+        entry.longestMs = Math.max(entry.longestMs, event.duration);
+        behaviors[event.class] = entry;
+      });
+
+    const { frames, faces, earSum, blinks, longBlinks, microsleeps, maxPerclos } = this.eye;
+    const minutes = durationMs / 60000;
+    return {
+      behaviors,
+      alerts: timeline.filter(event => event.type === 'alert').length,
+      blinks,
+      blinksPerMinute: minutes > 0 ? Math.round((blinks / minutes) * 10) / 10 : 0,
+      eyeClosures: longBlinks + microsleeps,
+      microsleeps,
+      lookingAway: this.head.lookingAway,
+      lookingDown: this.head.lookingDown,
+      nods: this.head.nod,
+      yawns: timeline.filter(event => event.type === 'yawn').length,
+      driverAbsentMs: timeline
+        .filter(event => event.type === 'presence' && event.state === 'absent')
+        .reduce((sum, event) => sum + event.duration, 0),
+      ...(this.eyesOffRoad.trackedMs > 0 ? {
+        eyesOffRoadMs: this.eyesOffRoad.offRoadMs,
+        eyesOffRoadPerMinute: Math.round((this.eyesOffRoad.offRoadMs / 1000) / (this.eyesOffRoad.trackedMs / 60000) * 10) / 10,
+        longGlances: this.eyesOffRoad.glances
+      } : {}),
+      avgEar: faces > 0 ? Math.round((earSum / faces) * 1000) / 1000 : null,
+      faceVisibleRatio: frames > 0 ? Math.round((faces / frames) * 100) / 100 : 0,
+      maxPerclos,
+      concentration: calculateConcentration(this.detectionCounts, this.yawnCount)
+    };
+  }
+}
@@ -0,0 +1,176 @@
+import { getAnalysisConfig } from '@/config/analysis';
+import { getVehicleConfig } from '@/config/vehicle';
+
+export const RECORDING_FORMAT = 'copag-session';
+export const RECORDING_VERSION = 1;
+
+/**
+ * @typedef {Object} RecordedDetections
+ * @property {'detections'} kind
+ * @property {number} t - Milliseconds since the recording started
+ * @property {string} cameraId
+ * @property {Array<{ class: string, confidence: number, bbox: Object }>} predictions - Full-frame coordinates
+ */
+
+/**
+ * @typedef {Object} RecordedLandmarks
+ * @property {'landmarks'} kind
+ * @property {number} t
+ * @property {string} cameraId
+ * @property {Array<number[]> | null} landmarks - [x, y, z] per FaceMesh point, null without a face
+ */
+
+/**
+ * @typedef {Object} RecordedCameraEvent
+ * @property {'cameraEvent'} kind
+ * @property {number} t - When the event was raised
+ * @property {string} cameraId
+ * @property {{ type: 'cameraTamper' | 'cameraFault', duration: number, issues: string[] }} event - duration is how long the problem had lasted by then
+ */
+
+/**
+ * @typedef {Object} SessionRecording
+ * @property {string} format - RECORDING_FORMAT
+ * @property {number} version
+ * @property {string} id
+ * @property {string} recordedAt - ISO time the recording started
+ * @property {number} duration - Milliseconds
+ * @property {Object} vehicle
+ * @property {string | null} detector - Detector backend label
+ * @property {boolean} truncated - Stopped at the maximum duration
+ * @property {Array<RecordedDetections | RecordedLandmarks | RecordedCameraEvent>} frames - In time order
+ */
+
+const roundTo = (value, decimals) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Session recorder
+ * Records the raw per-frame output of the live analyzers (detector
+ * predictions and FaceMesh landmarks with their timestamps) so a session
+ * can be replayed through the processing and alert pipeline later.
+ */
+export class SessionRecorder {
+  constructor(config = getAnalysisConfig().recording) {
+    this.config = config;
+    this.recording = null;
+    this.startedAt = null;
+  }
+
+  get isRecording() {
+    return this.recording !== null;
+  }
+
+  /**
+   * Start a new recording
+   * @param {{ detector?: string | null }} [meta]
+   */
+  start({ detector = null } = {}) {
+    if (this.recording) return;
+
+    this.startedAt = Date.now();
+    this.recording = {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      id: `recording_${this.startedAt}`,
+      recordedAt: new Date(this.startedAt).toISOString(),
+      duration: 0,
+      vehicle: getVehicleConfig(),
+      detector,
+      truncated: false,
+      frames: []
+    };
+    console.log('⏺️ Session recording started');
+  }
+
+  /**
+   * Stop recording
+   * @returns {SessionRecording | null}
+   */
+  stop() {
+    const recording = this.recording;
+    if (!recording) return null;
+
+    this.recording = null;
+    console.log(`⏹️ Session recording stopped (${recording.frames.length} frames, ${Math.round(recording.duration / 1000)}s)`);
+    return recording;
+  }
+
+  /**
+   * Record the raw detector output of one frame
+   * @param {string} cameraId
+   * @param {number} timestamp - Epoch milliseconds the frame was captured
+   * @param {Array} predictions - Normalized detections in full-frame coordinates
+   */
+  recordDetections(cameraId, timestamp, predictions) {
+    this.push(timestamp, {
+      kind: 'detections',
+      cameraId,
+      predictions: predictions.map(({ class: className, confidence, bbox }) => ({ class: className, confidence, bbox }))
+    });
+  }
+
+  /**
+   * Record the FaceMesh landmarks of one frame
+   * @param {string} cameraId
+   * @param {number} timestamp - Epoch milliseconds the frame was captured
+   * @param {Array<{x: number, y: number, z?: number}> | null} landmarks - null when no face was found
+   * @param {number} [faceCount] - Faces found; only recorded when there were several
+   */
+  recordLandmarks(cameraId, timestamp, landmarks, faceCount = landmarks ? 1 : 0) {
+    const { landmarkPrecision } = this.config;
+    this.push(timestamp, {
+      kind: 'landmarks',
+      cameraId,
+      landmarks: landmarks
+        ? landmarks.map(point => [roundTo(point.x, landmarkPrecision), roundTo(point.y, landmarkPrecision), roundTo(point.z ?? 0, landmarkPrecision)])
+        : null,
+      ...(faceCount > 1 ? { faces: faceCount } : {})
+    });
+  }
+
+  /**
+   * Record a camera tamper or fault event when it is raised
+   * @param {import('@/services/cameraHealth').CameraHealthEvent} event
+   * @param {number} timestamp - Epoch milliseconds the event was raised
+   */
+  recordCameraEvent(event, timestamp) {
+    this.push(timestamp, {
+      kind: 'cameraEvent',
+      cameraId: event.cameraId,
+      event: { type: event.type, duration: event.duration, issues: event.issues }
+    });
+  }
+
+  push(timestamp, entry) {
+    const recording = this.recording;
+    if (!recording) return;
+
+    const t = Math.max(0, timestamp - this.startedAt);
+    if (t > this.config.maxDurationMs) {
+      if (!recording.truncated) {
+        recording.truncated = true;
+        console.warn('⏺️ Session recording reached its maximum duration');
+      }
+      return;
+    }
+
+    recording.frames.push({ t, ...entry });
+    recording.duration = Math.max(recording.duration, t);
+  }
+
+  getStatus() {
+    return {
+      isRecording: this.isRecording,
+      duration: this.recording?.duration ?? 0,
+      frames: this.recording?.frames.length ?? 0,
+      truncated: this.recording?.truncated ?? false
+    };
+  }
+}
+
+// Export singleton instance
+export const sessionRecorder = new SessionRecorder();
+export default sessionRecorder;
@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { replaySession } from '@/services/sessionReplay';
+import recording from './__fixtures__/drinking-session.json';
+
+// Recorded driver camera session: drinking from 1 s to 14 s (the cup moves at
+// 6 s and the detector misses it for 1 s around 8 s), a 2 s yawn at 3 s, no
+// driver face from 16 s and the road camera covered from 17 s to 20 s
+const alertsOf = (timeline) => timeline
+  .filter(event => event.type === 'alert')
+  .map(({ time, alertType }) => ({ time, alertType }));
+
+describe('replaySession', () => {
+  beforeAll(() => {
+    // Vehicle settings are read from browser storage
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('raises the recorded session alerts at the same times', () => {
+    const { timeline } = replaySession(recording);
+
+    expect(alertsOf(timeline)).toEqual([
+      { time: 1250, alertType: 'lowConcentration' },
+      { time: 11250, alertType: 'drinking' },
+      { time: 20000, alertType: 'cameraTamper' },
+      { time: 26000, alertType: 'driverAbsent' }
+    ]);
+  });
+
+  it('alerts on persistent drinking although its track broke', () => {
+    const { timeline } = replaySession(recording);
+    const drinking = timeline.find(event => event.alertType === 'drinking');
+    const started = timeline.find(event => event.type === 'started' && event.class === 'Drinking');
+
+    expect(drinking.time - started.time).toBe(10000);
+  });
+
+  it('alerts once the driver has been absent for 10 seconds', () => {
+    const { timeline } = replaySession(recording);
+    const absent = timeline.find(event => event.alertType === 'driverAbsent');
+
+    expect(absent.time - recording.frames.find(entry => entry.kind === 'landmarks').t).toBe(10000);
+  });
+
+  it('does not alert on a short yawn', () => {
+    const { timeline } = replaySession(recording);
+
+    expect(timeline.filter(event => event.class === 'Yawn').map(event => event.type)).toEqual(['started', 'ended']);
+  });
+
+  it('gives the same timeline on every replay', () => {
+    expect(replaySession(recording).timeline).toEqual(replaySession(recording).timeline);
+  });
+});
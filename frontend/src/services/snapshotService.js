@@ -0,0 +1,100 @@
+import { getSnapshotConfig } from '@/config/snapshot';
+import { getVehicleConfig } from '@/config/vehicle';
+import { ROBOFLOW_CONFIG } from '@/config/roboflow';
+import { cameraRegistry } from '@/services/cameraRegistry';
+import { sessionClock } from '@/services/sessionClock';
+import { drawDetections } from '@/utils/drawDetections';
+
+const VEHICLE = getVehicleConfig();
+
+const getClassConfig = (className) => ROBOFLOW_CONFIG.classes[className] || { color: '#808080', label: className };
+
+/**
+ * @typedef {Object} CapturedFrame
+ * @property {string} cameraId
+ * @property {string} label
+ * @property {Blob} blob - JPEG image
+ * @property {number} capturedAt - Epoch milliseconds
+ * @property {number} sessionTime - Milliseconds since the session started
+ */
+
+/**
+ * Snapshot service
+ * Grabs the current camera frame, draws the detection boxes and a
+ * vehicle/time watermark on it and encodes it as JPEG for alerts.
+ */
+export class SnapshotService {
+  constructor(config = getSnapshotConfig()) {
+    this.config = config;
+  }
+
+  /**
+   * Snapshot of one video element
+   * @param {HTMLVideoElement} video
+   * @param {Object} [options]
+   * @param {Array} [options.detections] - Detections with bboxes in video pixels
+   * @param {string} [options.cameraLabel]
+   * @param {number} [options.timestamp] - Epoch milliseconds shown in the watermark
+   * @returns {Promise<Blob|null>} JPEG, or null when the video has no frame yet
+   */
+  async capture(video, { detections = [], cameraLabel = 'Camera', timestamp = Date.now() } = {}) {
+    if (!video || video.readyState < 2 || !video.videoWidth) return null; // HAVE_CURRENT_DATA
+
+    const scale = Math.min(1, this.config.maxWidth / video.videoWidth);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    if (this.config.drawDetections && detections.length > 0) {
+      drawDetections(ctx, detections, { getClassConfig, scaleX: scale, scaleY: scale });
+    }
+    if (this.config.watermark) {
+      this.drawWatermark(ctx, canvas, cameraLabel, timestamp);
+    }
+
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', this.config.quality));
+  }
+
+  /**
+   * Snapshots of every camera attached to the session
+   * @param {Object<string, Array>} [detectionsByCamera] - Stable detections per camera id
+   * @returns {Promise<CapturedFrame[]>}
+   */
+  async captureCameras(detectionsByCamera = {}) {
+    const capturedAt = Date.now();
+    const frames = await Promise.all(cameraRegistry.getCameras().map(async ({ cameraId, label, video }) => {
+      const blob = await this.capture(video, {
+        detections: detectionsByCamera[cameraId] ?? [],
+        cameraLabel: label,
+        timestamp: capturedAt
+      });
+      return blob
+        ? { cameraId, label, blob, capturedAt, sessionTime: sessionClock.elapsed(capturedAt) }
+        : null;
+    }));
+    return frames.filter(Boolean);
+  }
+
+  drawWatermark(ctx, canvas, cameraLabel, timestamp) {
+    const height = Math.max(18, Math.round(this.config.watermarkHeight * canvas.width / this.config.maxWidth));
+    const padding = Math.round(height / 3);
+    const y = canvas.height - height;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, y, canvas.width, height);
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${Math.round(height * 0.5)}px Arial`;
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'left';
+    ctx.fillText(`${VEHICLE.name} ${VEHICLE.id} · ${cameraLabel}`, padding, y + height / 2);
+    ctx.textAlign = 'right';
+    ctx.fillText(new Date(timestamp).toLocaleString(), canvas.width - padding, y + height / 2);
+  }
+}
+
+// Export singleton instance
+export const snapshotService = new SnapshotService();
+export default snapshotService;
@@ -18,6 +18,8 @@ class TelegramService {
 
   /**
    * Send alert with image to Telegram
+   * imageData is a single image Blob, or an array of camera frames
+   * ({ blob, label }) sent together as an album
    */
   async sendAlert(alertType, message, imageData = null, additionalData = {}) {
     console.log('📱 sendAlert called:', { alertType, message, hasImage: !!imageData, isEnabled: this.isEnabled });
@@ -37,7 +39,13 @@ class TelegramService {
       const fullMessage = this.formatMessage(alertType, message, additionalData);
       console.log('📱 Formatted message:', fullMessage);
       
-      if (imageData) {
+      if (Array.isArray(imageData) && imageData.length > 1) {
+        // Frames from several cameras
+        console.log(`📱 Sending ${imageData.length} camera frames with caption...`);
+        await this.sendMediaGroup(fullMessage, imageData);
+      } else if (Array.isArray(imageData) && imageData.length === 1) {
+        await this.sendPhoto(fullMessage, imageData[0].blob);
+      } else if (imageData && !Array.isArray(imageData)) {
         // Send photo with caption
         console.log('📱 Sending photo with caption...');
         await this.sendPhoto(fullMessage, imageData);
@@ -199,6 +207,86 @@ class TelegramService {
     return result;
   }
 
+  /**
+   * Send several photos as one album; the caption goes on the first photo
+   * @param {string} caption
+   * @param {Array<{ blob: Blob, label?: string }>} frames
+   */
+  async sendMediaGroup(caption, frames) {
+    const formData = new FormData();
+    formData.append('chat_id', this.config.chatId);
+
+    const media = frames.map((frame, index) => ({
+      type: 'photo',
+      media: `attach://photo${index}`,
+      caption: index === 0 ? `${caption}\n📷 ${frame.label || 'Camera 1'}` : `📷 ${frame.label || `Camera ${index + 1}`}`,
+      parse_mode: 'HTML'
+    }));
+    formData.append('media', JSON.stringify(media));
+    frames.forEach((frame, index) => {
+      formData.append(`photo${index}`, frame.blob, `camera${index}.jpg`);
+    });
+
+    // Use proxy in development to avoid CORS issues
+    const baseUrl = import.meta.env.DEV 
+      ? '/api/telegram' 
+      : 'https://api.telegram.org';
+
+    const response = await fetch(`${baseUrl}/bot${this.config.botToken}/sendMediaGroup`, {
+      method: 'POST',
+      body: formData
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('📷 Telegram API error:', response.status, errorText);
+      throw new Error(`Telegram API error: ${response.status} - ${errorText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Send a recorded clip to Telegram
+   * Telegram only plays MP4 inline, so other formats (WebM) go as a document.
+   * @param {string} caption
+   * @param {Blob} videoData
+   * @param {string} [filename]
+   */
+  async sendVideo(caption, videoData, filename = 'clip.webm') {
+    if (!videoData) {
+      console.error('🎬 No video data provided to sendVideo');
+      throw new Error('No video data provided');
+    }
+
+    const isMp4 = videoData.type.startsWith('video/mp4');
+    const method = isMp4 ? 'sendVideo' : 'sendDocument';
+
+    const formData = new FormData();
+    formData.append('chat_id', this.config.chatId);
+    formData.append('caption', caption);
+    formData.append(isMp4 ? 'video' : 'document', videoData, filename);
+    formData.append('parse_mode', 'HTML');
+
+    // Use proxy in development to avoid CORS issues
+    const baseUrl = import.meta.env.DEV
+      ? '/api/telegram'
+      : 'https://api.telegram.org';
+
+    const response = await fetch(`${baseUrl}/bot${this.config.botToken}/${method}`, {
+      method: 'POST',
+      body: formData
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('🎬 Telegram API error:', response.status, errorText);
+      throw new Error(`Telegram API error: ${response.status} - ${errorText}`);
+    }
+
+    return await response.json();
+  }
+
   /**
    * Send text message to Telegram
    */
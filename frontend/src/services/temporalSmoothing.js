@@ -0,0 +1,216 @@
+import { SMOOTHING_CONFIG, getClassSmoothingConfig } from '@/config/smoothing';
+
+/**
+ * @typedef {Object} SmoothedState
+ * @property {boolean} active
+ * @property {number} confidence - Smoothed confidence for the class
+ */
+
+/**
+ * @typedef {Object} BehaviorEvent
+ * @property {'started' | 'ended'} type
+ * @property {string} class
+ * @property {number} timestamp - When the state changed
+ * @property {number} startedAt - When the (current or finished) state began
+ * @property {number} [duration] - Milliseconds the state lasted ('ended' only)
+ * @property {number} confidence
+ */
+
+/**
+ * Majority vote over a sliding window of frames
+ */
+class MajorityVoteStrategy {
+  constructor(settings) {
+    this.settings = settings;
+    this.window = [];
+  }
+
+  update(confidence) {
+    const { windowSize, minFrames, minFrequency, minConfidence } = this.settings;
+
+    this.window.push(confidence);
+    if (this.window.length > windowSize) {
+      this.window.shift();
+    }
+
+    const present = this.window.filter(value => value > 0);
+    const avgConfidence = present.length > 0
+      ? present.reduce((sum, value) => sum + value, 0) / present.length
+      : 0;
+
+    // Not enough frames for a vote, follow the current frame
+    if (this.window.length < minFrames) {
+      return { active: confidence > 0, confidence };
+    }
+
+    const frequency = present.length / this.window.length;
+    return {
+      active: frequency >= minFrequency && avgConfidence >= minConfidence,
+      confidence: avgConfidence
+    };
+  }
+}
+
+/**
+ * Exponential moving average with separate enter and exit thresholds
+ */
+class EmaStrategy {
+  constructor(settings) {
+    this.settings = settings;
+    this.score = 0;
+    this.active = false;
+  }
+
+  update(confidence) {
+    const { alpha, enterThreshold, exitThreshold } = this.settings;
+
+    this.score = alpha * confidence + (1 - alpha) * this.score;
+    if (!this.active && this.score >= enterThreshold) {
+      this.active = true;
+    } else if (this.active && this.score < exitThreshold) {
+      this.active = false;
+    }
+
+    return { active: this.active, confidence: this.score };
+  }
+}
+
+/**
+ * Hysteresis on the raw confidence with a minimum dwell time
+ */
+class HysteresisStrategy {
+  constructor(settings) {
+    this.settings = settings;
+    this.active = false;
+    this.pendingSince = null;
+    this.confidence = 0;
+  }
+
+  update(confidence, timestamp) {
+    const { enterThreshold, exitThreshold, minDwellMs } = this.settings;
+    const exitDwellMs = this.settings.exitDwellMs ?? minDwellMs;
+
+    // Is the frame pushing towards the opposite state?
+    const pushesChange = this.active ? confidence < exitThreshold : confidence >= enterThreshold;
+
+    if (!pushesChange) {
+      this.pendingSince = null;
+    } else {
+      if (this.pendingSince === null) {
+        this.pendingSince = timestamp;
+      }
+      const dwell = this.active ? exitDwellMs : minDwellMs;
+      if (timestamp - this.pendingSince >= dwell) {
+        this.active = !this.active;
+        this.pendingSince = null;
+      }
+    }
+
+    if (confidence > 0) {
+      this.confidence = confidence;
+    }
+    return { active: this.active, confidence: this.confidence };
+  }
+}
+
+const STRATEGIES = {
+  majority: MajorityVoteStrategy,
+  ema: EmaStrategy,
+  hysteresis: HysteresisStrategy
+};
+
+/**
+ * Register a custom smoothing strategy.
+ * Strategy classes take the class settings in their constructor and expose
+ * update(confidence, timestamp) returning a SmoothedState.
+ */
+export const registerSmoothingStrategy = (name, Strategy) => {
+  STRATEGIES[name] = Strategy;
+};
+
+/**
+ * Temporal smoothing engine
+ * Feeds each frame's detections through a per-class strategy and reports
+ * explicit state changes ("Distracted started" / "Distracted ended").
+ */
+export class TemporalSmoother {
+  constructor(config = SMOOTHING_CONFIG) {
+    this.config = config;
+    this.strategies = new Map();
+    this.states = new Map();
+  }
+
+  getStrategy(className) {
+    if (!this.strategies.has(className)) {
+      const settings = getClassSmoothingConfig(className, this.config);
+      const Strategy = STRATEGIES[settings.strategy];
+      if (!Strategy) {
+        throw new Error(`Unknown smoothing strategy "${settings.strategy}" for ${className}`);
+      }
+      this.strategies.set(className, new Strategy(settings));
+    }
+    return this.strategies.get(className);
+  }
+
+  /**
+   * Process one frame of detections
+   * @param {Array} detections - Detections of a single frame
+   * @param {number} timestamp - Frame time in epoch milliseconds
+   * @returns {{ active: Array, events: BehaviorEvent[] }}
+   */
+  update(detections, timestamp = Date.now()) {
+    // Strongest detection per class in this frame
+    const latestByClass = {};
+    detections.forEach(detection => {
+      const current = latestByClass[detection.class];
+      if (!current || detection.confidence > current.confidence) {
+        latestByClass[detection.class] = detection;
+      }
+    });
+
+    // Classes seen before must also be updated when absent from this frame
+    Object.keys(latestByClass).forEach(className => this.getStrategy(className));
+
+    const events = [];
+    this.strategies.forEach((strategy, className) => {
+      const detection = latestByClass[className];
+      const result = strategy.update(detection ? detection.confidence : 0, timestamp);
+      const previous = this.states.get(className);
+
+      if (result.active && !previous) {
+        const state = { class: className, confidence: result.confidence, since: timestamp, bbox: detection?.bbox };
+        this.states.set(className, state);
+        events.push({ type: 'started', class: className, timestamp, startedAt: timestamp, confidence: result.confidence });
+      } else if (!result.active && previous) {
+        this.states.delete(className);
+        events.push({
+          type: 'ended',
+          class: className,
+          timestamp,
+          startedAt: previous.since,
+          duration: timestamp - previous.since,
+          confidence: previous.confidence
+        });
+      } else if (result.active) {
+        previous.confidence = result.confidence;
+        if (detection) {
+          previous.bbox = detection.bbox;
+        }
+      }
+    });
+
+    return { active: this.getActiveStates(), events };
+  }
+
+  /**
+   * Behaviour states currently in progress
+   */
+  getActiveStates() {
+    return Array.from(this.states.values()).map(state => ({ ...state }));
+  }
+
+  reset() {
+    this.strategies.clear();
+    this.states.clear();
+  }
+}
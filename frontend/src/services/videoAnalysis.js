@@ -0,0 +1,227 @@
+import { getRoboflowConfig } from '@/config/roboflow';
+import { getDetectorConfig, validateDetectorConfig } from '@/config/detector';
+import { getAnalysisConfig } from '@/config/analysis';
+import { getGazeConfig } from '@/config/gaze';
+import { getDriverSelectionConfig } from '@/config/driverSelection';
+import { createDetectorBackend } from '@/services/detectors';
+import { createFaceMeshRunner } from '@/services/faceMeshRunner';
+import { DriverRoi, mapDetectionToFrame } from '@/services/driverRoi';
+import { FramePreprocessor } from '@/services/framePreprocessor';
+import { DriverSelector } from '@/services/driverSelector';
+import { SessionProcessor } from '@/services/sessionProcessor';
+import { loadModelManifest } from '@/utils/modelCache';
+
+/**
+ * @typedef {Object} AnalysisProgress
+ * @property {number} progress - 0..1
+ * @property {number} videoTime - Milliseconds processed
+ * @property {number} framesAnalyzed
+ */
+
+const createId = () => `analysis_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Load a local video file into a detached video element
+ */
+const loadVideo = (file) => new Promise((resolve, reject) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  const url = URL.createObjectURL(file);
+  video.onloadeddata = () => resolve({ video, url });
+  video.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`Cannot decode ${file.name}`));
+  };
+  video.src = url;
+});
+
+/**
+ * Seek to a video time and wait until the frame is decoded
+ */
+const seekTo = (video, seconds, timeoutMs) => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => {
+    video.removeEventListener('seeked', onSeeked);
+    reject(new Error(`Seeking to ${seconds.toFixed(2)}s timed out`));
+  }, timeoutMs);
+  const onSeeked = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  video.addEventListener('seeked', onSeeked, { once: true });
+  video.currentTime = seconds;
+});
+
+/**
+ * Offline analysis of recorded footage
+ * Decodes a video file frame by frame and runs it through the same detector,
+ * tracking, smoothing, eye metrics and alert rules as live monitoring, using
+ * video time instead of the wall clock. Runs as fast as inference allows.
+ */
+export class VideoFileAnalyzer {
+  constructor({
+    detectorConfig = getDetectorConfig(),
+    roboflowConfig = getRoboflowConfig(),
+    config = getAnalysisConfig()
+  } = {}) {
+    this.detectorConfig = detectorConfig;
+    this.roboflowConfig = roboflowConfig;
+    this.config = config;
+  }
+
+  /**
+   * Create the detector and FaceMesh used for one analysis
+   */
+  async loadModels() {
+    validateDetectorConfig(this.detectorConfig);
+    const manifest = await loadModelManifest();
+
+    const backend = createDetectorBackend(this.detectorConfig, this.roboflowConfig, manifest);
+    if (backend.mode !== 'pull') {
+      backend.dispose();
+      throw new Error(`The ${backend.label} backend cannot analyze video files; choose a frame-based detector backend`);
+    }
+    await backend.load();
+
+    // Eye metrics are optional, detections still work without them
+    let faceMesh = null;
+    try {
+      faceMesh = await createFaceMeshRunner(manifest, {
+        maxNumFaces: getDriverSelectionConfig().maxFaces, // The driver is picked among them
+        refineLandmarks: getGazeConfig().enabled, // Iris points for gaze tracking
+        minDetectionConfidence: 0.7,
+        minTrackingConfidence: 0.7,
+        staticImageMode: false
+      });
+    } catch (err) {
+      console.warn('⚠️ FaceMesh unavailable, analyzing without eye metrics:', err.message);
+    }
+
+    return { backend, faceMesh };
+  }
+
+  /**
+   * Analyze a video file
+   * @param {File} file
+   * @param {Object} [options]
+   * @param {string} [options.mode] - Key of config.modes
+   * @param {(progress: AnalysisProgress) => void} [options.onProgress]
+   * @param {AbortSignal} [options.signal] - Abort to cancel; resolves to null
+   * @returns {Promise<Object | null>} The analysis session
+   */
+  async analyze(file, { mode = this.config.defaultMode, onProgress, signal } = {}) {
+    const settings = this.config.modes[mode];
+    if (!settings) {
+      throw new Error(`Unknown analysis mode: ${mode}`);
+    }
+
+    const { video, url } = await loadVideo(file);
+    const { backend, faceMesh } = await this.loadModels().catch(err => {
+      URL.revokeObjectURL(url);
+      throw err;
+    });
+
+    // Timestamps are video time, so the timeline lines up with the clip
+    const processor = new SessionProcessor();
+    const roi = new DriverRoi();
+    const preprocessor = new FramePreprocessor();
+    const driverSelector = new DriverSelector();
+
+    const durationMs = video.duration * 1000;
+    const startedAt = performance.now();
+    let framesAnalyzed = 0;
+
+    console.log(`🎬 Analyzing ${file.name} (${Math.round(durationMs / 1000)}s, ${mode})`);
+
+    try {
+      for (let videoTime = 0; videoTime < durationMs; videoTime += settings.intervalMs) {
+        if (signal?.aborted) {
+          console.log('🛑 Video analysis cancelled');
+          return null;
+        }
+
+        await seekTo(video, videoTime / 1000, this.config.seekTimeoutMs);
+        const bitmap = await createImageBitmap(video);
+        let input = null;
+        const frame = {
+          id: framesAnalyzed + 1,
+          cameraId: 'driver',
+          capturedAt: videoTime,
+          mediaTime: videoTime / 1000,
+          width: bitmap.width,
+          height: bitmap.height,
+          bitmap,
+          input: () => (input ??= preprocessor.process(frame)),
+          transferableBitmap: async () => createImageBitmap(await frame.input())
+        };
+
+        try {
+          // Eye metrics first so the detector crop follows the face
+          if (faceMesh) {
+            const { multiFaceLandmarks } = await faceMesh.process(await frame.transferableBitmap());
+            const { landmarks, faces } = driverSelector.select(multiFaceLandmarks, videoTime);
+            if (landmarks) {
+              roi.updateFromLandmarks(landmarks, frame);
+            }
+            processor.processLandmarks(landmarks, videoTime, frame.width / frame.height, faces);
+          }
+
+          const { bitmap: input, transform } = await roi.cropFrame(frame);
+          let predictions;
+          try {
+            predictions = await backend.detect(input);
+          } finally {
+            input.close();
+          }
+
+          processor.processDetections(
+            driverSelector.filterDetections(predictions.map(prediction => mapDetectionToFrame(prediction, transform)), frame),
+            frame
+          );
+        } finally {
+          preprocessor.release(input, frame);
+          bitmap.close();
+        }
+
+        framesAnalyzed++;
+        onProgress?.({
+          progress: Math.min(1, (videoTime + settings.intervalMs) / durationMs),
+          videoTime,
+          framesAnalyzed
+        });
+      }
+
+      // Close behaviours still in progress when the clip ends
+      processor.finish(durationMs);
+    } finally {
+      backend.dispose();
+      await faceMesh?.close();
+      URL.revokeObjectURL(url);
+    }
+
+    const processingMs = performance.now() - startedAt;
+
+    return {
+      id: createId(),
+      type: 'file',
+      createdAt: new Date().toISOString(),
+      source: {
+        name: file.name,
+        size: file.size,
+        duration: Math.round(durationMs),
+        width: video.videoWidth,
+        height: video.videoHeight
+      },
+      mode,
+      detector: backend.label,
+      framesAnalyzed,
+      processingMs: Math.round(processingMs),
+      speedFactor: processingMs > 0 ? Math.round((durationMs / processingMs) * 10) / 10 : null,
+      timeline: processor.getTimeline(),
+      tracks: processor.getTrackSummaries(),
+      summary: processor.summarize(durationMs)
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { getYawnConfig } from '@/config/yawn';
+import { getHeadPoseConfig } from '@/config/headPose';
+import { calculateMouthAspectRatio } from '@/utils/mouthMetrics';
+
+/**
+ * @typedef {Object} MouthYawn
+ * @property {number} time - When the mouth opened
+ * @property {number} duration - Milliseconds
+ * @property {number} peakMar - Widest opening
+ * @property {number} confidence - 0 to 1, from the opening's length and width
+ */
+
+/**
+ * @typedef {Object} MouthSample
+ * @property {number} mar - Mouth aspect ratio of this frame
+ * @property {boolean} open - Mouth open on this frame
+ * @property {MouthYawn | null} yawn - Yawn-shaped opening that ended on this frame
+ */
+
+/**
+ * Yawn analyzer
+ * Mouth openings on the FaceMesh landmarks. An opening is yawn-shaped when
+ * it lasts long enough and gets wide enough; short openings are talking,
+ * narrow long ones singing. Whether it really was a yawn is decided by the
+ * YawnFusion, together with the detector.
+ */
+export class YawnAnalyzer {
+  constructor(config = getYawnConfig().mouth) {
+    this.config = config;
+    this.reset();
+  }
+
+  reset() {
+    this.opening = null;
+  }
+
+  /**
+   * Mouth of one frame
+   * @param {Array} landmarks - FaceMesh landmarks
+   * @param {number} timestamp - Milliseconds
+   * @param {number} [aspectRatio] - Frame width over height
+   * @returns {MouthSample}
+   */
+  update(landmarks, timestamp, aspectRatio = getHeadPoseConfig().defaultAspectRatio) {
+    const mar = calculateMouthAspectRatio(landmarks, aspectRatio);
+    const { openMar } = this.config;
+
+    if (mar >= openMar) {
+      if (!this.opening) {
+        this.opening = { since: timestamp, peakMar: mar };
+      }
+      this.opening.peakMar = Math.max(this.opening.peakMar, mar);
+      return { mar, open: true, yawn: null };
+    }
+
+    const opening = this.opening;
+    this.opening = null;
+    return { mar, open: false, yawn: opening ? this.toYawn(opening, timestamp) : null };
+  }
+
+  /**
+   * @returns {MouthYawn | null} null when the opening was not yawn-shaped
+   */
+  toYawn(opening, timestamp) {
+    const { yawnMar, minMs, maxMs, confidentMar, confidentMs } = this.config;
+    const duration = timestamp - opening.since;
+    if (duration < minMs || duration > maxMs || opening.peakMar < yawnMar) return null;
+
+    // Half from how wide, half from how long, each from the yawn minimum up to full confidence
+    const widthScore = Math.min(1, (opening.peakMar - yawnMar) / (confidentMar - yawnMar));
+    const lengthScore = Math.min(1, (duration - minMs) / (confidentMs - minMs));
+    return {
+      time: opening.since,
+      duration,
+      peakMar: Math.round(opening.peakMar * 1000) / 1000,
+      confidence: Math.round((0.5 + 0.25 * widthScore + 0.25 * lengthScore) * 100) / 100
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { getYawnConfig } from '@/config/yawn';
+
+/**
+ * @typedef {Object} YawnEvent
+ * @property {'yawn'} type
+ * @property {number} time - When the yawn started
+ * @property {number} duration - Milliseconds
+ * @property {'both' | 'landmarks' | 'detector'} source - What confirmed the yawn
+ * @property {number} confidence - Of the source that confirmed it (the higher one for 'both')
+ */
+
+/**
+ * Yawn fusion
+ * Confirms yawns from the two sources: yawn-shaped mouth openings on the
+ * landmarks (YawnAnalyzer) and the detector's Yawn class. A yawn counts when
+ * both agree, or when either one alone is very confident, so talking or
+ * singing that fools one source does not count. Also keeps the yawn rate
+ * over the last 10 minutes as a fatigue signal.
+ */
+export class YawnFusion {
+  constructor(config = getYawnConfig().fusion) {
+    this.config = config;
+    this.listeners = new Set();
+    this.reset();
+  }
+
+  reset() {
+    this.detectorFrames = [];
+    this.episode = null;
+    this.yawns = [];
+  }
+
+  /**
+   * Detector output of one driver camera frame
+   * @param {Array} predictions - Detections with class and confidence
+   * @param {number} timestamp - Milliseconds
+   * @returns {YawnEvent | null} Yawn confirmed by the detector alone
+   */
+  addDetections(predictions, timestamp) {
+    const { detectorMinConfidence, episodeGapMs, agreeMs, windowMs } = this.config;
+    const confidence = predictions
+      .filter(prediction => prediction.class === 'Yawn' && prediction.confidence >= detectorMinConfidence)
+      .reduce((max, prediction) => Math.max(max, prediction.confidence), 0);
+
+    if (confidence > 0) {
+      this.detectorFrames.push({ time: timestamp, confidence });
+    }
+    this.detectorFrames = this.detectorFrames.filter(frame => timestamp - frame.time <= Math.max(windowMs, agreeMs));
+
+    // Detector yawn episodes, closed once the Yawn class has been gone for a while
+    if (confidence > 0) {
+      if (this.episode && timestamp - this.episode.last <= episodeGapMs) {
+        this.episode.last = timestamp;
+        this.episode.peak = Math.max(this.episode.peak, confidence);
+        return null;
+      }
+      const closed = this.closeEpisode();
+      this.episode = { since: timestamp, last: timestamp, peak: confidence };
+      return closed;
+    }
+    if (this.episode && timestamp - this.episode.last > episodeGapMs) {
+      return this.closeEpisode();
+    }
+    return null;
+  }
+
+  /**
+   * A yawn-shaped mouth opening from the landmarks
+   * @param {import('@/services/yawnAnalyzer').MouthYawn} mouthYawn
+   * @returns {YawnEvent | null} The yawn, if confirmed
+   */
+  addMouthYawn(mouthYawn) {
+    const { agreeMs, strongConfidence } = this.config;
+    const end = mouthYawn.time + mouthYawn.duration;
+    const agreeing = this.detectorFrames
+      .filter(frame => frame.time >= mouthYawn.time - agreeMs && frame.time <= end + agreeMs)
+      .reduce((max, frame) => Math.max(max, frame.confidence), 0);
+
+    if (this.overlapsConfirmed(mouthYawn.time, end)) return null;
+
+    if (agreeing > 0) {
+      return this.confirm({
+        time: mouthYawn.time,
+        duration: mouthYawn.duration,
+        source: 'both',
+        confidence: Math.max(agreeing, mouthYawn.confidence)
+      });
+    }
+    if (mouthYawn.confidence >= strongConfidence) {
+      return this.confirm({ time: mouthYawn.time, duration: mouthYawn.duration, source: 'landmarks', confidence: mouthYawn.confidence });
+    }
+    return null;
+  }
+
+  closeEpisode() {
+    const episode = this.episode;
+    this.episode = null;
+    if (!episode || episode.peak < this.config.strongConfidence) return null;
+    if (this.overlapsConfirmed(episode.since, episode.last)) return null;
+    return this.confirm({
+      time: episode.since,
+      duration: episode.last - episode.since,
+      source: 'detector',
+      confidence: episode.peak
+    });
+  }
+
+  /**
+   * Whether a confirmed yawn already covers this time span
+   */
+  overlapsConfirmed(start, end) {
+    const { agreeMs } = this.config;
+    return this.yawns.some(yawn => start <= yawn.time + yawn.duration + agreeMs && end >= yawn.time - agreeMs);
+  }
+
+  confirm(yawn) {
+    const event = { type: 'yawn', ...yawn, confidence: Math.round(yawn.confidence * 100) / 100 };
+    this.yawns.push(event);
+    this.yawns = this.yawns.filter(entry => event.time - entry.time <= this.config.windowMs);
+    console.log(`🥱 Yawn confirmed (${event.source}, ${Math.round(event.confidence * 100)}%)`);
+    this.listeners.forEach(listener => listener(event));
+    return event;
+  }
+
+  /**
+   * Confirmed yawns in the 10 minutes up to a time
+   */
+  getRate(timestamp) {
+    return this.yawns.filter(yawn => timestamp - yawn.time <= this.config.windowMs).length;
+  }
+
+  /**
+   * @param {(event: YawnEvent) => void} listener - Called for every confirmed yawn
+   * @returns {() => void} unsubscribe function
+   */
+  subscribe(listener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+// Live session instance, fed by the detector and the eye metrics
+export const yawnFusion = new YawnFusion();
+export default yawnFusion;
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { YawnFusion } from '@/services/yawnFusion';
+
+const yawnPrediction = (confidence) => [{ class: 'Yawn', confidence }];
+
+// Detector output every 250 ms from `from` until before `to`
+const feedDetector = (fusion, from, to, confidence) => {
+  const confirmed = [];
+  for (let t = from; t < to; t += 250) {
+    const yawn = fusion.addDetections(yawnPrediction(confidence), t);
+    if (yawn) confirmed.push(yawn);
+  }
+  return confirmed;
+};
+
+describe('YawnFusion', () => {
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('confirms a mouth yawn the detector agrees with', () => {
+    const fusion = new YawnFusion();
+    feedDetector(fusion, 1000, 3000, 0.6);
+
+    const yawn = fusion.addMouthYawn({ time: 1200, duration: 2500, peakMar: 0.7, confidence: 0.5 });
+    expect(yawn).toMatchObject({ type: 'yawn', time: 1200, duration: 2500, source: 'both', confidence: 0.6 });
+  });
+
+  it('does not confirm a weak mouth opening alone', () => {
+    const fusion = new YawnFusion();
+
+    expect(fusion.addMouthYawn({ time: 1000, duration: 2000, peakMar: 0.66, confidence: 0.5 })).toBeNull();
+    expect(fusion.getRate(5000)).toBe(0);
+  });
+
+  it('confirms a very confident mouth yawn alone', () => {
+    const fusion = new YawnFusion();
+
+    expect(fusion.addMouthYawn({ time: 1000, duration: 4000, peakMar: 0.95, confidence: 0.9 })).toMatchObject({ source: 'landmarks' });
+  });
+
+  it('confirms a detector episode only when it is very confident', () => {
+    const weak = new YawnFusion();
+    feedDetector(weak, 1000, 3000, 0.6);
+    expect(weak.addDetections([], 4500)).toBeNull();
+
+    const strong = new YawnFusion();
+    feedDetector(strong, 1000, 3000, 0.9);
+    expect(strong.addDetections([], 4500)).toMatchObject({ source: 'detector', time: 1000, duration: 1750 });
+  });
+
+  it('counts a yawn both sources report once', () => {
+    const fusion = new YawnFusion();
+    const listener = vi.fn();
+    fusion.subscribe(listener);
+
+    feedDetector(fusion, 1000, 3000, 0.9);
+    fusion.addMouthYawn({ time: 1000, duration: 2000, peakMar: 0.7, confidence: 0.6 });
+    fusion.addDetections([], 4500);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(fusion.getRate(5000)).toBe(1);
+  });
+
+  it('keeps the yawn rate over the last 10 minutes', () => {
+    const fusion = new YawnFusion();
+    fusion.addMouthYawn({ time: 0, duration: 3000, peakMar: 0.95, confidence: 0.9 });
+    fusion.addMouthYawn({ time: 120000, duration: 3000, peakMar: 0.95, confidence: 0.9 });
+
+    expect(fusion.getRate(130000)).toBe(2);
+    expect(fusion.getRate(600001)).toBe(1);
+  });
+});
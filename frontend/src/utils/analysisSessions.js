@@ -0,0 +1,59 @@
+/**
+ * Analysis Session Storage Utility
+ * Offline video analyses are stored as their own sessions, separate from
+ * the live detection data.
+ */
+
+import { ANALYSIS_CONFIG } from '@/config/analysis';
+
+const STORAGE_KEY = 'analysis_sessions';
+
+/**
+ * Get all stored analysis sessions, newest first
+ */
+export const getAnalysisSessions = () => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading analysis sessions:', error);
+    return [];
+  }
+};
+
+/**
+ * Get one analysis session by id
+ */
+export const getAnalysisSession = (id) => {
+  return getAnalysisSessions().find(session => session.id === id) || null;
+};
+
+const writeSessions = (sessions) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    window.dispatchEvent(new CustomEvent('analysisSessionsUpdated', { detail: sessions }));
+    return true;
+  } catch (error) {
+    console.error('Error saving analysis sessions:', error);
+    return false;
+  }
+};
+
+/**
+ * Save an analysis session (replaces a session with the same id)
+ */
+export const saveAnalysisSession = (session) => {
+  const sessions = getAnalysisSessions().filter(existing => existing.id !== session.id);
+  const success = writeSessions([session, ...sessions].slice(0, ANALYSIS_CONFIG.maxSessions));
+  if (success) {
+    console.log('💾 Analysis session saved:', session.id);
+  }
+  return success;
+};
+
+/**
+ * Delete an analysis session
+ */
+export const deleteAnalysisSession = (id) => {
+  return writeSessions(getAnalysisSessions().filter(session => session.id !== id));
+};
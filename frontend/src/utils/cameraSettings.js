@@ -0,0 +1,58 @@
+/**
+ * Camera Settings Storage Utility
+ * Remembers the chosen camera, its label and the preset of every device,
+ * per vehicle and camera role (driver, cabin, road).
+ */
+
+const STORAGE_KEY = 'camera_settings';
+
+/**
+ * @typedef {Object} CameraSettings
+ * @property {string | null} deviceId - Chosen camera
+ * @property {string | null} deviceLabel - Its label, used when device ids change
+ * @property {Object<string, string>} presets - Preset id per device id
+ */
+
+const DEFAULT_SETTINGS = {
+  deviceId: null,
+  deviceLabel: null,
+  presets: {}
+};
+
+const readAll = () => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading camera settings:', error);
+    return {};
+  }
+};
+
+/**
+ * Get the camera settings of a vehicle's camera role
+ * @returns {CameraSettings}
+ */
+export const getCameraSettings = (vehicleId, role = 'driver') => {
+  return { ...DEFAULT_SETTINGS, ...readAll()[vehicleId]?.[role] };
+};
+
+/**
+ * Update the camera settings of a vehicle's camera role
+ * @param {string} vehicleId
+ * @param {string} role
+ * @param {Partial<CameraSettings>} changes
+ */
+export const saveCameraSettings = (vehicleId, role, changes) => {
+  try {
+    const all = readAll();
+    const settings = { ...DEFAULT_SETTINGS, ...all[vehicleId]?.[role], ...changes };
+    const vehicle = { ...all[vehicleId], [role]: settings };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...all, [vehicleId]: vehicle }));
+    console.log(`💾 Camera settings saved for ${vehicleId} (${role})`, settings);
+    return settings;
+  } catch (error) {
+    console.error('Error saving camera settings:', error);
+    return null;
+  }
+};
@@ -0,0 +1,150 @@
+/**
+ * Event Clip Storage Utility
+ * Video clips are too large for localStorage, so they live in IndexedDB.
+ * Clip metadata and video blobs are kept in separate stores so listing the
+ * clips never loads the video.
+ */
+
+import { RECORDING_CONFIG } from '@/config/recording';
+
+const DB_NAME = 'copag-clips';
+const DB_VERSION = 1;
+const META_STORE = 'clips';
+const BLOB_STORE = 'clipData';
+
+let dbPromise = null;
+
+/**
+ * @typedef {Object} StoredClip
+ * @property {string} id
+ * @property {string} cameraId
+ * @property {string} cameraLabel
+ * @property {Object} event - Detection event that triggered the clip
+ * @property {number} startedAt - Epoch milliseconds of the first recorded chunk
+ * @property {number} endedAt
+ * @property {number} duration - Milliseconds
+ * @property {string} mimeType
+ * @property {number} size - Bytes
+ * @property {boolean} overlay - Detection boxes are burned in
+ * @property {number} createdAt
+ */
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = (request) => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction) => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+const notifyClipsUpdated = () => {
+  window.dispatchEvent(new CustomEvent('clipsUpdated'));
+};
+
+/**
+ * Get the metadata of all stored clips, newest first
+ * @returns {Promise<StoredClip[]>}
+ */
+export const getClips = async () => {
+  try {
+    const db = await openDatabase();
+    const clips = await requestResult(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+    return clips.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    console.error('Error reading clips:', error);
+    return [];
+  }
+};
+
+/**
+ * Get the video of a stored clip
+ * @returns {Promise<Blob|null>}
+ */
+export const getClipBlob = async (id) => {
+  try {
+    const db = await openDatabase();
+    return (await requestResult(db.transaction(BLOB_STORE).objectStore(BLOB_STORE).get(id))) || null;
+  } catch (error) {
+    console.error('Error reading clip video:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete clips by id
+ */
+const removeClips = async (ids) => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+  ids.forEach(id => {
+    transaction.objectStore(META_STORE).delete(id);
+    transaction.objectStore(BLOB_STORE).delete(id);
+  });
+  await transactionDone(transaction);
+};
+
+/**
+ * Save a clip with its video; the oldest clips beyond maxClips are removed
+ * @param {StoredClip} clip
+ * @param {Blob} blob
+ */
+export const saveClip = async (clip, blob) => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([META_STORE, BLOB_STORE], 'readwrite');
+    transaction.objectStore(META_STORE).put(clip);
+    transaction.objectStore(BLOB_STORE).put(blob, clip.id);
+    await transactionDone(transaction);
+
+    const clips = await getClips();
+    await removeClips(clips.slice(RECORDING_CONFIG.maxClips).map(stale => stale.id));
+
+    console.log('💾 Event clip saved:', clip.id);
+    notifyClipsUpdated();
+    return true;
+  } catch (error) {
+    console.error('Error saving clip:', error);
+    return false;
+  }
+};
+
+/**
+ * Delete a stored clip
+ */
+export const deleteClip = async (id) => {
+  try {
+    await removeClips([id]);
+    notifyClipsUpdated();
+    return true;
+  } catch (error) {
+    console.error('Error deleting clip:', error);
+    return false;
+  }
+};
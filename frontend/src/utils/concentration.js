@@ -0,0 +1,24 @@
+/**
+ * Concentration Score Utility
+ * Share of safe-driving detections among all detections, in percent.
+ * Yawns count once per confirmed yawn (yawnFusion), not per frame of the
+ * detector's Yawn class, which also fires when drivers talk or sing.
+ */
+
+/**
+ * @param {Object<string, number>} detectionCounts - Detections per class
+ * @param {number} [yawnCount] - Confirmed yawns
+ * @returns {number} 0..100 (100 when nothing was detected yet)
+ */
+export const calculateConcentration = (detectionCounts = {}, yawnCount = 0) => {
+  const totalDetections = Object.entries(detectionCounts)
+    .filter(([className]) => className !== 'Yawn')
+    .reduce((sum, [, count]) => sum + count, yawnCount);
+  if (totalDetections === 0) return 100; // Default to 100% if no detections
+
+  const safeDrivingCount = detectionCounts.SafeDriving || 0;
+  const concentration = Math.round((safeDrivingCount / totalDetections) * 100);
+
+  // Ensure concentration is between 0 and 100
+  return Math.max(0, Math.min(100, concentration));
+};
@@ -8,7 +8,8 @@ const DEFAULT_DATA = {
   totalDetections: 0,
   detectionCounts: {},
   lastUpdated: null,
-  sessionData: []
+  sessionData: [],
+  tracks: []
 };
 
 // Throttling for real-time updates
@@ -106,6 +107,42 @@ export const updateDetectionCounts = (newDetections) => {
   return success;
 };
 
+/**
+ * Record finished tracks (one entry per tracked behaviour, not per frame)
+ */
+export const recordTracks = (tracks) => {
+  if (!tracks || tracks.length === 0) return true;
+
+  const currentData = getDetectionData();
+  const summaries = tracks.map(track => {
+    const confidences = track.confidenceHistory.map(sample => sample.confidence);
+    return {
+      id: track.id,
+      cameraId: track.cameraId ?? 'driver',
+      class: track.class,
+      firstSeen: new Date(track.firstSeen).toISOString(),
+      lastSeen: new Date(track.lastSeen).toISOString(),
+      duration: track.lastSeen - track.firstSeen,
+      hits: track.hits,
+      maxConfidence: Math.max(...confidences),
+      avgConfidence: confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+    };
+  });
+
+  const updatedData = {
+    ...currentData,
+    tracks: [...currentData.tracks, ...summaries].slice(-200) // Keep last 200 tracks
+  };
+
+  const success = saveDetectionData(updatedData);
+  if (success) {
+    window.dispatchEvent(new CustomEvent('detectionDataUpdated', {
+      detail: updatedData
+    }));
+  }
+  return success;
+};
+
 /**
  * Reset detection data
  */
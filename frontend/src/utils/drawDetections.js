@@ -0,0 +1,68 @@
+/**
+ * Detection Drawing Utility
+ * Draws detection boxes and labels on a 2D canvas context. Shared by the
+ * live overlay, recorded clips and snapshots so they all look the same.
+ */
+
+/**
+ * Draw bounding boxes and labels
+ * @param {CanvasRenderingContext2D} ctx
+ * @param {Array} detections - Detections with top-left bboxes in video pixels
+ * @param {Object} options
+ * @param {(className: string) => { color: string, label: string }} options.getClassConfig
+ * @param {number} [options.scaleX] - Canvas pixels per video pixel
+ * @param {number} [options.scaleY]
+ */
+export const drawDetections = (ctx, detections, { getClassConfig, scaleX = 1, scaleY = 1 }) => {
+  detections.forEach((detection) => {
+    const { id, bbox, class: className, confidence, visible, lowReliability } = detection;
+    if (!bbox) return;
+    const classConfig = getClassConfig(className);
+
+    const x = bbox.x * scaleX;
+    const y = bbox.y * scaleY;
+    const width = bbox.width * scaleX;
+    const height = bbox.height * scaleY;
+
+    // Draw bounding box (dashed while the track is bridging a gap)
+    ctx.strokeStyle = classConfig.color;
+    ctx.lineWidth = 3;
+    ctx.setLineDash(visible === false ? [6, 4] : []);
+    ctx.strokeRect(x, y, width, height);
+    ctx.setLineDash([]);
+
+    // Draw background for label
+    const trackLabel = id?.startsWith('trk_') ? ` #${id.slice(4)}` : '';
+    const reliabilityLabel = lowReliability ? ' ⚠' : '';
+    const labelText = `${classConfig.label}${trackLabel} (${(confidence * 100).toFixed(1)}%)${reliabilityLabel}`;
+    const labelMetrics = ctx.measureText(labelText);
+    const labelHeight = 20;
+    const labelPadding = 8;
+    
+    ctx.fillStyle = classConfig.color;
+    ctx.fillRect(
+      x, 
+      y - labelHeight - labelPadding, 
+      labelMetrics.width + labelPadding * 2, 
+      labelHeight + labelPadding
+    );
+
+    // Draw label text
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = 'bold 14px Arial';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(labelText, x + labelPadding, y - labelHeight);
+
+    // Draw confidence bar
+    const barWidth = width;
+    const barHeight = 4;
+    const confidenceWidth = (confidence * barWidth);
+    
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.fillRect(x, y + height, barWidth, barHeight);
+    
+    ctx.fillStyle = classConfig.color;
+    ctx.fillRect(x, y + height, confidenceWidth, barHeight);
+  });
+};
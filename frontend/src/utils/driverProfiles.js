@@ -0,0 +1,51 @@
+/**
+ * Driver Profile Storage Utility
+ * Per-driver data that outlives a trip, keyed by driver id.
+ */
+
+const STORAGE_KEY = 'driver_profiles';
+
+const readProfiles = () => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading driver profiles:', error);
+    return {};
+  }
+};
+
+/**
+ * Get a driver's profile
+ * @returns {{ id: string, name?: string, eyeCalibration: Object | null }}
+ */
+export const getDriverProfile = (driverId) => {
+  return { id: driverId, eyeCalibration: null, ...readProfiles()[driverId] };
+};
+
+/**
+ * Update a driver's profile
+ */
+export const updateDriverProfile = (driverId, changes) => {
+  try {
+    const profiles = readProfiles();
+    const profile = { ...getDriverProfile(driverId), ...changes, updatedAt: new Date().toISOString() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...profiles, [driverId]: profile }));
+    window.dispatchEvent(new CustomEvent('driverProfileUpdated', { detail: profile }));
+    return true;
+  } catch (error) {
+    console.error('Error saving driver profile:', error);
+    return false;
+  }
+};
+
+/**
+ * Store the eye calibration learned on a trip
+ */
+export const saveEyeCalibration = (driverId, eyeCalibration) => {
+  const success = updateDriverProfile(driverId, { eyeCalibration });
+  if (success) {
+    console.log('💾 Eye calibration saved for driver', driverId);
+  }
+  return success;
+};
@@ -0,0 +1,97 @@
+/**
+ * Eye Metrics Utilities
+ * Pure calculations on FaceMesh landmarks, shared by live monitoring
+ * and offline video analysis.
+ */
+
+// Open-eye profile assumed until a driver has been calibrated
+export const DEFAULT_EYE_PROFILE = {
+  baselineEar: 0.3,
+  blinksPerMinute: 17
+};
+
+const CLOSED_RATIO = 0.7; // Eyes are closed below 70% of the open-eye baseline
+const BLINK_DROP_RATIO = 0.17; // Smoothed EAR drop that makes a blink, relative to the baseline
+const SHUT_RATIO = 0.3; // EAR of fully shut eyes (lid thickness), relative to the baseline
+
+// Eyes are considered closed below this EAR (uncalibrated driver)
+export const EAR_THRESHOLD = DEFAULT_EYE_PROFILE.baselineEar * CLOSED_RATIO;
+
+// MediaPipe FaceMesh indices of the six EAR points per eye, in p1..p6 order:
+// p1 and p4 are the eye corners, p2/p3 the upper lid, p5/p6 the lower lid
+// (p2 above p6, p3 above p5)
+export const LEFT_EYE_INDICES = [33, 160, 158, 133, 153, 144];
+export const RIGHT_EYE_INDICES = [362, 385, 387, 263, 373, 380];
+
+const distance = (a, b) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * EAR of a single eye from its six points (p1..p6)
+ * EAR = (|p2 - p6| + |p3 - p5|) / (2 |p1 - p4|)
+ */
+export const calculateEyeAspectRatio = (eyeLandmarks) => {
+  if (eyeLandmarks.length < 6) return 0;
+
+  const [p1, p2, p3, p4, p5, p6] = eyeLandmarks;
+
+  // Lid opening at two points, over the eye width
+  const horizontal = distance(p1, p4);
+  if (horizontal === 0) return 0;
+  const ear = (distance(p2, p6) + distance(p3, p5)) / (2.0 * horizontal);
+
+  // Clamp EAR to reasonable range
+  return Math.max(0, Math.min(1, ear));
+};
+
+/**
+ * EAR of both eyes
+ * Based on research: "Real-Time Eye Blink Detection using Facial Landmarks"
+ */
+export const calculateEAR = (landmarks) => {
+  if (!landmarks || landmarks.length < 468) return 0;
+
+  const leftEye = LEFT_EYE_INDICES.map(index => landmarks[index]);
+  const rightEye = RIGHT_EYE_INDICES.map(index => landmarks[index]);
+
+  // Calculate EAR for both eyes with error handling
+  const leftEAR = calculateEyeAspectRatio(leftEye);
+  const rightEAR = calculateEyeAspectRatio(rightEye);
+
+  // Return average EAR with validation
+  if (leftEAR === 0 || rightEAR === 0) return 0;
+  const avgEAR = (leftEAR + rightEAR) / 2;
+
+  // Validate EAR range (typical range: 0.1 - 0.4)
+  return Math.max(0, Math.min(0.5, avgEAR));
+};
+
+/**
+ * Blink and closure thresholds for a driver's open-eye profile
+ * @param {{ baselineEar: number, blinksPerMinute: number }} profile
+ */
+export const getEyeThresholds = (profile = DEFAULT_EYE_PROFILE) => ({
+  closedEar: profile.baselineEar * CLOSED_RATIO,
+  blinkDrop: profile.baselineEar * BLINK_DROP_RATIO
+});
+
+/**
+ * Eyelid openness from 0 (shut) to 1 (open as the driver's baseline)
+ * EAR does not reach 0 on shut eyes, so openness is measured from the shut-eye EAR
+ */
+export const getEyeOpenness = (ear, profile = DEFAULT_EYE_PROFILE) => {
+  const shutEar = profile.baselineEar * SHUT_RATIO;
+  const openness = (ear - shutEar) / (profile.baselineEar - shutEar);
+  return Math.max(0, Math.min(1, openness));
+};
+
+/**
+ * Kind of an eye closure by its duration
+ * @param {number} duration - Milliseconds
+ * @param {{ longBlinkMs: number, microsleepMs: number }} thresholds
+ * @returns {'blink' | 'longBlink' | 'microsleep'}
+ */
+export const classifyClosure = (duration, { longBlinkMs, microsleepMs }) => {
+  if (duration >= microsleepMs) return 'microsleep';
+  if (duration >= longBlinkMs) return 'longBlink';
+  return 'blink';
+};
@@ -0,0 +1,73 @@
+/**
+ * Gaze Utilities
+ * Pure iris and gaze zone calculations on refined FaceMesh landmarks
+ * (478 points: the 468 face points followed by 5 points per iris).
+ */
+
+export const REFINED_LANDMARK_COUNT = 478;
+
+// Iris centre with the corners and mid-lid points of its eye
+const EYES = [
+  { iris: 468, corners: [33, 133], lids: [159, 145] },
+  { iris: 473, corners: [362, 263], lids: [386, 374] }
+];
+
+/**
+ * Iris position within the eyes, in eye widths from the eye centre
+ * (x > 0 towards the image's right, y > 0 down), averaged over both eyes.
+ * @param {Array<{x: number, y: number}>} landmarks - Refined FaceMesh landmarks
+ * @param {number} aspectRatio - Frame width over height
+ * @returns {{ x: number, y: number } | null} null without iris landmarks
+ */
+export const getIrisOffset = (landmarks, aspectRatio) => {
+  if (!landmarks || landmarks.length < REFINED_LANDMARK_COUNT) return null;
+
+  const point = (index) => ({ x: landmarks[index].x * aspectRatio, y: landmarks[index].y });
+  const offsets = EYES.map(({ iris, corners, lids }) => {
+    const [cornerA, cornerB] = corners.map(point);
+    const [upper, lower] = lids.map(point);
+    const width = Math.hypot(cornerB.x - cornerA.x, cornerB.y - cornerA.y);
+    if (width === 0) return null;
+    const centre = point(iris);
+    return {
+      x: (centre.x - (cornerA.x + cornerB.x) / 2) / width,
+      y: (centre.y - (upper.y + lower.y) / 2) / width
+    };
+  }).filter(Boolean);
+  if (offsets.length === 0) return null;
+
+  return {
+    x: offsets.reduce((sum, offset) => sum + offset.x, 0) / offsets.length,
+    y: offsets.reduce((sum, offset) => sum + offset.y, 0) / offsets.length
+  };
+};
+
+/**
+ * Gaze zone a gaze direction falls in
+ * @param {{ yaw: number, pitch: number }} gaze - Degrees
+ * @param {Array<{ id: string, yaw: number[], pitch: number[] }>} zones - First match wins
+ * @returns {string} Zone id, 'other' outside every zone
+ */
+export const findGazeZone = (gaze, zones) => {
+  const zone = zones.find(({ yaw, pitch }) =>
+    gaze.yaw >= yaw[0] && gaze.yaw <= yaw[1] && gaze.pitch >= pitch[0] && gaze.pitch <= pitch[1]
+  );
+  return zone ? zone.id : 'other';
+};
+
+const MIRRORED_ZONE_IDS = { leftMirror: 'rightMirror', rightMirror: 'leftMirror' };
+
+/**
+ * Gaze zones for the other seat side: yaw ranges flipped, and the near and
+ * far side mirrors swapped
+ * @param {Array<{ id: string, label: string, yaw: number[], pitch: number[] }>} zones - Left-hand-drive zones
+ * @param {'left' | 'right'} seat - Driver's seat side
+ */
+export const getSeatGazeZones = (zones, seat) => {
+  if (seat !== 'right') return zones;
+  return zones.map(zone => {
+    const id = MIRRORED_ZONE_IDS[zone.id] ?? zone.id;
+    const label = zones.find(other => other.id === id)?.label ?? zone.label;
+    return { ...zone, id, label, yaw: [-zone.yaw[1], -zone.yaw[0]] };
+  });
+};
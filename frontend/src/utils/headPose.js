@@ -0,0 +1,62 @@
+/**
+ * Head Pose Utilities
+ * Pure head orientation estimate from FaceMesh landmarks, shared by live
+ * monitoring, offline video analysis and replay.
+ */
+
+// MediaPipe FaceMesh indices used for the face axes
+export const HEAD_POSE_INDICES = {
+  forehead: 10,
+  chin: 152,
+  leftCheek: 234,               // Image left
+  rightCheek: 454,              // Image right
+  leftEyeCorner: 33,
+  rightEyeCorner: 263
+};
+
+const DEGREES = 180 / Math.PI;
+
+const subtract = (a, b) => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+const cross = (a, b) => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+
+/**
+ * Head orientation in degrees, in image terms:
+ * yaw > 0 turned towards the image's right, pitch > 0 tilted down,
+ * roll > 0 tilted clockwise.
+ * Landmarks are normalized to the frame width (x, z) and height (y), so x and
+ * z are stretched by the frame's aspect ratio to put all axes on one scale.
+ * @param {Array<{x: number, y: number, z?: number}>} landmarks - FaceMesh landmarks
+ * @param {number} aspectRatio - Frame width over height
+ * @returns {{ yaw: number, pitch: number, roll: number } | null}
+ */
+export const estimateHeadPose = (landmarks, aspectRatio) => {
+  if (!landmarks || landmarks.length < 468) return null;
+
+  const point = (index) => {
+    const { x, y, z = 0 } = landmarks[index];
+    return { x: x * aspectRatio, y, z: z * aspectRatio };
+  };
+
+  const across = subtract(point(HEAD_POSE_INDICES.rightCheek), point(HEAD_POSE_INDICES.leftCheek));
+  const down = subtract(point(HEAD_POSE_INDICES.chin), point(HEAD_POSE_INDICES.forehead));
+
+  // Face normal, pointing out of the face (towards the camera when facing it)
+  const normal = cross(down, across);
+  const length = Math.hypot(normal.x, normal.y, normal.z);
+  if (length === 0) return null;
+  const forward = { x: normal.x / length, y: normal.y / length, z: normal.z / length };
+
+  const leftEye = point(HEAD_POSE_INDICES.leftEyeCorner);
+  const rightEye = point(HEAD_POSE_INDICES.rightEyeCorner);
+
+  return {
+    yaw: Math.atan2(forward.x, -forward.z) * DEGREES,
+    pitch: Math.atan2(forward.y, Math.hypot(forward.x, forward.z)) * DEGREES,
+    roll: Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x) * DEGREES
+  };
+};
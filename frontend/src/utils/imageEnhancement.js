@@ -0,0 +1,206 @@
+/**
+ * Image Enhancement Utilities
+ * Pure tone curves for dark and IR frames: contrast stretch, auto gamma and
+ * contrast-limited tile equalization (CLAHE-style), measured on a small
+ * sample of the frame and applied to the full frame's pixels.
+ */
+
+const CURVE_SIZE = 256;
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+/**
+ * Brightness statistics of a frame sample
+ * @param {Uint8ClampedArray} rgba - ImageData pixels
+ * @returns {{ luminance: Uint8ClampedArray, histogram: Uint32Array, brightness: number, saturation: number }}
+ *   saturation is the mean spread between the colour channels, near 0 on IR frames
+ */
+export const measureSample = (rgba) => {
+  const pixels = rgba.length / 4;
+  const luminance = new Uint8ClampedArray(pixels);
+  const histogram = new Uint32Array(CURVE_SIZE);
+  let sum = 0;
+  let spread = 0;
+
+  for (let i = 0; i < pixels; i++) {
+    const r = rgba[i * 4];
+    const g = rgba[i * 4 + 1];
+    const b = rgba[i * 4 + 2];
+    const value = (77 * r + 150 * g + 29 * b) >> 8;
+    luminance[i] = value;
+    histogram[value]++;
+    sum += value;
+    spread += Math.max(r, g, b) - Math.min(r, g, b);
+  }
+
+  return {
+    luminance,
+    histogram,
+    brightness: pixels > 0 ? sum / pixels : 0,
+    saturation: pixels > 0 ? spread / pixels : 0
+  };
+};
+
+/**
+ * Lowest brightness with at least a share of the pixels at or below it
+ */
+const percentile = (histogram, total, share) => {
+  let count = 0;
+  for (let value = 0; value < CURVE_SIZE; value++) {
+    count += histogram[value];
+    if (count >= share * total) return value;
+  }
+  return CURVE_SIZE - 1;
+};
+
+/**
+ * Global tone curve: stretch the brightness percentiles to the full range,
+ * then the gamma that brings the mean brightness to the target
+ * @param {Uint32Array} histogram - Brightness histogram of the sample
+ * @param {{ contrast: object, gamma: object }} config - Preprocessing configuration
+ * @returns {{ curve: Uint8Array, gamma: number }}
+ */
+export const buildToneCurve = (histogram, { contrast, gamma }) => {
+  const total = histogram.reduce((sum, count) => sum + count, 0) || 1;
+  const low = percentile(histogram, total, contrast.lowPercentile);
+  const high = Math.max(low + 1, percentile(histogram, total, contrast.highPercentile));
+  const stretch = (value) => clamp((value - low) / (high - low), 0, 1);
+
+  let stretchedSum = 0;
+  for (let value = 0; value < CURVE_SIZE; value++) {
+    stretchedSum += histogram[value] * stretch(value);
+  }
+  const mean = stretchedSum / total;
+  const exponent = mean > 0 && mean < 1
+    ? clamp(Math.log(gamma.targetBrightness / 255) / Math.log(mean), gamma.min, gamma.max)
+    : 1;
+
+  const curve = new Uint8Array(CURVE_SIZE);
+  for (let value = 0; value < CURVE_SIZE; value++) {
+    curve[value] = Math.round(255 * Math.pow(stretch(value), exponent));
+  }
+  return { curve, gamma: exponent };
+};
+
+/**
+ * Contrast-limited equalization curve per tile of the sample, applied after
+ * the tone curve and blended with it
+ * @param {Uint8ClampedArray} luminance - Sample brightness, row by row
+ * @param {number} width - Sample width
+ * @param {number} height - Sample height
+ * @param {Uint8Array} toneCurve
+ * @param {{ tiles: number, clipLimit: number, strength: number }} equalization
+ * @returns {Uint8Array} tiles x tiles curves of 256 entries, tile row by tile row
+ */
+export const buildTileCurves = (luminance, width, height, toneCurve, { tiles, clipLimit, strength }) => {
+  const curves = new Uint8Array(tiles * tiles * CURVE_SIZE);
+  const histogram = new Float64Array(CURVE_SIZE);
+
+  for (let row = 0; row < tiles; row++) {
+    for (let column = 0; column < tiles; column++) {
+      histogram.fill(0);
+      const x0 = Math.floor(column * width / tiles);
+      const x1 = Math.floor((column + 1) * width / tiles);
+      const y0 = Math.floor(row * height / tiles);
+      const y1 = Math.floor((row + 1) * height / tiles);
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          histogram[toneCurve[luminance[y * width + x]]]++;
+        }
+      }
+      const count = Math.max(1, (x1 - x0) * (y1 - y0));
+
+      // Clip the histogram so flat areas do not get their noise amplified, and spread the excess
+      const limit = Math.max(1, clipLimit * count / CURVE_SIZE);
+      let excess = 0;
+      for (let value = 0; value < CURVE_SIZE; value++) {
+        if (histogram[value] > limit) {
+          excess += histogram[value] - limit;
+          histogram[value] = limit;
+        }
+      }
+
+      const offset = (row * tiles + column) * CURVE_SIZE;
+      let cumulative = 0;
+      const equalized = new Uint8Array(CURVE_SIZE);
+      for (let value = 0; value < CURVE_SIZE; value++) {
+        cumulative += histogram[value] + excess / CURVE_SIZE;
+        equalized[value] = Math.round(255 * Math.min(1, cumulative / count));
+      }
+      for (let value = 0; value < CURVE_SIZE; value++) {
+        const toned = toneCurve[value];
+        curves[offset + value] = Math.round(toned + (equalized[toned] - toned) * strength);
+      }
+    }
+  }
+  return curves;
+};
+
+/**
+ * Tile below and above each position along one side, and the weight of the
+ * one above, so curves blend between tile centres
+ */
+const tileWeights = (size, tiles) => {
+  const below = new Int32Array(size);
+  const above = new Int32Array(size);
+  const weight = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const position = clamp(((i + 0.5) / size) * tiles - 0.5, 0, tiles - 1);
+    below[i] = Math.floor(position);
+    above[i] = Math.min(below[i] + 1, tiles - 1);
+    weight[i] = position - below[i];
+  }
+  return { below, above, weight };
+};
+
+/**
+ * Apply tile curves to a frame's pixels in place
+ * Colour frames keep their hue (the channels are scaled with the brightness);
+ * monochrome (IR) frames get the new brightness in all three channels.
+ * @param {Uint8ClampedArray} rgba - ImageData pixels of the full frame
+ * @param {number} width
+ * @param {number} height
+ * @param {Uint8Array} curves - From buildTileCurves, or a single tone curve with tiles = 1
+ * @param {number} tiles - Tiles per side
+ * @param {boolean} monochrome
+ */
+export const applyTileCurves = (rgba, width, height, curves, tiles, monochrome) => {
+  const columns = tileWeights(width, tiles);
+  const rows = tileWeights(height, tiles);
+
+  for (let y = 0; y < height; y++) {
+    const topRow = rows.below[y] * tiles;
+    const bottomRow = rows.above[y] * tiles;
+    const wy = rows.weight[y];
+
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = rgba[i];
+      const g = rgba[i + 1];
+      const b = rgba[i + 2];
+      const value = (77 * r + 150 * g + 29 * b) >> 8;
+
+      const left = columns.below[x];
+      const right = columns.above[x];
+      const wx = columns.weight[x];
+      const topLeft = curves[(topRow + left) * CURVE_SIZE + value];
+      const topRight = curves[(topRow + right) * CURVE_SIZE + value];
+      const bottomLeft = curves[(bottomRow + left) * CURVE_SIZE + value];
+      const bottomRight = curves[(bottomRow + right) * CURVE_SIZE + value];
+      const top = topLeft + (topRight - topLeft) * wx;
+      const bottom = bottomLeft + (bottomRight - bottomLeft) * wx;
+      const enhanced = top + (bottom - top) * wy;
+
+      if (monochrome || value === 0) {
+        rgba[i] = enhanced;
+        rgba[i + 1] = enhanced;
+        rgba[i + 2] = enhanced;
+      } else {
+        const scale = enhanced / value;
+        rgba[i] = r * scale;
+        rgba[i + 1] = g * scale;
+        rgba[i + 2] = b * scale;
+      }
+    }
+  }
+};
@@ -0,0 +1,137 @@
+/**
+ * Image Quality Utilities
+ * Pure picture measurements on grayscale pixels, used to tell whether a
+ * camera frame is usable.
+ */
+
+/**
+ * @typedef {Object} ImageQuality
+ * @property {number} brightness - Mean luminance (0-255)
+ * @property {number[]} histogram - Share of pixels per brightness bin
+ * @property {number} overexposedShare - Share of pixels at or above the overexposure level
+ * @property {number} sharpness - Variance of the Laplacian; low on blurred frames
+ * @property {number} uniformShare - Share of grid cells without texture and of one brightness
+ * @property {number | null} difference - Mean absolute pixel change from the previous frame
+ */
+
+/**
+ * Luminance (0-255) of RGBA pixels
+ * @param {Uint8ClampedArray} rgba - ImageData pixels
+ * @returns {Uint8ClampedArray}
+ */
+export const toGrayscale = (rgba) => {
+  const gray = new Uint8ClampedArray(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Variance of the 4-neighbour Laplacian over the inner pixels
+ */
+const laplacianVariance = (gray, width, height) => {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+};
+
+const UNIFORM_LEVEL_STEP = 16; // Uniform cells this close in brightness belong to one area
+
+/**
+ * Largest share of the cells of a grid x grid split that have no texture
+ * and about the same brightness: something flat in front of the lens, not
+ * just a blurred or plain scene whose brightness still varies
+ */
+const uniformCellShare = (gray, width, height, grid, maxStdDev) => {
+  const cellWidth = Math.floor(width / grid);
+  const cellHeight = Math.floor(height / grid);
+  if (cellWidth === 0 || cellHeight === 0) return 0;
+
+  const byBrightness = new Map();
+  for (let row = 0; row < grid; row++) {
+    for (let column = 0; column < grid; column++) {
+      let sum = 0;
+      let sumSquares = 0;
+      for (let y = row * cellHeight; y < (row + 1) * cellHeight; y++) {
+        for (let x = column * cellWidth; x < (column + 1) * cellWidth; x++) {
+          const value = gray[y * width + x];
+          sum += value;
+          sumSquares += value * value;
+        }
+      }
+      const count = cellWidth * cellHeight;
+      const mean = sum / count;
+      if (Math.sqrt(Math.max(0, sumSquares / count - mean * mean)) <= maxStdDev) {
+        const level = Math.floor(mean / UNIFORM_LEVEL_STEP);
+        byBrightness.set(level, (byBrightness.get(level) || 0) + 1);
+      }
+    }
+  }
+  const largest = Math.max(0, ...byBrightness.values());
+  return largest / (grid * grid);
+};
+
+/**
+ * Quality of one grayscale frame
+ * @param {Uint8ClampedArray} gray - Luminance per pixel, row by row
+ * @param {number} width
+ * @param {number} height
+ * @param {Uint8ClampedArray | null} previous - Previous frame of the same size, if any
+ * @param {{ histogramBins: number, checks: object }} config - Camera health configuration
+ * @returns {ImageQuality}
+ */
+export const measureImageQuality = (gray, width, height, previous, config) => {
+  const { histogramBins, checks } = config;
+  const histogram = new Array(histogramBins).fill(0);
+  let sum = 0;
+  let overexposed = 0;
+  let change = 0;
+  const comparable = previous && previous.length === gray.length;
+
+  for (let i = 0; i < gray.length; i++) {
+    const value = gray[i];
+    sum += value;
+    histogram[Math.min(histogramBins - 1, Math.floor(value * histogramBins / 256))]++;
+    if (value >= checks.overexposed.level) overexposed++;
+    if (comparable) change += Math.abs(value - previous[i]);
+  }
+
+  const pixels = gray.length || 1;
+  return {
+    brightness: sum / pixels,
+    histogram: histogram.map(count => count / pixels),
+    overexposedShare: overexposed / pixels,
+    sharpness: laplacianVariance(gray, width, height),
+    uniformShare: uniformCellShare(gray, width, height, checks.occlusion.grid, checks.occlusion.maxStdDev),
+    difference: comparable ? change / pixels : null
+  };
+};
+
+/**
+ * Problems of a measured frame
+ * @param {ImageQuality} quality
+ * @param {object} checks - Thresholds from the camera health configuration
+ * @returns {string[]} Failed checks: dark, overexposed, blur, occlusion, frozen
+ */
+export const findImageIssues = (quality, checks) => {
+  const issues = [];
+  if (quality.brightness <= checks.dark.maxBrightness) issues.push('dark');
+  if (quality.overexposedShare >= checks.overexposed.maxShare) issues.push('overexposed');
+  if (quality.sharpness < checks.blur.minSharpness) issues.push('blur');
+  if (quality.uniformShare >= checks.occlusion.maxShare) issues.push('occlusion');
+  if (quality.difference !== null && quality.difference <= checks.frozen.maxDifference) issues.push('frozen');
+  return issues;
+};
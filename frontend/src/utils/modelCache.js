@@ -0,0 +1,77 @@
+/**
+ * Model Cache Utility
+ * Loads the model manifest and registers the service worker that keeps
+ * bundled model assets in a versioned Cache Storage bucket
+ */
+
+import {
+  MODEL_MANIFEST_URL,
+  MODEL_SERVICE_WORKER_URL,
+  DEFAULT_MODEL_MANIFEST,
+  validateModelManifest
+} from '@/config/models';
+
+let manifestPromise = null;
+
+/**
+ * Fetch the model manifest (served from cache by the service worker when offline)
+ */
+const fetchModelManifest = async () => {
+  try {
+    const response = await fetch(MODEL_MANIFEST_URL, { cache: 'no-cache' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const manifest = await response.json();
+    const validation = validateModelManifest(manifest);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(', '));
+    }
+
+    return manifest;
+  } catch (error) {
+    console.warn('⚠️ Using built-in model manifest:', error.message);
+    return DEFAULT_MODEL_MANIFEST;
+  }
+};
+
+/**
+ * Get the model manifest (loaded once per page)
+ */
+export const loadModelManifest = () => {
+  if (!manifestPromise) {
+    manifestPromise = fetchModelManifest();
+  }
+  return manifestPromise;
+};
+
+/**
+ * Register the model cache service worker for the current manifest version.
+ * A new version installs a fresh cache and removes the previous one.
+ */
+export const registerModelCache = async () => {
+  if (!('serviceWorker' in navigator)) {
+    console.warn('⚠️ Service workers unavailable, model assets will not be cached');
+    return false;
+  }
+
+  try {
+    const manifest = await loadModelManifest();
+    await navigator.serviceWorker.register(
+      `${MODEL_SERVICE_WORKER_URL}?v=${encodeURIComponent(manifest.version)}`
+    );
+    console.log(`📦 Model cache registered (manifest v${manifest.version})`);
+    return true;
+  } catch (error) {
+    console.error('Error registering model cache:', error);
+    return false;
+  }
+};
+
+/**
+ * Build the URL of a bundled FaceMesh asset
+ */
+export const getFaceMeshAssetUrl = (manifest, file) => {
+  return `${manifest.faceMesh.baseUrl}${file}`;
+};
@@ -0,0 +1,28 @@
+/**
+ * Mouth Metrics Utilities
+ * Pure mouth aspect ratio (MAR) calculation on FaceMesh landmarks.
+ */
+
+// Inner lip corners, and three upper/lower inner lip pairs across the mouth
+const MOUTH_CORNERS = [78, 308];
+const MOUTH_PAIRS = [[81, 178], [13, 14], [311, 402]];
+
+/**
+ * MAR: mean inner lip opening over the inner mouth width
+ * x is stretched by the frame's aspect ratio so both axes are on one scale.
+ * @param {Array<{x: number, y: number}>} landmarks - FaceMesh landmarks
+ * @param {number} aspectRatio - Frame width over height
+ * @returns {number} 0 when the landmarks are missing
+ */
+export const calculateMouthAspectRatio = (landmarks, aspectRatio) => {
+  if (!landmarks || landmarks.length < 468) return 0;
+
+  const point = (index) => ({ x: landmarks[index].x * aspectRatio, y: landmarks[index].y });
+  const distance = (a, b) => Math.hypot(a.x - b.x, a.y - b.y);
+
+  const width = distance(point(MOUTH_CORNERS[0]), point(MOUTH_CORNERS[1]));
+  if (width === 0) return 0;
+
+  const opening = MOUTH_PAIRS.reduce((sum, [upper, lower]) => sum + distance(point(upper), point(lower)), 0);
+  return opening / (MOUTH_PAIRS.length * width);
+};
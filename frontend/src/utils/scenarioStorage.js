@@ -0,0 +1,95 @@
+/**
+ * Scenario Storage Utility
+ * User-made simulator scenarios; the built-in ones come from the simulator
+ * config and are never stored.
+ */
+
+import { BUILT_IN_SCENARIOS, SIMULATOR_CONFIG } from '@/config/simulator';
+import { SCENARIO_FORMAT, SCENARIO_VERSION, validateScenario } from '@/services/scenarioSimulator';
+
+const STORAGE_KEY = 'simulator_scenarios';
+
+/**
+ * Get the saved scenarios, newest first
+ */
+export const getSavedScenarios = () => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading scenarios:', error);
+    return [];
+  }
+};
+
+/**
+ * Built-in scenarios followed by the saved ones
+ */
+export const getScenarios = () => [...BUILT_IN_SCENARIOS, ...getSavedScenarios()];
+
+const writeScenarios = (scenarios) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+    window.dispatchEvent(new CustomEvent('scenariosUpdated', { detail: scenarios }));
+    return true;
+  } catch (error) {
+    console.error('Error saving scenarios:', error);
+    return false;
+  }
+};
+
+/**
+ * Save a scenario (replaces a scenario with the same id)
+ */
+export const saveScenario = (scenario) => {
+  const scenarios = getSavedScenarios().filter(existing => existing.id !== scenario.id);
+  const stored = { ...scenario, builtIn: false, updatedAt: new Date().toISOString() };
+  const success = writeScenarios([stored, ...scenarios].slice(0, SIMULATOR_CONFIG.maxSavedScenarios));
+  if (success) {
+    console.log('💾 Scenario saved:', scenario.name);
+  }
+  return success;
+};
+
+/**
+ * Delete a saved scenario
+ */
+export const deleteScenario = (id) => {
+  return writeScenarios(getSavedScenarios().filter(scenario => scenario.id !== id));
+};
+
+/**
+ * Scenario as a shareable JSON document
+ */
+export const exportScenario = (scenario) => JSON.stringify({
+  format: SCENARIO_FORMAT,
+  version: SCENARIO_VERSION,
+  id: scenario.id,
+  name: scenario.name,
+  segments: scenario.segments
+}, null, 2);
+
+/**
+ * Parse an exported scenario; it gets a new id so it never replaces an existing one
+ * @throws {Error} When the text is not a valid scenario
+ */
+export const importScenario = (text) => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== SCENARIO_FORMAT) {
+    throw new Error('Not a simulator scenario');
+  }
+  if (parsed.version > SCENARIO_VERSION) {
+    throw new Error(`Scenario version ${parsed.version} is newer than this app supports (${SCENARIO_VERSION})`);
+  }
+
+  const validation = validateScenario(parsed);
+  if (!validation.isValid) {
+    throw new Error(validation.errors.join(', '));
+  }
+
+  return {
+    id: `scenario_${Date.now()}`,
+    name: parsed.name || 'Imported scenario',
+    segments: parsed.segments
+  };
+};
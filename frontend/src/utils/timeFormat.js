@@ -0,0 +1,9 @@
+/**
+ * Format a video time in milliseconds as m:ss.s
+ */
+export const formatVideoTime = (ms) => {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
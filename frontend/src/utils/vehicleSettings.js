@@ -0,0 +1,53 @@
+/**
+ * Vehicle Settings Storage Utility
+ * Remembers settings of the vehicle itself (driver seat side), per vehicle.
+ */
+
+import { getVehicleConfig } from '@/config/vehicle';
+
+const STORAGE_KEY = 'vehicle_settings';
+
+/**
+ * @typedef {Object} VehicleSettings
+ * @property {'left' | 'right'} driverSeat - Side of the driver's seat (left- or right-hand drive)
+ */
+
+const readAll = () => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Error reading vehicle settings:', error);
+    return {};
+  }
+};
+
+const getDefaultSettings = () => ({
+  driverSeat: getVehicleConfig().driverSeat
+});
+
+/**
+ * Get the settings of a vehicle
+ * @returns {VehicleSettings}
+ */
+export const getVehicleSettings = (vehicleId) => {
+  return { ...getDefaultSettings(), ...readAll()[vehicleId] };
+};
+
+/**
+ * Update the settings of a vehicle
+ * @param {string} vehicleId
+ * @param {Partial<VehicleSettings>} changes
+ */
+export const saveVehicleSettings = (vehicleId, changes) => {
+  try {
+    const all = readAll();
+    const settings = { ...getDefaultSettings(), ...all[vehicleId], ...changes };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...all, [vehicleId]: settings }));
+    console.log(`💾 Vehicle settings saved for ${vehicleId}`, settings);
+    return settings;
+  } catch (error) {
+    console.error('Error saving vehicle settings:', error);
+    return null;
+  }
+};
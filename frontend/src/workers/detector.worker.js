@@ -0,0 +1,49 @@
+/**
+ * Detector worker
+ * Hosts a pull detector backend and runs it on transferred ImageBitmaps
+ */
+import { BACKENDS } from '@/services/detectors/registry';
+
+let backend = null;
+
+self.onmessage = async (event) => {
+  const { id, type, payload } = event.data;
+
+  try {
+    let result;
+
+    switch (type) {
+      case 'init': {
+        const Backend = BACKENDS[payload.backend];
+        if (!Backend) {
+          throw new Error(`Unknown detector backend: ${payload.backend}`);
+        }
+        backend = new Backend(payload.config);
+        await backend.load();
+        result = { label: backend.label };
+        break;
+      }
+
+      case 'detect':
+        try {
+          result = await backend.detect(payload.bitmap);
+        } finally {
+          payload.bitmap.close();
+        }
+        break;
+
+      case 'dispose':
+        await backend?.dispose();
+        backend = null;
+        result = true;
+        break;
+
+      default:
+        throw new Error(`Unknown detector worker request: ${type}`);
+    }
+
+    self.postMessage({ id, result });
+  } catch (error) {
+    self.postMessage({ id, error: error.message });
+  }
+};
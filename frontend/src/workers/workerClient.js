@@ -0,0 +1,61 @@
+/**
+ * Promise based request/response wrapper around a dedicated worker.
+ * Requests are posted as { id, type, payload } and the worker answers
+ * with { id, result } or { id, error }.
+ */
+export class WorkerClient {
+  constructor(worker, name = 'worker') {
+    this.worker = worker;
+    this.name = name;
+    this.pending = new Map();
+    this.nextId = 0;
+
+    this.worker.onmessage = (event) => {
+      const { id, result, error } = event.data;
+      const request = this.pending.get(id);
+      if (!request) return;
+
+      this.pending.delete(id);
+      if (error) {
+        request.reject(new Error(error));
+      } else {
+        request.resolve(result);
+      }
+    };
+
+    this.worker.onerror = (event) => {
+      console.error(`❌ ${this.name} crashed:`, event.message);
+      this.rejectAll(new Error(event.message || `${this.name} crashed`));
+    };
+  }
+
+  /**
+   * Send a request; objects in `transfer` (e.g. ImageBitmaps) are moved, not copied
+   */
+  request(type, payload = {}, transfer = []) {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ id, type, payload }, transfer);
+    });
+  }
+
+  rejectAll(error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+
+  terminate() {
+    this.rejectAll(new Error(`${this.name} terminated`));
+    this.worker.terminate();
+  }
+}
+
+/**
+ * Whether frames can be processed off the main thread in this browser
+ */
+export const supportsFrameWorkers = () => {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined';
+};